@@ -21,6 +21,17 @@ type Diff = {
    * It does not include nodes that were inserted or deleted in the same transaction.
    */
   updated: Set<string>;
+  /**
+   * Map of the IDs in \`updated\` to the keys of their state that changed. For
+   * nodes that were deleted and reinserted in the same transaction, it
+   * includes all the keys with a non-default value.
+   */
+  updatedKeys: Map<string, Set<string>>;
+  /**
+   * Set of IDs of the nodes whose type was changed during the transaction.
+   * It does not include nodes that were inserted in the same transaction.
+   */
+  typeChanged: Set<string>;
 };
 \`\`\`
 `;
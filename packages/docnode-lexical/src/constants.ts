@@ -1 +1,8 @@
 export const SKIP_UNDO_TAG = "docnode-skip-undo";
+
+/**
+ * Origin of the transactions in which an editor syncs its changes to the doc.
+ * The key of the editor is in the `editorKey` of their `meta`, so that the
+ * editor doesn't apply its own changes back.
+ */
+export const LEXICAL_ORIGIN = "lexical";
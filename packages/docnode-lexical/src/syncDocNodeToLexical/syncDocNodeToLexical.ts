@@ -11,11 +11,8 @@ import {
   type SerializedLexicalNode,
 } from "lexical";
 
+import { LEXICAL_ORIGIN } from "../constants.js";
 import { LexicalDocNode } from "../lexicalDocNode.js";
-import {
-  getIsApplyingOwnChanges,
-  setIsApplyingOwnChanges,
-} from "../syncLexicalToDocNode.js";
 import type { KeyBinding } from "../types.js";
 import {
   captureSelectionTransformState,
@@ -28,36 +25,32 @@ export function syncDocNodeToLexical(
   keyBinding: KeyBinding,
 ) {
   // Sync DocNode → Lexical using operations
-  const unregisterDocListener = doc.onChange(({ operations }) => {
-    // Skip if this editor is currently applying its own changes to Doc
-    // This prevents reapplying changes when using a shared Doc
-    if (getIsApplyingOwnChanges(editor)) {
+  const unregisterDocListener = doc.onChange(({ operations, flags }) => {
+    // Skip the changes this editor made to the doc (see syncLexicalToDocNode).
+    // Other editors sharing the doc still apply them.
+    if (
+      flags.origin === LEXICAL_ORIGIN &&
+      flags.meta?.editorKey === editor.getKey()
+    ) {
       return;
     }
 
-    // Mark that we're applying remote changes to prevent loops
-    setIsApplyingOwnChanges(editor, true);
-
-    try {
-      const selectionState = editor
-        .getEditorState()
-        .read(() => captureSelectionTransformState());
+    const selectionState = editor
+      .getEditorState()
+      .read(() => captureSelectionTransformState());
 
-      editor.update(
-        () => {
-          $applyDocNodeOperations(doc, operations, keyBinding, selectionState);
-        },
-        {
-          discrete: true,
-          skipTransforms: true,
-          // Use COLLABORATION_TAG to prevent DOM selection updates when editor is not focused
-          tag: COLLABORATION_TAG,
-        },
-      );
-    } finally {
-      // Reset flag after update completes (including any triggered updates)
-      setIsApplyingOwnChanges(editor, false);
-    }
+    editor.update(
+      () => {
+        $applyDocNodeOperations(doc, operations, keyBinding, selectionState);
+      },
+      {
+        discrete: true,
+        skipTransforms: true,
+        // Use COLLABORATION_TAG to prevent DOM selection updates when editor is not focused,
+        // and so that syncLexicalToDocNode doesn't sync the update back to the doc
+        tag: COLLABORATION_TAG,
+      },
+    );
   });
 
   return unregisterDocListener;
@@ -10,25 +10,9 @@ import {
 } from "lexical";
 
 import { LexicalDocNode } from "./lexicalDocNode.js";
-import { SKIP_UNDO_TAG } from "./constants.js";
+import { LEXICAL_ORIGIN, SKIP_UNDO_TAG } from "./constants.js";
 import type { KeyBinding } from "./types.js";
 
-// Track which editor is currently making changes to prevent reapplying own changes
-// without this, a change in lexical would trigger a change in docnode,
-// which would trigger a change in lexical, etc.
-const isApplyingOwnChanges = new WeakMap<LexicalEditor, boolean>();
-
-export function getIsApplyingOwnChanges(editor: LexicalEditor): boolean {
-  return isApplyingOwnChanges.get(editor) === true;
-}
-
-export function setIsApplyingOwnChanges(
-  editor: LexicalEditor,
-  value: boolean,
-): void {
-  isApplyingOwnChanges.set(editor, value);
-}
-
 export function syncLexicalToDocNode(
   doc: Doc,
   editor: LexicalEditor,
@@ -37,51 +21,39 @@ export function syncLexicalToDocNode(
   // Sync Lexical → DocNode
   const unregisterEditorListener = editor.registerUpdateListener(
     ({ editorState, dirtyElements, dirtyLeaves, tags }) => {
-      // Skip if update is remote (from another editor) to avoid infinite loop
+      // Skip if update comes from the doc (see syncDocNodeToLexical) to avoid
+      // an infinite loop
       if (tags.has(COLLABORATION_TAG)) {
         return;
       }
 
-      // Skip if this editor is currently applying its own changes
-      if (isApplyingOwnChanges.get(editor)) {
-        return;
-      }
-
       // Only sync if root has changes
       if (!dirtyElements.has("root")) {
         return;
       }
 
-      // Mark that this editor is making changes
-      isApplyingOwnChanges.set(editor, true);
-
-      try {
-        const syncToDocNode = () => {
-          // Read Lexical state and sync to DocNode
-          editorState.read(() => {
-            const lexicalRoot = $getRoot();
-            $syncLexicalToDocNode(
-              doc,
-              doc.root,
-              lexicalRoot,
-              dirtyElements,
-              dirtyLeaves,
-              keyBinding,
-            );
-          });
-        };
-
-        if (tags.has(SKIP_UNDO_TAG)) {
-          doc.forceCommit(syncToDocNode, { skipUndo: true });
-        } else {
-          syncToDocNode();
-          // Force commit to trigger onChange handlers
-          doc.forceCommit();
-        }
-      } finally {
-        // Clear the flag synchronously after doc.forceCommit() completes
-        isApplyingOwnChanges.set(editor, false);
-      }
+      const syncToDocNode = () => {
+        // Read Lexical state and sync to DocNode
+        editorState.read(() => {
+          const lexicalRoot = $getRoot();
+          $syncLexicalToDocNode(
+            doc,
+            doc.root,
+            lexicalRoot,
+            dirtyElements,
+            dirtyLeaves,
+            keyBinding,
+          );
+        });
+      };
+
+      // Force commit to trigger onChange handlers. The origin tells
+      // syncDocNodeToLexical not to apply these changes back to this editor.
+      doc.forceCommit(syncToDocNode, {
+        ...(tags.has(SKIP_UNDO_TAG) && { skipUndo: true }),
+        origin: LEXICAL_ORIGIN,
+        meta: { editorKey: editor.getKey() },
+      });
     },
   );
 
@@ -0,0 +1,347 @@
+import { type Doc } from "./main.js";
+import { getPatchDeltas, getStateDelta, getStateValue } from "./operations.js";
+import type { ChangeEvent, Json } from "./types.js";
+
+/**
+ * A position in the doc: an offset inside a node. If `key` is the name of a
+ * `text` or `list` state of the node, the offset is a position in that state
+ * and is shifted when the state changes before it.
+ */
+export type Anchor = { nodeId: string; offset: number; key?: string };
+
+/** A range of the doc from `start` to `end`, with arbitrary `data`. */
+export type Annotation = {
+  readonly id: string;
+  readonly start: Anchor;
+  readonly end: Anchor;
+  readonly data?: Json;
+};
+
+/**
+ * The ids of the annotations that changed. Annotations whose start or end
+ * node is deleted are reported as removed, and as added again if the node
+ * is restored (e.g. by undo).
+ */
+export type AnnotationsDiff = {
+  added: Set<string>;
+  updated: Set<string>;
+  removed: Set<string>;
+};
+
+/**
+ * All the annotations, including the ones whose nodes are not in the doc,
+ * returned by `annotations.toJSON()`. `states` are the values of the `text`
+ * and `list` states the anchors point to, so that the offsets can be mapped
+ * if they changed before the annotations are restored.
+ */
+export type AnnotationsJson = {
+  annotations: Annotation[];
+  states: { [nodeId: string]: { [key: string]: Json } };
+};
+
+/**
+ * Ranges that live outside the nodes, anchored to node ids, such as comments,
+ * highlights or search results. They are not part of the operations: they
+ * are local to the doc and persisted with `toJSON` and `restore`, which maps
+ * them to the current state of the doc.
+ */
+export class Annotations {
+  private readonly _doc: Doc;
+  /** All the annotations, including the detached ones. */
+  private _annotations = new Map<string, Annotation>();
+  /** Annotations whose start or end node is not in the doc. */
+  private _detached = new Set<string>();
+  /** Ids of the annotations anchored to each node. */
+  private _byNode = new Map<string, Set<string>>();
+  private _listeners = new Set<(diff: AnnotationsDiff) => void>();
+  private _isObservingDoc = false;
+
+  constructor(doc: Doc) {
+    this._doc = doc;
+  }
+
+  /**
+   * Adds an annotation and returns it. If `id` is omitted, a new one is
+   * generated.
+   * @throws If the start or end node is not in the doc.
+   */
+  add(annotation: {
+    id?: string;
+    start: Anchor;
+    end: Anchor;
+    data?: Json;
+  }): Annotation {
+    const { id = this._doc["_idGen"].generate(), ...range } = annotation;
+    if (this._annotations.has(id))
+      throw new Error(`Annotation '${id}' already exists`);
+    this._assertAttached(range);
+    const newAnnotation = Object.freeze({ id, ...range });
+    this._set(newAnnotation);
+    this._emit({ added: new Set([id]) });
+    return newAnnotation;
+  }
+
+  /**
+   * Changes the range or the data of an annotation.
+   * @throws If the annotation doesn't exist or the new nodes are not in the doc.
+   */
+  update(
+    id: string,
+    changes: { start?: Anchor; end?: Anchor; data?: Json },
+  ): Annotation {
+    const annotation = this.get(id);
+    if (!annotation) throw new Error(`Annotation '${id}' does not exist`);
+    const newAnnotation = Object.freeze({ ...annotation, ...changes });
+    this._assertAttached(newAnnotation);
+    this._delete(id);
+    this._set(newAnnotation);
+    this._emit({ updated: new Set([id]) });
+    return newAnnotation;
+  }
+
+  remove(id: string) {
+    if (!this._annotations.has(id)) return;
+    const wasAttached = !this._detached.has(id);
+    this._delete(id);
+    if (wasAttached) this._emit({ removed: new Set([id]) });
+  }
+
+  /** Returns the annotation, unless its start or end node is not in the doc. */
+  get(id: string): Annotation | undefined {
+    return this._detached.has(id) ? undefined : this._annotations.get(id);
+  }
+
+  /** Returns the annotations whose start and end nodes are in the doc. */
+  getAll(): Annotation[] {
+    return [...this._annotations.values()].filter(
+      ({ id }) => !this._detached.has(id),
+    );
+  }
+
+  /** Returns the annotations that start or end in the given node. */
+  getByNode(nodeId: string): Annotation[] {
+    const ids = this._byNode.get(nodeId) ?? [];
+    return [...ids].flatMap((id) => this.get(id) ?? []);
+  }
+
+  /**
+   * Registers a callback that is called with the diff of the annotations
+   * when they are added, updated or removed, and in the change stage of the
+   * transactions that move their anchors.
+   * @returns A function to unregister the callback.
+   */
+  onChange(callback: (diff: AnnotationsDiff) => void) {
+    this._listeners.add(callback);
+    return () => {
+      this._listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Returns all the annotations, so that they can be persisted together with
+   * the doc and restored with `restore`.
+   */
+  toJSON(): AnnotationsJson {
+    const annotations = [...this._annotations.values()];
+    const states: AnnotationsJson["states"] = {};
+    annotations.forEach(({ start, end }) => {
+      [start, end].forEach(({ nodeId, key }) => {
+        const node = this._doc.getNodeById(nodeId);
+        if (!key || !node || !getStateDelta(node, key)) return;
+        (states[nodeId] ??= {})[key] = getStateValue(node, key) as Json;
+      });
+    });
+    return { annotations, states };
+  }
+
+  /**
+   * Replaces the annotations with the ones returned by `toJSON`. If a state
+   * an anchor points to changed since, e.g. because the doc was edited by
+   * another client, the offset is mapped with the delta computed by
+   * `StateDelta.diff`, which can't tell where a change was made if it is
+   * ambiguous. Annotations whose nodes are not in the doc are detached.
+   */
+  restore(json: AnnotationsJson) {
+    const prevIds = new Set(this.getAll().map(({ id }) => id));
+    [...this._annotations.keys()].forEach((id) => this._delete(id));
+    json.annotations.forEach((annotation) => {
+      const start = this._mapAnchor(annotation.start, json.states, "start");
+      const end = this._mapAnchor(annotation.end, json.states, "end");
+      this._set(Object.freeze({ ...annotation, start, end }));
+    });
+    const added = new Set<string>();
+    const updated = new Set<string>();
+    this.getAll().forEach(({ id }) => {
+      if (prevIds.delete(id)) updated.add(id);
+      else added.add(id);
+    });
+    this._emit({ added, updated, removed: prevIds });
+  }
+
+  private _assertAttached({ start, end }: { start: Anchor; end: Anchor }) {
+    [start, end].forEach(({ nodeId }) => {
+      if (!this._doc.getNodeById(nodeId))
+        throw new Error(`Node '${nodeId}' is not in the doc`);
+    });
+  }
+
+  private _isAttached({ start, end }: Annotation) {
+    return (
+      this._doc.getNodeById(start.nodeId) !== undefined &&
+      this._doc.getNodeById(end.nodeId) !== undefined
+    );
+  }
+
+  private _set(annotation: Annotation) {
+    const { id, start, end } = annotation;
+    this._annotations.set(id, annotation);
+    [start.nodeId, end.nodeId].forEach((nodeId) => {
+      let ids = this._byNode.get(nodeId);
+      if (!ids) this._byNode.set(nodeId, (ids = new Set()));
+      ids.add(id);
+    });
+    if (!this._isAttached(annotation)) this._detached.add(id);
+    if (!this._isObservingDoc) {
+      this._isObservingDoc = true;
+      this._doc.onChange((event) => this._onDocChange(event));
+    }
+  }
+
+  private _delete(id: string) {
+    const annotation = this._annotations.get(id)!;
+    this._annotations.delete(id);
+    this._detached.delete(id);
+    [annotation.start.nodeId, annotation.end.nodeId].forEach((nodeId) => {
+      const ids = this._byNode.get(nodeId)!;
+      ids.delete(id);
+      if (!ids.size) this._byNode.delete(nodeId);
+    });
+  }
+
+  private _onDocChange({ operations, diff }: ChangeEvent) {
+    const ids = new Set<string>();
+    const visit = (nodeId: string) =>
+      this._byNode.get(nodeId)?.forEach((id) => ids.add(id));
+    diff.deleted.forEach((_, nodeId) => visit(nodeId));
+    diff.inserted.forEach(visit);
+    diff.updated.forEach(visit);
+    if (!ids.size) return;
+
+    const annotationsDiff: AnnotationsDiff = {
+      added: new Set(),
+      updated: new Set(),
+      removed: new Set(),
+    };
+    ids.forEach((id) => {
+      let annotation = this._annotations.get(id)!;
+      const start = this._shiftAnchor(annotation.start, operations, "start");
+      const end = this._shiftAnchor(annotation.end, operations, "end");
+      const isShifted = start !== annotation.start || end !== annotation.end;
+      if (isShifted) {
+        annotation = Object.freeze({ ...annotation, start, end });
+        this._annotations.set(id, annotation);
+      }
+      const wasAttached = !this._detached.has(id);
+      const isAttached = this._isAttached(annotation);
+      if (isAttached) this._detached.delete(id);
+      else this._detached.add(id);
+      if (isAttached && !wasAttached) annotationsDiff.added.add(id);
+      else if (!isAttached && wasAttached) annotationsDiff.removed.add(id);
+      else if (isAttached && isShifted) annotationsDiff.updated.add(id);
+    });
+    this._emit(annotationsDiff);
+  }
+
+  /**
+   * Returns the anchor shifted by the changes of the transaction to the state
+   * it points to, or the same anchor if it didn't change.
+   */
+  private _shiftAnchor(
+    anchor: Anchor,
+    operations: ChangeEvent["operations"],
+    bias: "start" | "end",
+  ): Anchor {
+    const { nodeId, key } = anchor;
+    const patch = key && operations[1][nodeId]?.[key];
+    const node = this._doc.getNodeById(nodeId);
+    if (!patch || !node) return anchor;
+    let offset = anchor.offset;
+    // Whole values (e.g. from `set`) can't be mapped, so the offset is only
+    // clamped to the new length
+    getPatchDeltas(patch)?.forEach((delta) => {
+      offset = shiftOffset(offset, delta as SequenceDelta, bias);
+    });
+    const value = getStateValue(node, key);
+    if (typeof value === "string" || Array.isArray(value))
+      offset = Math.min(offset, value.length);
+    return offset === anchor.offset ? anchor : { ...anchor, offset };
+  }
+
+  /**
+   * Returns the anchor mapped from the value its state had when it was
+   * serialized to the current one, or the same anchor if it didn't change.
+   */
+  private _mapAnchor(
+    anchor: Anchor,
+    states: AnnotationsJson["states"],
+    bias: "start" | "end",
+  ): Anchor {
+    const { nodeId, key } = anchor;
+    const node = this._doc.getNodeById(nodeId);
+    const stateDelta = key && node && getStateDelta(node, key);
+    const prevValue = key && states[nodeId]?.[key];
+    if (!stateDelta || prevValue === undefined) return anchor;
+    const delta = stateDelta.diff(prevValue, getStateValue(node, key));
+    if (delta === undefined) return anchor;
+    const offset = shiftOffset(anchor.offset, delta as SequenceDelta, bias);
+    return offset === anchor.offset ? anchor : { ...anchor, offset };
+  }
+
+  private _emit(diff: Partial<AnnotationsDiff>) {
+    const fullDiff: AnnotationsDiff = {
+      added: diff.added ?? new Set(),
+      updated: diff.updated ?? new Set(),
+      removed: diff.removed ?? new Set(),
+    };
+    if (
+      !fullDiff.added.size &&
+      !fullDiff.updated.size &&
+      !fullDiff.removed.size
+    )
+      return;
+    this._listeners.forEach((listener) => listener(fullDiff));
+  }
+}
+
+/** The deltas of the `text` and `list` states. See `TextDelta`. */
+type SequenceDelta = (number | string | Json[])[];
+
+/**
+ * Maps an offset through a delta. A start anchor moves past content inserted
+ * at the offset and an end anchor stays before it, so the inserted content
+ * lands before start anchors and after end anchors and is not included in
+ * the range. Anchors in deleted content move to the start of the deletion.
+ */
+function shiftOffset(
+  offset: number,
+  delta: SequenceDelta,
+  bias: "start" | "end",
+) {
+  let index = 0;
+  let shiftedIndex = 0;
+  for (const step of delta) {
+    if (typeof step !== "number") {
+      if (index === offset && bias === "end") return shiftedIndex;
+      shiftedIndex += step.length;
+    } else if (step > 0) {
+      if (offset < index + step || (offset === index + step && bias === "end"))
+        return shiftedIndex + offset - index;
+      index += step;
+      shiftedIndex += step;
+    } else {
+      if (offset <= index - step) return shiftedIndex;
+      index -= step;
+    }
+  }
+  return shiftedIndex + offset - index;
+}
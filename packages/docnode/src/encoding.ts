@@ -0,0 +1,316 @@
+import { type Operations, type OrderedOperation } from "./operations.js";
+import { type JsonDoc } from "./types.js";
+
+/**
+ * Version of the binary format. It is the first byte of every encoded
+ * value, so that the format can evolve without breaking stored documents.
+ */
+const ENCODING_VERSION = 1;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Writes unsigned LEB128 varints and length-prefixed UTF-8 strings.
+ *
+ * Node ids, types and state keys are written as references to a string
+ * table built on the fly: `0` is the literal `0` (no node), `1` is followed
+ * by a new string that is appended to the table, and `n >= 2` is the string
+ * at index `n - 2`. Ids usually appear several times (as anchors, in the
+ * state patch...), so each one is written in full only once.
+ */
+class Encoder {
+  private _bytes = new Uint8Array(256);
+  private _length = 0;
+  private _table = new Map<string, number>();
+
+  constructor() {
+    this.uint(ENCODING_VERSION);
+  }
+
+  uint(value: number) {
+    this._grow(5);
+    while (value > 0x7f) {
+      this._bytes[this._length++] = (value & 0x7f) | 0x80;
+      value >>>= 7;
+    }
+    this._bytes[this._length++] = value;
+  }
+
+  string(value: string) {
+    const bytes = textEncoder.encode(value);
+    this.uint(bytes.length);
+    this._grow(bytes.length);
+    this._bytes.set(bytes, this._length);
+    this._length += bytes.length;
+  }
+
+  ref(value: string | 0) {
+    if (value === 0) return this.uint(0);
+    const index = this._table.get(value);
+    if (index !== undefined) return this.uint(index + 2);
+    this._table.set(value, this._table.size);
+    this.uint(1);
+    this.string(value);
+  }
+
+  finish() {
+    return this._bytes.slice(0, this._length);
+  }
+
+  private _grow(size: number) {
+    if (this._length + size <= this._bytes.length) return;
+    const bytes = new Uint8Array(
+      Math.max(this._bytes.length * 2, this._length + size),
+    );
+    bytes.set(this._bytes.subarray(0, this._length));
+    this._bytes = bytes;
+  }
+}
+
+class Decoder {
+  private _offset = 0;
+  private _table: string[] = [];
+
+  constructor(private _bytes: Uint8Array) {
+    const version = this.uint();
+    if (version !== ENCODING_VERSION)
+      throw new Error(`Unsupported encoding version: ${version}`);
+  }
+
+  uint() {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (this._offset >= this._bytes.length)
+        throw new Error("Unexpected end of encoded data");
+      byte = this._bytes[this._offset++]!;
+      value += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value;
+  }
+
+  string() {
+    const length = this.uint();
+    const end = this._offset + length;
+    if (end > this._bytes.length)
+      throw new Error("Unexpected end of encoded data");
+    const value = textDecoder.decode(this._bytes.subarray(this._offset, end));
+    this._offset = end;
+    return value;
+  }
+
+  ref(): string | 0 {
+    const ref = this.uint();
+    if (ref === 0) return 0;
+    if (ref === 1) {
+      const value = this.string();
+      this._table.push(value);
+      return value;
+    }
+    const value = this._table[ref - 2];
+    if (value === undefined)
+      throw new Error(`Invalid string reference: ${ref}`);
+    return value;
+  }
+
+  /** Like `ref`, for the positions where `0` is not allowed. */
+  stringRef() {
+    const value = this.ref();
+    if (value === 0) throw new Error("Unexpected empty string reference");
+    return value;
+  }
+
+  end() {
+    if (this._offset !== this._bytes.length)
+      throw new Error("Unexpected trailing bytes in encoded data");
+  }
+}
+
+function encodeState(encoder: Encoder, state: Record<string, string>) {
+  const entries = Object.entries(state);
+  encoder.uint(entries.length);
+  entries.forEach(([key, value]) => {
+    encoder.ref(key);
+    encoder.string(value);
+  });
+}
+
+function decodeState(decoder: Decoder) {
+  const state: Record<string, string> = {};
+  const length = decoder.uint();
+  for (let i = 0; i < length; i++) {
+    state[decoder.stringRef()] = decoder.string();
+  }
+  return state;
+}
+
+/**
+ * Encodes operations in a compact binary form. The result can be decoded
+ * with `decodeOperations`.
+ */
+export function encodeOperations(operations: Operations): Uint8Array {
+  const encoder = new Encoder();
+  const [orderedOperations, statePatch, versions = {}] = operations;
+  encoder.uint(orderedOperations.length);
+  orderedOperations.forEach((operation) => {
+    encoder.uint(operation[0]);
+    switch (operation[0]) {
+      case 0: {
+        const [, nodes, parent, prev, next] = operation;
+        encoder.uint(nodes.length);
+        nodes.forEach(([id, type]) => {
+          encoder.ref(id);
+          encoder.ref(type);
+        });
+        encoder.ref(parent);
+        encoder.ref(prev);
+        encoder.ref(next);
+        break;
+      }
+      case 1: {
+        const [, start, end] = operation;
+        encoder.ref(start);
+        encoder.ref(end);
+        break;
+      }
+      case 2: {
+        const [, start, end, parent, prev, next] = operation;
+        encoder.ref(start);
+        encoder.ref(end);
+        encoder.ref(parent);
+        encoder.ref(prev);
+        encoder.ref(next);
+        break;
+      }
+      case 3: {
+        const [, type, start, end, includeDescendants] = operation;
+        encoder.ref(type);
+        encoder.ref(start);
+        encoder.ref(end);
+        encoder.uint(includeDescendants);
+        break;
+      }
+    }
+  });
+  const patchEntries = Object.entries(statePatch);
+  encoder.uint(patchEntries.length);
+  patchEntries.forEach(([id, state]) => {
+    encoder.ref(id);
+    encodeState(encoder, state);
+  });
+  const versionEntries = Object.entries(versions);
+  encoder.uint(versionEntries.length);
+  versionEntries.forEach(([type, version]) => {
+    encoder.ref(type);
+    encoder.uint(version);
+  });
+  return encoder.finish();
+}
+
+/** Decodes operations encoded with `encodeOperations`. */
+export function decodeOperations(bytes: Uint8Array): Operations {
+  const decoder = new Decoder(bytes);
+  const orderedOperations: OrderedOperation[] = [];
+  const length = decoder.uint();
+  for (let i = 0; i < length; i++) {
+    const code = decoder.uint();
+    switch (code) {
+      case 0: {
+        const nodes: [string, string][] = [];
+        const nodesLength = decoder.uint();
+        for (let j = 0; j < nodesLength; j++) {
+          nodes.push([decoder.stringRef(), decoder.stringRef()]);
+        }
+        orderedOperations.push([
+          0,
+          nodes,
+          decoder.ref(),
+          decoder.ref(),
+          decoder.ref(),
+        ]);
+        break;
+      }
+      case 1:
+        orderedOperations.push([1, decoder.stringRef(), decoder.ref()]);
+        break;
+      case 2:
+        orderedOperations.push([
+          2,
+          decoder.stringRef(),
+          decoder.ref(),
+          decoder.ref(),
+          decoder.ref(),
+          decoder.ref(),
+        ]);
+        break;
+      case 3:
+        orderedOperations.push([
+          3,
+          decoder.stringRef(),
+          decoder.stringRef(),
+          decoder.ref(),
+          decoder.uint() ? 1 : 0,
+        ]);
+        break;
+      default:
+        throw new Error(`Unknown operation code: ${code}`);
+    }
+  }
+  const statePatch: Operations[1] = {};
+  const patchLength = decoder.uint();
+  for (let i = 0; i < patchLength; i++) {
+    const id = decoder.stringRef();
+    statePatch[id] = decodeState(decoder);
+  }
+  const versions: Record<string, number> = {};
+  const versionsLength = decoder.uint();
+  for (let i = 0; i < versionsLength; i++) {
+    versions[decoder.stringRef()] = decoder.uint();
+  }
+  decoder.end();
+  return versionsLength
+    ? [orderedOperations, statePatch, versions]
+    : [orderedOperations, statePatch];
+}
+
+function encodeNode(encoder: Encoder, [id, type, state, children]: JsonDoc) {
+  encoder.ref(id);
+  encoder.ref(type);
+  encodeState(encoder, state);
+  encoder.uint(children?.length ?? 0);
+  children?.forEach((child) => encodeNode(encoder, child));
+}
+
+function decodeNode(decoder: Decoder): JsonDoc {
+  const id = decoder.stringRef();
+  const type = decoder.stringRef();
+  const state = decodeState(decoder);
+  const length = decoder.uint();
+  if (!length) return [id, type, state];
+  const children: JsonDoc[] = [];
+  for (let i = 0; i < length; i++) {
+    children.push(decodeNode(decoder));
+  }
+  return [id, type, state, children as [JsonDoc, ...JsonDoc[]]];
+}
+
+/**
+ * Encodes a JsonDoc in a compact binary form. The result can be decoded
+ * with `decodeDoc`.
+ */
+export function encodeDoc(jsonDoc: JsonDoc): Uint8Array {
+  const encoder = new Encoder();
+  encodeNode(encoder, jsonDoc);
+  return encoder.finish();
+}
+
+/** Decodes a JsonDoc encoded with `encodeDoc`. */
+export function decodeDoc(bytes: Uint8Array): JsonDoc {
+  const decoder = new Decoder(bytes);
+  const jsonDoc = decodeNode(decoder);
+  decoder.end();
+  return jsonDoc;
+}
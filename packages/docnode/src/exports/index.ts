@@ -2,8 +2,10 @@ export { Doc, DocNode } from "../main.js";
 export {
   type Json,
   type JsonDoc,
+  type JsonSubtree,
   type DocConfig,
   type StateDefinition,
+  type StateDelta,
   type NodeDefinition,
   type StateRecord,
   type DeepImmutable,
@@ -13,9 +15,69 @@ export {
   type Extension,
   type ChangeEvent,
   type TransactionFlags,
+  type TransactionMeta,
   type NodeIdGenerator,
   type UndoManagerConfig,
+  type NodeSchema,
+  type SchemaViolation,
+  type OnInvalidState,
+  type SchemaStateOptions,
+  type OperationConflict,
+  type ApplyOperationsReport,
+  type MergeConflict,
+  type MergeResult,
+  type JsonDocIssue,
+  type FromJSONOptions,
+  type FromJSONResult,
+  type NodeChangeEvent,
+  type NodeSnapshot,
 } from "../types.js";
 export { defineNode } from "../utils.js";
-export { boolean, number, string, defineState } from "../stateDefinitions.js";
-export { mergeOperations, type Operations } from "../operations.js";
+export { type Query } from "../query.js";
+export { type UndoManagerJson } from "../undoManager.js";
+export {
+  type Annotations,
+  type Annotation,
+  type AnnotationsDiff,
+  type AnnotationsJson,
+  type Anchor,
+} from "../annotations.js";
+export {
+  historyExtension,
+  getHistory,
+  type History,
+  type HistoryEntry,
+  type HistoryOptions,
+} from "../history.js";
+export {
+  boolean,
+  number,
+  string,
+  fromSchema,
+  enumOf,
+  date,
+  object,
+  array,
+  text,
+  map,
+  set,
+  list,
+  counter,
+  subDoc,
+  ref,
+  defineState,
+} from "../stateDefinitions.js";
+export {
+  diffDocs,
+  mergeDocs,
+  mergeOperations,
+  transformOperations,
+  type Operations,
+  type OrderedOperation,
+} from "../operations.js";
+export {
+  encodeOperations,
+  decodeOperations,
+  encodeDoc,
+  decodeDoc,
+} from "../encoding.js";
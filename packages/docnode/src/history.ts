@@ -0,0 +1,147 @@
+import { type Doc } from "./main.js";
+import {
+  mergeOperations,
+  readOnlyCopy,
+  type Operations,
+} from "./operations.js";
+import { type ChangeEvent, type Extension, type Json } from "./types.js";
+import { isObjectEmpty } from "./utils.js";
+
+export type HistoryEntry = {
+  operations: Operations;
+  inverseOperations: Operations;
+  /** Time of the commit, in milliseconds since the epoch. */
+  timestamp: number;
+  author?: Json;
+};
+
+export type HistoryOptions = {
+  /**
+   * Returns the author metadata of a transaction, e.g. the id of the current
+   * user. Use `event.flags` to tell local and remote transactions apart.
+   */
+  author?: (event: ChangeEvent) => Json | undefined;
+  /**
+   * Maximum number of entries to keep. The oldest entries are dropped first,
+   * so the document can't be checked out or reverted to a time before them.
+   * @default Infinity
+   */
+  maxEntries?: number;
+};
+
+const histories = new WeakMap<Doc, History>();
+
+/**
+ * Records the operations of every committed transaction of the doc, so that
+ * previous versions of it can be checked out or restored.
+ *
+ * @example
+ * ```ts
+ * const doc = new Doc({ type: "root", extensions: [historyExtension()] });
+ * // later
+ * const anHourAgo = getHistory(doc).checkout(new Date(Date.now() - 3600000));
+ * ```
+ */
+export const historyExtension = (options?: HistoryOptions): Extension => ({
+  register: (doc) => {
+    histories.set(doc, new History(doc, options));
+  },
+});
+
+/**
+ * Returns the history of a doc.
+ * @throws If the `historyExtension` is not registered in the doc.
+ */
+export function getHistory(doc: Doc): History {
+  const history = histories.get(doc);
+  if (!history)
+    throw new Error(
+      "Attempted to get the history of a document without the history extension.",
+    );
+  return history;
+}
+
+export class History {
+  private readonly _doc: Doc;
+  private readonly _maxEntries: number;
+  private _entries: HistoryEntry[] = [];
+
+  constructor(doc: Doc, options?: HistoryOptions) {
+    this._doc = doc;
+    this._maxEntries = options?.maxEntries ?? Infinity;
+    doc.onChange((event) => {
+      const { operations, inverseOperations } = event;
+      if (!operations[0].length && isObjectEmpty(operations[1])) return;
+      const author = options?.author?.(event);
+      this._entries.push({
+        operations,
+        inverseOperations,
+        timestamp: Date.now(),
+        ...(author !== undefined && { author }),
+      });
+      if (this._entries.length > this._maxEntries) this._entries.shift();
+    });
+  }
+
+  /** The recorded entries, from oldest to newest. */
+  get entries(): readonly HistoryEntry[] {
+    return this._entries;
+  }
+
+  /**
+   * Returns a read-only copy of the doc as it was after the entry at the
+   * given index was committed (-1 for before the first entry), or at the
+   * given time. Mutating it throws, and the `register` hooks of the
+   * extensions are not called for it, so it has no history of its own.
+   *
+   * Like `revertTo`, it commits the pending transaction of the doc first.
+   * @throws If called in a normalize or change event of the doc.
+   */
+  checkout(index: number): Doc;
+  checkout(time: Date): Doc;
+  checkout(indexOrTime: number | Date): Doc {
+    this._doc.forceCommit();
+    return readOnlyCopy(this._doc, this._inverseOperationsSince(indexOrTime));
+  }
+
+  /**
+   * Restores the doc to how it was after the entry at the given index was
+   * committed, or at the given time, by applying the inverse operations of
+   * the later entries. It is a normal transaction, so it can be undone and
+   * it is recorded in the history.
+   *
+   * The pending transaction of the doc is committed first, since the inverse
+   * operations only apply to the state after the last entry.
+   * @throws If called in a normalize or change event of the doc.
+   */
+  revertTo(index: number): void;
+  revertTo(time: Date): void;
+  revertTo(indexOrTime: number | Date): void {
+    this._doc.forceCommit();
+    const operations = this._inverseOperationsSince(indexOrTime);
+    if (operations) this._doc.applyOperations(operations);
+  }
+
+  /**
+   * Merges the inverse operations of the entries after the given index or
+   * time, from newest to oldest. They don't need to be transformed, since
+   * every transaction of the doc, including the remote ones, is an entry.
+   */
+  private _inverseOperationsSince(indexOrTime: number | Date) {
+    const index =
+      typeof indexOrTime === "number"
+        ? indexOrTime
+        : this._entries.filter(
+            ({ timestamp }) => timestamp <= indexOrTime.getTime(),
+          ).length - 1;
+    if (!Number.isInteger(index) || index < -1 || index >= this._entries.length)
+      throw new Error(
+        `Attempted to go to a history entry out of range: ${index}.`,
+      );
+    const laterEntries = this._entries.slice(index + 1).reverse();
+    if (!laterEntries.length) return undefined;
+    return mergeOperations(
+      ...laterEntries.map(({ inverseOperations }) => inverseOperations),
+    );
+  }
+}
@@ -96,3 +96,20 @@ export const nodeIdFactory = (
 
   return nodeIdGenerator;
 };
+
+/**
+ * Returns a generator of the ids of delta patches, which make them
+ * idempotent (see `applyOperations`). Unlike node ids, they don't need to
+ * be sortable, so a random session id is enough to avoid collisions
+ * between docs.
+ */
+export const deltaIdFactory = () => {
+  const sessionId = randomStringBase64(8);
+  let clock = FIRST_CHAR;
+
+  return () => {
+    const id = `${sessionId}.${clock}`;
+    clock = incrementStringInBase64(clock);
+    return id;
+  };
+};
@@ -3,6 +3,7 @@ import {
   type IntersectionOf,
   type JsonDoc,
   type JsonDocNode,
+  type JsonSubtree,
   type NodeDefinition,
   type ResolvedNodeDefinition,
   type Json,
@@ -15,6 +16,15 @@ import {
   type ChangeEvent,
   type NodeIdGenerator,
   type TransactionFlags,
+  type SchemaViolation,
+  type ApplyOperationsReport,
+  type OperationConflict,
+  type FromJSONOptions,
+  type FromJSONResult,
+  type JsonDocIssue,
+  type NodeChangeEvent,
+  type NodeSnapshot,
+  type StateRecord,
 } from "./types.js";
 import {
   detachRange,
@@ -24,9 +34,15 @@ import {
   defineNode,
 } from "./utils.js";
 import * as ops from "./operations.js";
-import { nodeIdFactory } from "./idGenerator.js";
+import * as schema from "./schema.js";
+import * as migrations from "./migrations.js";
+import { deltaIdFactory, nodeIdFactory } from "./idGenerator.js";
 import { decodeTime, ulid } from "ulid";
 import { UndoManager } from "./undoManager.js";
+import { Annotations } from "./annotations.js";
+import { Query } from "./query.js";
+import { getSnapshot, type SnapshotCache } from "./snapshot.js";
+import { SubDocRef, deltaSetters, refStates } from "./stateDefinitions.js";
 
 export class DocNode<T extends NodeDefinition = NodeDefinition> {
   readonly id: string;
@@ -68,9 +84,8 @@ export class DocNode<T extends NodeDefinition = NodeDefinition> {
       config.parent.id,
     );
     if (isParentAttached) {
-      const map = this.doc["_nodeMap"];
       this.descendants({ includeSelf: true }).forEach((node) => {
-        map.set(node.id, node);
+        this.doc["_registerNode"](node);
       });
     }
     this._set("parent", config.parent);
@@ -103,11 +118,19 @@ export class DocNode<T extends NodeDefinition = NodeDefinition> {
     return nodeDefs[0]?.type === this.type;
   }
 
-  // TO-DECIDE: maybe/someday
-  // changeType(_newData: DocNode) {
-  //   throw new Error("Not implemented yet");
-  //   // this._data = newData;
-  // }
+  /**
+   * Changes the type of this node, keeping its id, position and children.
+   * State keys that also exist in the new node definition are carried over
+   * (parsed by the new state definition), while the rest are dropped.
+   * @throws If the node is the root node or the node definition is not registered.
+   */
+  changeType<D extends NodeDefinition>(
+    nodeDefinition: D,
+    options?: { includeDescendants?: boolean },
+  ): DocNode<D> {
+    this.to(this).changeType(nodeDefinition, options);
+    return this as unknown as DocNode<D>;
+  }
 
   /**
    * Adds nodes as last children of this node
@@ -232,11 +255,16 @@ export class DocNode<T extends NodeDefinition = NodeDefinition> {
           if (this === this.doc.root)
             throw new Error("Root node cannot be deleted");
           ops.onDeleteRange(this.doc, this, laterSibling);
+          const deletedIds = new Set<string>();
           this.to(laterSibling).forEach((node) => {
             node.descendants({ includeSelf: true }).forEach((node) => {
-              void this.doc["_nodeMap"].delete(node.id);
+              this.doc["_unregisterNode"](node);
+              deletedIds.add(node.id);
             });
           });
+          // Applied operations already include the cleared references
+          if (!this.doc["_isApplyingOperations"])
+            this.doc["_clearRefs"](deletedIds);
         }),
       /**
        * Replaces the range of nodes from this node to the later sibling with the provided nodes.
@@ -299,6 +327,8 @@ export class DocNode<T extends NodeDefinition = NodeDefinition> {
 
           if (!newParent)
             throw new Error("You can't move before or after the root");
+          if (!doc["_isApplyingOperations"])
+            schema.assertCanInsert(newParent, [...nodes]);
 
           // PART 2: Detach the range
           detachRange(this, laterSibling);
@@ -363,6 +393,27 @@ export class DocNode<T extends NodeDefinition = NodeDefinition> {
         });
       },
 
+      /**
+       * Changes the type of the range of nodes from this node to the later sibling,
+       * and optionally of their descendants. See {@link DocNode.changeType}.
+       */
+      changeType: (
+        nodeDefinition: NodeDefinition,
+        options?: { includeDescendants?: boolean },
+      ) =>
+        withTransaction(doc, () => {
+          if (!doc["_nodeDefs"].has(nodeDefinition))
+            throw new Error(
+              `You attempted to change the type of a node to '${nodeDefinition.type}' with a node definition that was not registered.`,
+            );
+          doc["_changeTypeRange"](
+            this,
+            laterSibling,
+            nodeDefinition.type,
+            options?.includeDescendants ?? false,
+          );
+        }),
+
       /**
        * Iterates over the range of nodes from this node to the later sibling.
        */
@@ -518,6 +569,56 @@ export class DocNode<T extends NodeDefinition = NodeDefinition> {
     return [this.id, this.type, this._stateToJson()];
   }
 
+  /**
+   * Returns a self-contained JSON of this node and its descendants, which can
+   * be inserted into this or another doc with {@link Doc.importSubtree}, e.g.
+   * to copy and paste content between docs.
+   */
+  exportSubtree(): JsonSubtree {
+    const versions = this.doc["_versions"];
+    return { node: this._toJsonTree(), ...(versions && { versions }) };
+  }
+
+  /**
+   * Returns the attached nodes whose state references this node, such as
+   * `ref` states pointing to it. Every state definition with `remapIds` is
+   * taken into account.
+   */
+  referencedBy(): DocNode[] {
+    const nodes: DocNode[] = [];
+    this.doc["_resolvedNodeDefs"].forEach(({ type, state }) => {
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      const keys = Object.keys(state).filter((key) => state[key]!.remapIds);
+      if (!keys.length) return;
+      this.doc["_typeIndex"].get(type)?.forEach((node) => {
+        let isReferencing = false;
+        // remapIds is used to visit the ids of the value
+        const visit = (id: string) => {
+          if (id === this.id) isReferencing = true;
+          return id;
+        };
+        keys.forEach((key) =>
+          state[key]!.remapIds!(ops.getStateValue(node, key), visit),
+        );
+        if (isReferencing) nodes.push(node);
+      });
+    });
+    return nodes;
+  }
+
+  /** Returns the JsonDoc of this node and its descendants. */
+  private _toJsonTree(): JsonDoc {
+    const jsonDoc = this.toJSON() as JsonDoc;
+    if (this.first) {
+      const children: JsonDoc[] = [];
+      this.children().forEach((childNode) => {
+        children.push(childNode._toJsonTree());
+      });
+      jsonDoc[3] = children as [JsonDoc, ...JsonDoc[]];
+    }
+    return jsonDoc;
+  }
+
   private _stateToJson(): NodeState.Stringified<T> {
     const jsonState: Record<string, string> = {};
     const resolvedNodeDef = this.doc["_resolvedNodeDefs"].get(this.type);
@@ -535,13 +636,30 @@ export class DocNode<T extends NodeDefinition = NodeDefinition> {
   }
 }
 
-export class Doc {
-  // private readonly _subDocs = new Map<string, Doc>();
-  // private readonly _parentDoc?: Doc;
+export class Doc<S extends StateRecord = Record<never, never>> {
+  private readonly _subDocs = new Map<string, Doc>();
+  private _parentDoc?: Doc;
+  private _subDocListeners = new Set<(subDoc: Doc) => void>();
+  /**
+   * Subdocuments adopted in the current transaction, each with the ones it
+   * brought. They are announced to the `onSubDoc` listeners on commit and
+   * unregistered on abort.
+   */
+  private _pendingSubDocs: Doc[][] = [];
+  private _isImporting = false;
+  private _nodeListeners = new Map<
+    string,
+    Set<(ev: NodeChangeEvent) => void>
+  >();
+  private _conflictListeners = new Set<
+    (report: ApplyOperationsReport) => void
+  >();
   protected _nodeDefs: Set<NodeDefinition>;
   private _resolvedNodeDefs: Map<string, ResolvedNodeDefinition>;
   private _strictMode: boolean;
   protected _nodeMap = new Map<string, DocNode>();
+  /** Attached nodes by type. Kept in sync with `_nodeMap`. */
+  private _typeIndex = new Map<string, Set<DocNode>>();
   protected _changeListeners = new Set<(ev: ChangeEvent) => void>();
   private _normalizeListeners = new Set<(ev: { diff: Diff }) => void>();
   private _lifeCycleStage:
@@ -556,31 +674,58 @@ export class Doc {
   protected _inverseOperations: ops.Operations = [[], {}];
   protected _transactionFlags: TransactionFlags;
   private _isForceCommitCallback = false;
+  private _isApplyingOperations = false;
+  private _invalidOperations: "repair" | "reject";
+  private _onSchemaViolation: DocConfig["onSchemaViolation"];
+  private _versions: migrations.Versions | undefined;
+  private readonly _config: DocConfig<S>;
+  /** Set for the documents returned by `History.checkout`. */
+  private _isReadOnly = false;
+  private _snapshotCache: SnapshotCache | undefined;
   protected _diff: Diff = {
     deleted: new Map(),
     inserted: new Set(),
     moved: new Set(),
     updated: new Set(),
+    updatedKeys: new Map(),
+    typeChanged: new Set(),
   };
   protected _nodeIdGenerator: (doc: Doc) => string;
+  private _deltaIdGenerator = deltaIdFactory();
+  /** Ids of the delta patches applied to this doc, the oldest first. */
+  private _appliedDeltaIds = new Set<string>();
   protected _idGen: NodeIdGenerator;
-  readonly root: DocNode;
+  readonly root: DocNode<NodeDefinition<string, S>>;
   readonly undoManager: UndoManager;
+  /** Ranges anchored to nodes, such as comments or highlights. */
+  readonly annotations: Annotations;
+  /**
+   * The JSON of the doc this doc was forked from, at the time of the fork.
+   * Undefined if it is not a fork. See `fork`.
+   */
+  readonly forkBase: JsonDoc | undefined;
 
-  constructor(config: DocConfig) {
+  constructor(config: DocConfig<S>) {
+    this._config = config;
     this._nodeDefs = new Set();
     this._resolvedNodeDefs = new Map();
-    const RootNode = defineNode({ type: config.type });
+    const RootNode = defineNode({
+      type: config.type,
+      state: config.rootState ?? {},
+    });
     const nodeDefs: UnsafeDefinition[] = [
       RootNode,
       ...config.extensions.flatMap((extension) => extension.nodes ?? []),
     ];
     this._strictMode = config.strictMode ?? true;
+    this._invalidOperations = config.invalidOperations ?? "repair";
+    this._onSchemaViolation = config.onSchemaViolation;
 
     nodeDefs.forEach((nodeDef) => {
       const resolvedNodeDef = this._resolvedNodeDefs.get(nodeDef.type) ?? {
         type: nodeDef.type,
         state: {},
+        schema: {},
         defaultState: {},
         defaultStrings: {},
         methods: undefined as unknown as ResolvedNodeDefinition["methods"],
@@ -588,6 +733,11 @@ export class Doc {
 
       for (const key in nodeDef.state) {
         const state = nodeDef.state[key]!;
+        if (nodeDef.type === config.type && key === migrations.VERSIONS_KEY) {
+          throw new Error(
+            `The root state key '${key}' is reserved for the versions of the doc.`,
+          );
+        }
         if (resolvedNodeDef.state[key] !== undefined) {
           throw new Error(
             [
@@ -613,6 +763,18 @@ export class Doc {
         }
       }
 
+      if (nodeDef.version !== undefined || nodeDef.migrate) {
+        if (resolvedNodeDef.version !== undefined)
+          throw new Error(
+            `Collision error: attempt to register 2 node definitions of type '${nodeDef.type}' with a version. Only one of them can define the version and the migration.`,
+          );
+        resolvedNodeDef.version = nodeDef.version ?? 0;
+        if (nodeDef.migrate) resolvedNodeDef.migrate = nodeDef.migrate;
+      }
+      resolvedNodeDef.schema = schema.mergeSchemas(
+        resolvedNodeDef.schema,
+        nodeDef,
+      );
       this._resolvedNodeDefs.set(nodeDef.type, resolvedNodeDef);
       this._nodeDefs.add(nodeDef);
       if (!nodeDef.type) throw new Error(`Node does not have a type property`);
@@ -649,41 +811,37 @@ export class Doc {
            *
            * @param valueOrUpdaterFn The value or updater function
            */
-          const set: DefaultStateMethods<unknown>["set"] = (
-            valueOrUpdaterFn: unknown,
-          ) =>
+          const setWithDelta = (valueOrUpdaterFn: unknown, delta?: Json) =>
             withTransaction(node.doc, () => {
               // @ts-expect-error - protected property
               const _state = node._state as Record<string, unknown>;
               _state[key] ??= resolvedNodeDef.defaultState[key];
               if (_state[key] === valueOrUpdaterFn) return;
 
-              const value =
+              let value =
                 typeof valueOrUpdaterFn === "function"
                   ? (valueOrUpdaterFn as (prev: unknown) => unknown)(
                       _state[key],
                     )
                   : valueOrUpdaterFn;
 
+              if (_state[key] instanceof Doc && _state[key] !== value)
+                throw new Error("Can't change a subdocument reference");
+              value = node.doc._adoptSubDoc(value);
+
               // [#4GOSK] we update patchState only when setting state for an attached
               // node or when inserting a node, but not when setting state for a node
               // that is not attached yet
               const isAttached = node.doc["_nodeMap"].has(node.id);
               if (isAttached) ops.onSetState.inverseOps(node, key);
+              const prevValue = _state[key];
               _state[key] = value;
-              if (isAttached) ops.onSetState.operations(node, key);
-
-              // TODO: Subdocs. This is not implemented yet
-              // if (valueOrUpdaterFn instanceof Doc) {
-              //   if (node._state[key]) throw new Error("Can't change a Doc reference");
-              //   // @ts-expect-error - read-only property
-              //   valueOrUpdaterFn.parentDoc = node.doc;
-              //   const topLevelDoc = node.doc.getTopLevelDoc();
-              //   topLevelDoc["_subDocs"].set(valueOrUpdaterFn.id, valueOrUpdaterFn);
-              //   node._state[key] = valueOrUpdaterFn;
-              //   return node;
-              // }
+              if (isAttached)
+                ops.onSetState.operations(node, key, prevValue, delta);
             });
+          const set: DefaultStateMethods<unknown>["set"] = (valueOrUpdaterFn) =>
+            setWithDelta(valueOrUpdaterFn);
+          deltaSetters.set(set, setWithDelta);
           const getPrev: DefaultStateMethods<unknown>["getPrev"] = () => {
             // I am not 100% sure if the condition should be:
             // if (!this._nodeMap.has(node.id) || this._diff.inserted.has(node.id))
@@ -703,17 +861,25 @@ export class Doc {
             // @ts-expect-error - protected property
             const _state = node._state as Record<string, unknown>;
             return maybePrevState
-              ? [true, ops.parseStateKey(node, key, maybePrevState)]
+              ? [true, ops.resolvePatch(node, key, maybePrevState)]
               : [false, _state[key]];
           };
 
+          const subscribe: DefaultStateMethods<unknown>["subscribe"] = (
+            callback,
+          ) =>
+            this.observeNode(node.id, ({ updatedKeys }) => {
+              if (updatedKeys.has(key)) callback(get());
+            });
+
           // eslint-disable-next-line @typescript-eslint/unbound-method
           const methods = resolvedNodeDef.state[key]?.methods;
 
-          stateObj[key] = methods?.({ get, set, getPrev }) ?? {
+          stateObj[key] = methods?.({ get, set, getPrev, subscribe }, node) ?? {
             get,
             set,
             getPrev,
+            subscribe,
           };
         }
 
@@ -721,6 +887,8 @@ export class Doc {
       };
     });
 
+    this._versions = migrations.resolveVersions(this, config);
+
     const idGen: NodeIdGenerator = config.nodeIdGenerator ?? {
       generate: () => ulid().toLowerCase(),
       validate: (id) => ULID_REGEX.test(id),
@@ -737,7 +905,7 @@ export class Doc {
     // @ts-expect-error - private constructor
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
     this.root = new DocNode(this, config.type, id);
-    this._nodeMap.set(id, this.root);
+    this._registerNode(this.root);
     this._nodeIdGenerator = idGen.extractTime
       ? nodeIdFactory(this, idGen.extractTime)
       : idGen.generate;
@@ -749,6 +917,7 @@ export class Doc {
     this._lifeCycleStage = "idle";
     this._forceCommit(true);
     this.undoManager = new UndoManager(this, config.undoManager);
+    this.annotations = new Annotations(this);
     this._transactionFlags = { skipUndo: true };
     // If the first tx happens in the same microtask the doc is created,
     // we can skip the undo manager for that tx.
@@ -765,12 +934,173 @@ export class Doc {
     return this._nodeMap.get(docNodeId);
   }
 
-  // TODO: Subdocs. This is not implemented yet
-  // getTopLevelDoc() {
-  //   let current: Doc = this;
-  //   while (current._parentDoc) current = current._parentDoc;
-  //   return current;
-  // }
+  /**
+   * Returns the nodes of the document of the given type, in no particular
+   * order. It doesn't traverse the document, but reads an index that is
+   * updated by every insert, delete and type change.
+   * @throws If the node definition is not registered.
+   */
+  nodesOfType<T extends NodeDefinition>(nodeDefinition: T): DocNode<T>[] {
+    this._assertRegisteredType(nodeDefinition.type);
+    const nodes = this._typeIndex.get(nodeDefinition.type) ?? [];
+    return [...nodes] as DocNode<T>[];
+  }
+
+  /**
+   * Returns a query of the nodes of the given type, which can be filtered
+   * with `where` and subscribed to.
+   *
+   * @example
+   * ```ts
+   * const pending = doc.query(Task).where((task) => !task.state.done.get());
+   * pending.get(); // DocNode<typeof Task>[]
+   * const unsubscribe = pending.subscribe((tasks) => render(tasks));
+   * ```
+   * @throws If the node definition is not registered.
+   */
+  query<T extends NodeDefinition>(nodeDefinition: T): Query<T> {
+    this._assertRegisteredType(nodeDefinition.type);
+    return new Query(this, nodeDefinition);
+  }
+
+  private _assertRegisteredType(type: string) {
+    if (!this._resolvedNodeDefs.has(type))
+      throw new Error(
+        `Attempted to query nodes of type '${type}' that was not registered.`,
+      );
+  }
+
+  private _registerNode(node: DocNode) {
+    this._nodeMap.set(node.id, node);
+    let nodes = this._typeIndex.get(node.type);
+    if (!nodes) this._typeIndex.set(node.type, (nodes = new Set()));
+    nodes.add(node);
+  }
+
+  private _unregisterNode(node: DocNode) {
+    this._nodeMap.delete(node.id);
+    this._typeIndex.get(node.type)?.delete(node);
+  }
+
+  /** Clears the `ref` states of the attached nodes that point to the ids. */
+  private _clearRefs(ids: Set<string>) {
+    this._resolvedNodeDefs.forEach(({ type, state }) => {
+      const keys = Object.keys(state).filter((key) =>
+        refStates.has(state[key]!),
+      );
+      if (!keys.length) return;
+      this._typeIndex.get(type)?.forEach((node) => {
+        keys.forEach((key) => {
+          const id = ops.getStateValue(node, key);
+          if (typeof id !== "string" || !ids.has(id)) return;
+          const methods = (node as DocNode<UnsafeDefinition>).state[key];
+          (methods as DefaultStateMethods<undefined>).set(undefined);
+        });
+      });
+    });
+  }
+
+  /**
+   * Returns the document at the top of the tree of subdocuments, which
+   * is this document if it is not referenced by the state of another one.
+   */
+  getTopLevelDoc(): Doc {
+    let current: Doc = this;
+    while (current._parentDoc) current = current._parentDoc;
+    return current;
+  }
+
+  /**
+   * Returns the subdocuments of this document, including the subdocuments
+   * of its subdocuments.
+   */
+  getSubDocs(): Doc[] {
+    const subDocs: Doc[] = [];
+    this.getTopLevelDoc()._subDocs.forEach((subDoc) => {
+      let current = subDoc._parentDoc;
+      while (current && current !== this) current = current._parentDoc;
+      if (current) subDocs.push(subDoc);
+    });
+    return subDocs;
+  }
+
+  /**
+   * Registers a callback to be executed when a subdocument is referenced for
+   * the first time by the state of a node of this document or of one of its
+   * subdocuments. The subdocument may only contain its root node, so this
+   * is where sync bindings can load it on demand. Subdocuments referenced
+   * in a transaction are announced when it is committed, and not at all if
+   * it is aborted.
+   *
+   * @returns A function to unregister the listener.
+   */
+  onSubDoc(callback: (subDoc: Doc) => void) {
+    this._subDocListeners.add(callback);
+    return () => {
+      this._subDocListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Registers the value if it is a subdocument. Subdocuments are registered
+   * in the top-level doc by id, so if another instance with the same id was
+   * already registered, that instance is returned instead. A `SubDocRef` is
+   * resolved to the registered instance, or to a new doc if there is none.
+   */
+  private _adoptSubDoc<V>(value: V): V {
+    const topLevelDoc = this.getTopLevelDoc();
+    if (value instanceof SubDocRef) {
+      const registered = topLevelDoc._subDocs.get(value.id);
+      if (registered) return registered as V;
+      return this._adoptSubDoc(new Doc({ ...value.config, id: value.id })) as V;
+    }
+    if (!(value instanceof Doc)) return value;
+    const registered = topLevelDoc._subDocs.get(value.root.id);
+    if (registered) return registered as V;
+    if (value === topLevelDoc || value._parentDoc)
+      throw new Error(
+        `The document '${value.root.id}' is already part of another tree of documents.`,
+      );
+    value._commitSubDocs();
+    value._parentDoc = this;
+    const subDocs = [value, ...value._subDocs.values()];
+    value._subDocs.clear();
+    subDocs.forEach((subDoc) => {
+      topLevelDoc._subDocs.set(subDoc.root.id, subDoc);
+    });
+    this._pendingSubDocs.push(subDocs);
+    const isInTransaction =
+      this._lifeCycleStage !== "idle" && this._lifeCycleStage !== "init";
+    if (!isInTransaction && !this._isImporting) this._commitSubDocs();
+    return value;
+  }
+
+  /** Calls the `onSubDoc` listeners with the pending subdocuments. */
+  private _commitSubDocs() {
+    const subDocs = this._pendingSubDocs.flat();
+    this._pendingSubDocs = [];
+    for (let doc: Doc | undefined = this; doc; doc = doc._parentDoc)
+      doc._subDocListeners.forEach((listener) => subDocs.forEach(listener));
+  }
+
+  /**
+   * Unregisters the subdocuments adopted since there were `count` pending
+   * ones, giving back to each adopted document the ones it brought.
+   */
+  private _rollbackSubDocs(count = 0) {
+    const topLevelDoc = this.getTopLevelDoc();
+    this._pendingSubDocs
+      .splice(count)
+      .reverse()
+      .forEach(([value, ...nested]) => {
+        topLevelDoc._subDocs.delete(value!.root.id);
+        nested.forEach((subDoc) => {
+          topLevelDoc._subDocs.delete(subDoc.root.id);
+          value!._subDocs.set(subDoc.root.id, subDoc);
+        });
+        delete value!._parentDoc;
+      });
+  }
 
   // For simplicity, we will not allow spreading of nodeDefinitions like in
   // `is` method. Users should probably create their own wrappers instead.
@@ -799,6 +1129,12 @@ export class Doc {
         target === this.root
       )
         throw new Error("Root node cannot have siblings");
+      const parent =
+        position === "append" || position === "prepend"
+          ? target
+          : target.parent;
+      if (parent && !this._isApplyingOperations)
+        schema.assertCanInsert(parent, nodes);
       nodes.forEach((topLevelNode) => {
         topLevelNode.descendants({ includeSelf: true }).forEach((node) => {
           if (this !== node.doc)
@@ -862,6 +1198,63 @@ export class Doc {
     });
   }
 
+  /** Internal utility used by `changeType` and to apply change type operations. */
+  private _changeTypeRange(
+    startNode: DocNode,
+    endNode: DocNode,
+    type: string,
+    includeDescendants: boolean,
+  ) {
+    withTransaction(this, () => {
+      if (startNode === this.root)
+        throw new Error("Root node type cannot be changed");
+      if (type === this.root.type)
+        throw new Error("You cannot change the type of a node to 'root'");
+      const resolvedNodeDef = this._resolvedNodeDefs.get(type);
+      if (!resolvedNodeDef)
+        throw new Error(
+          `Attempted to change the type of a node to '${type}' that was not registered.`,
+        );
+      const isAttached = this._nodeMap.has(startNode.id);
+      if (isAttached)
+        ops.onChangeTypeRange(
+          this,
+          startNode,
+          endNode,
+          type,
+          includeDescendants,
+        );
+      const changedNodes: DocNode[] = [];
+      const changeType = (node: DocNode) => {
+        if (node.type === type) return;
+        changedNodes.push(node);
+        if (isAttached) ops.onChangeType(node, type);
+        const state = (node as DocNode<UnsafeDefinition>)["_state"];
+        // carry over the keys shared by both definitions
+        for (const key in state) {
+          const stringified = ops.stringifyStateKey(node, key);
+          const stateDefinition = resolvedNodeDef.state[key];
+          if (stateDefinition)
+            state[key] = this._adoptSubDoc(
+              stateDefinition.fromJSON(JSON.parse(stringified)),
+            );
+          else delete state[key];
+        }
+        if (isAttached) this._unregisterNode(node);
+        // @ts-expect-error - read-only property
+        node.type = type;
+        if (isAttached) this._registerNode(node);
+      };
+      startNode.to(endNode).forEach((topLevelNode) => {
+        if (includeDescendants)
+          topLevelNode.descendants({ includeSelf: true }).forEach(changeType);
+        else changeType(topLevelNode);
+      });
+      if (!this._isApplyingOperations)
+        changedNodes.forEach(schema.assertValidType);
+    });
+  }
+
   /**
    * Registers a callback to be executed during the **change** phase of a transaction.
    *
@@ -953,7 +1346,18 @@ export class Doc {
     this._normalizeListeners.add(callback);
   }
 
-  applyOperations(operations: ops.Operations, flags?: TransactionFlags) {
+  /**
+   * Applies operations generated by this or another document, e.g. received
+   * from other clients.
+   *
+   * @returns A report with the operations that were skipped or applied in
+   * another position because the document changed since they were generated.
+   * See also `onConflict`.
+   */
+  applyOperations(
+    operations: ops.Operations,
+    flags?: TransactionFlags,
+  ): ApplyOperationsReport {
     const hasOperations =
       operations[0].length > 0 || !isObjectEmpty(operations[1]);
     if (!hasOperations) {
@@ -969,22 +1373,85 @@ export class Doc {
           "Strict mode has caught an error: normalize listeners are not idempotent. I.e, they should not mutate the document on the second pass.",
         );
       }
-      return;
+      return { conflicts: [] };
     }
     if (this._lifeCycleStage === "update") this.forceCommit();
     let didApplyOperations = false;
+    let violations: SchemaViolation[] = [];
+    let conflicts: OperationConflict[] = [];
     if (flags) this._transactionFlags = flags;
     withTransaction(
       this,
       () => {
-        ops.onApplyOperations(this, operations);
+        conflicts = ops.onApplyOperations(this, operations);
+        if (this._invalidOperations === "reject") {
+          violations = schema.findViolations(this);
+          if (violations.length)
+            throw new Error("The operations violate the schema");
+        }
         didApplyOperations = true;
       },
       true,
     );
+    if (violations.length)
+      this._onSchemaViolation?.({ violations, rejected: true });
     if (didApplyOperations && this._lifeCycleStage === "update") {
       this.forceCommit();
     }
+    const report = { conflicts };
+    if (conflicts.length)
+      this._conflictListeners.forEach((listener) => listener(report));
+    return report;
+  }
+
+  /**
+   * Registers a callback to be executed in the change stage of the
+   * transactions that insert, delete, move, update the state or change the
+   * type of the node with the given id. Unlike `onChange`, it is not called
+   * for transactions that don't touch the node, and the event says which
+   * keys of its state changed.
+   *
+   * The node doesn't need to exist when the callback is registered, and the
+   * callback is not unregistered when the node is deleted.
+   *
+   * @returns A function to unregister the callback.
+   */
+  observeNode(id: string, callback: (ev: NodeChangeEvent) => void) {
+    let listeners = this._nodeListeners.get(id);
+    if (!listeners) this._nodeListeners.set(id, (listeners = new Set()));
+    listeners.add(callback);
+    return () => {
+      listeners.delete(callback);
+      if (!listeners.size) this._nodeListeners.delete(id);
+    };
+  }
+
+  /**
+   * Returns an immutable copy of the doc as a tree of plain frozen objects.
+   * Snapshots are structurally shared: after a transaction, only the nodes
+   * that changed and their ancestors get new objects, while the rest keep the
+   * same identity. This makes it suitable for `useSyncExternalStore` and
+   * `React.memo`.
+   *
+   * During an active transaction, it returns the snapshot of the last
+   * committed state.
+   */
+  snapshot(): NodeSnapshot {
+    return getSnapshot(this);
+  }
+
+  /**
+   * Registers a callback to be executed after `applyOperations` if some
+   * operations were skipped or applied in another position. Useful for
+   * logging data loss or notifying the user that a change could not be applied.
+   *
+   * @returns A function to unregister the listener.
+   */
+  onConflict(callback: (report: ApplyOperationsReport) => void) {
+    this._conflictListeners.add(callback);
+    return () => {
+      this._conflictListeners.delete(callback);
+    };
   }
 
   /**
@@ -1015,11 +1482,17 @@ export class Doc {
   private _forceCommit(ignoreEmptyDiff = false) {
     if (this._lifeCycleStage === "change")
       throw new Error("You can't trigger an update inside a change event");
+    if (
+      this._lifeCycleStage === "normalize" ||
+      this._lifeCycleStage === "normalize2"
+    )
+      throw new Error("You can't commit inside a normalize event");
     // push + reverse is more performant than unshift at insertion time
     this._inverseOperations[0].reverse();
     // End update stage before normalization
     this._lifeCycleStage = "idle";
     ops.maybeTriggerListeners(this, ignoreEmptyDiff);
+    this._commitSubDocs();
     this._operations = [[], {}];
     this._inverseOperations = [[], {}];
     this._transactionFlags = {};
@@ -1028,6 +1501,8 @@ export class Doc {
       inserted: new Set(),
       moved: new Set(),
       updated: new Set(),
+      updatedKeys: new Map(),
+      typeChanged: new Set(),
     };
     this._lifeCycleStage = "idle";
   }
@@ -1036,7 +1511,10 @@ export class Doc {
    * Aborts the current transaction and rolls back all changes.
    */
   abort() {
-    const inverseOps: ops.Operations = [...this["_inverseOperations"]];
+    const inverseOps = migrations.addOperationsVersions(
+      this,
+      this["_inverseOperations"],
+    );
     withTransaction(
       this,
       () => {
@@ -1044,6 +1522,7 @@ export class Doc {
       },
       true,
     );
+    this._rollbackSubDocs();
     this["_operations"] = [[], {}];
     this["_inverseOperations"] = [[], {}];
     this["_transactionFlags"] = {};
@@ -1052,12 +1531,16 @@ export class Doc {
       inserted: new Set(),
       moved: new Set(),
       updated: new Set(),
+      updatedKeys: new Map(),
+      typeChanged: new Set(),
     };
     this["_lifeCycleStage"] = "idle";
+    if (this._snapshotCache?.isUncommitted) this._snapshotCache = undefined;
   }
 
   /**
    * This method unregisters all event listeners so the instance can be garbage-collected.
+   * It also disposes its subdocuments.
    *
    * After calling this method, the document can no longer be modified.
    */
@@ -1068,7 +1551,33 @@ export class Doc {
       );
     this._changeListeners.clear();
     this._normalizeListeners.clear();
+    this._subDocListeners.clear();
+    this._pendingSubDocs = [];
+    this._conflictListeners.clear();
+    this._nodeListeners.clear();
     this._lifeCycleStage = "disposed";
+    const topLevelDoc = this.getTopLevelDoc();
+    topLevelDoc._subDocs.forEach((subDoc) => {
+      if (subDoc._parentDoc === this) subDoc.dispose();
+    });
+    if (this._parentDoc) topLevelDoc._subDocs.delete(this.root.id);
+  }
+
+  /**
+   * Returns an independent copy of the doc, with the same config and node
+   * ids, that can be edited separately (e.g. a draft) and merged back with
+   * `mergeDocs`. The JSON of this doc is stored as the `forkBase` of the copy.
+   * The `register` hooks of the extensions are not called for the copy.
+   *
+   * @throws If the doc is in an active transaction (see `toJSON`).
+   */
+  fork(): Doc<S> {
+    const jsonDoc = this.toJSON();
+    const forked = ops.fromJSONUnregistered(this._config, jsonDoc) as Doc<S>;
+    forked.forceCommit();
+    // @ts-expect-error - read-only property
+    forked.forkBase = jsonDoc;
+    return forked;
   }
 
   toJSON(options?: { unsafe?: boolean }): JsonDoc {
@@ -1087,18 +1596,11 @@ export class Doc {
         ].join(" "),
       );
     }
-    const nodeToJsonDoc = (node: DocNode): JsonDoc => {
-      const jsonDoc: JsonDoc = node.toJSON();
-      if (node.first) {
-        const children: JsonDoc[] = [];
-        node.children().forEach((childNode) => {
-          children.push(nodeToJsonDoc(childNode));
-        });
-        jsonDoc[3] = children as [JsonDoc, ...JsonDoc[]];
-      }
-      return jsonDoc;
-    };
-    const jsonDoc = nodeToJsonDoc(this.root);
+    const jsonDoc = this.root["_toJsonTree"]();
+    if (this._versions)
+      jsonDoc[2][migrations.VERSIONS_KEY] = migrations.stringifyVersions(
+        this._versions,
+      );
     return jsonDoc;
   }
 
@@ -1107,13 +1609,38 @@ export class Doc {
   // doc.fromJSON({jsonDoc, strategy: "overwrite" | "merge"});
   // What should happen to the listeners in this case? Should be configurable?
   // EDIT: I haven't needed it. It's super unsafe and dangerous. Best not to.
+  // To bring an existing doc to the state of a JSON, apply the operations
+  // returned by `diffDocs` instead.
   /**
    * Creates a new doc from the given JSON.
    *
    * The initial JSON import starts a transaction, allowing updates made
    * immediately afterward to be batched with it.
+   *
+   * If the JSON was serialized with lower versions, the migrations of the
+   * config and then those of the node definitions are run.
+   *
+   * By default, it throws on the first unknown type or state. With a `mode`
+   * (see {@link FromJSONOptions}), it returns the doc together with the
+   * issues found, such as nodes of unknown types or states that `fromJSON`
+   * coerced, with the path of their node.
    */
-  static fromJSON(config: DocConfig, jsonDoc: JsonDoc): Doc {
+  static fromJSON<S extends StateRecord = Record<never, never>>(
+    config: DocConfig<S>,
+    jsonDoc: JsonDoc,
+  ): Doc<S>;
+  static fromJSON<S extends StateRecord = Record<never, never>>(
+    config: DocConfig<S>,
+    jsonDoc: JsonDoc,
+    options: FromJSONOptions,
+  ): FromJSONResult<S>;
+  static fromJSON<S extends StateRecord = Record<never, never>>(
+    config: DocConfig<S>,
+    jsonDoc: JsonDoc,
+    options?: FromJSONOptions,
+  ): Doc<S> | FromJSONResult<S> {
+    let versions: migrations.Versions;
+    [jsonDoc, versions] = migrations.migrateJsonDoc(config, jsonDoc);
     const id = jsonDoc[0];
     if (config.id && config.id !== id) {
       throw new Error(
@@ -1121,61 +1648,247 @@ export class Doc {
       );
     }
     const doc = new Doc({ ...config, id });
-    const jsonDocToDocNode = (node: DocNode, childrenJsonDoc: JsonDoc[]) => {
-      const childrenNodes = childrenJsonDoc?.map((child) => {
-        const childNode = doc._createNodeFromJson(child);
-        return childNode;
+    const issues: JsonDocIssue[] = [];
+    const ids = new Set<string>();
+    // Without a mode, the errors are thrown by _createNodeFromJson.
+    const createNode = (jsonNode: JsonDoc, path: number[]) => {
+      if (!options) return doc._createNodeFromJson(jsonNode, versions);
+      const [nodeId, type] = jsonNode;
+      const report = (issue: Omit<JsonDocIssue, "path" | "nodeId" | "type">) =>
+        issues.push({ path, nodeId, type, ...issue });
+      if (!doc._resolvedNodeDefs.has(type)) {
+        report({
+          reason: "unknownType",
+          message: `Attempted to create a node of type '${type}' that was not registered.`,
+          dropped: jsonNode,
+        });
+        return;
+      }
+      const isValidId = doc._isValidNodeId(nodeId);
+      if (!isValidId || ids.has(nodeId)) {
+        report({
+          reason: "invalidId",
+          message: isValidId
+            ? `Repeated node id: ${nodeId}.`
+            : `Invalid node id: ${nodeId}.`,
+          dropped: jsonNode,
+        });
+        return;
+      }
+      ids.add(nodeId);
+      return doc._createNodeFromJson(jsonNode, versions, report);
+    };
+    const jsonDocToDocNode = (
+      node: DocNode,
+      childrenJsonDoc: JsonDoc[],
+      path: number[],
+    ) => {
+      const children = childrenJsonDoc.flatMap((child, index) => {
+        const childNode = createNode(child, [...path, index]);
+        return childNode ? [[childNode, child, index] as const] : [];
       });
-      if (childrenNodes) node.append(...childrenNodes);
-      childrenJsonDoc?.forEach((childNode, index) => {
-        const children = childNode[3];
-        if (children) {
-          jsonDocToDocNode(childrenNodes[index]!, children);
-        }
+      node.append(...children.map(([childNode]) => childNode));
+      children.forEach(([childNode, child, index]) => {
+        if (child[3]) jsonDocToDocNode(childNode, child[3], [...path, index]);
       });
     };
     withTransaction(doc, () => {
-      const root = doc._createNodeFromJson(jsonDoc);
-      doc._nodeMap.delete(doc.root.id);
+      const root = createNode(jsonDoc, []);
+      // The root can't be left out, even in the lenient mode.
+      if (!root) throw new Error(formatIssues(issues));
+      doc._unregisterNode(doc.root);
       // @ts-expect-error - read-only property
       doc.root = root;
-      doc._nodeMap.set(doc.root.id, doc.root);
-      if (jsonDoc[3]) jsonDocToDocNode(root, jsonDoc[3]);
+      doc._registerNode(doc.root);
+      if (jsonDoc[3]) jsonDocToDocNode(root, jsonDoc[3], []);
+    });
+    if (options?.mode === "strict" && issues.length)
+      throw new Error(formatIssues(issues));
+    return options ? { doc, issues } : doc;
+  }
+
+  /**
+   * Inserts a copy of a subtree returned by `node.exportSubtree()`, possibly
+   * from a doc with a different config, in the given position. The nodes
+   * receive new ids from the id generator of this doc, the ids referenced in
+   * their state (see `remapIds` in {@link defineState}) are remapped to the
+   * new ones, and their state is migrated to the current versions.
+   *
+   * @returns The top-level node of the inserted subtree.
+   * @throws If a node type or state of the subtree is not registered in this
+   * doc. In that case, nothing is inserted.
+   */
+  importSubtree(
+    subtree: JsonSubtree,
+    target: DocNode,
+    position: "append" | "prepend" | "before" | "after",
+  ): DocNode {
+    if (target.doc !== this) throw new Error("Target is from a different doc");
+    const ids = new Map<string, string>();
+    const assignIds = (jsonNode: JsonDoc) => {
+      ids.set(jsonNode[0], this._nodeIdGenerator(this));
+      jsonNode[3]?.forEach(assignIds);
+    };
+    assignIds(subtree.node);
+    const remap = (id: string) => ids.get(id) ?? id;
+    const versions = subtree.versions ?? {};
+    // Nodes are created before starting the transaction, so that an invalid
+    // subtree doesn't abort the pending changes of the doc. The subdocuments
+    // they reference are unregistered if it fails, and announced on commit.
+    const ranges: [parent: DocNode, children: DocNode[]][] = [];
+    const createNode = (jsonNode: JsonDoc): DocNode => {
+      const [id, type] = jsonNode;
+      // @ts-expect-error - private constructor
+      const node = new DocNode(this, type, ids.get(id)) as DocNode;
+      // @ts-expect-error - read-only property
+      node["_state"] = this._createStateFromJson(jsonNode, versions, remap);
+      const children = jsonNode[3]?.map(createNode);
+      if (children) ranges.push([node, children]);
+      return node;
+    };
+    const pendingSubDocs = this._pendingSubDocs.length;
+    let node: DocNode;
+    this._isImporting = true;
+    try {
+      node = createNode(subtree.node);
+    } catch (error) {
+      this._rollbackSubDocs(pendingSubDocs);
+      throw error;
+    } finally {
+      this._isImporting = false;
+    }
+    withTransaction(this, () => {
+      ranges.forEach(([parent, children]) => parent.append(...children));
+      this._insertRange(target, position, [node]);
     });
-    return doc;
+    return node;
   }
 
-  private _createNodeFromJson(jsonNode: JsonDoc): DocNode {
+  /**
+   * Node ids of generators with `extractTime` are derived from the root id
+   * and not validated.
+   */
+  private _isValidNodeId(id: string) {
+    return !!this._idGen.extractTime || this._idGen.validate(id);
+  }
+
+  private _createNodeFromJson(
+    jsonNode: JsonDoc,
+    versions: migrations.Versions = {},
+    onIssue?: (issue: Omit<JsonDocIssue, "path" | "nodeId" | "type">) => void,
+  ): DocNode {
     const [id, type] = jsonNode;
-    if (!this._idGen.extractTime && !this._idGen.validate(id)) {
+    if (!this._isValidNodeId(id)) {
       throw new Error(`Invalid node id: ${id}.`);
     }
     // @ts-expect-error - private constructor
     const node = new DocNode(this, type, id) as DocNode;
-    const state = this["_createStateFromJson"](jsonNode);
+    const state = this._createStateFromJson(
+      jsonNode,
+      versions,
+      undefined,
+      onIssue,
+    );
     // @ts-expect-error - read-only property
     node["_state"] = state;
     return node;
   }
 
-  private _createStateFromJson(jsonNode: JsonDoc): Record<string, Json> {
-    const [, type, stringifiedState] = jsonNode;
+  private _createStateFromJson(
+    jsonNode: JsonDoc,
+    versions: migrations.Versions,
+    remap?: (id: string) => string,
+    onIssue?: (issue: Omit<JsonDocIssue, "path" | "nodeId" | "type">) => void,
+  ): Record<string, Json> {
+    const type = jsonNode[1];
     const resolvedNodeDef = this._resolvedNodeDefs.get(type);
     if (!resolvedNodeDef)
       throw new Error(
         `Attempted to create a node of type '${type}' that was not registered.`,
       );
+    const stringifiedState = migrations.migrateState(
+      this,
+      type,
+      versions,
+      jsonNode[2],
+    );
+    const isMigrated = stringifiedState !== jsonNode[2];
+    // States of newer versions are ignored, so that clients with
+    // different versions can coexist.
+    const isNewerVersion = migrations.isNewerVersion(this, type, versions);
     const state: Record<string, Json> = {};
     for (const key in stringifiedState) {
       const stateString = stringifiedState[key]!;
-      const stateJson = JSON.parse(stateString) as Json;
       const stateDefinition = resolvedNodeDef.state[key];
-      if (!stateDefinition)
-        throw new Error(
-          `Attempted to create a node of type '${type}' with a state that is not registered: ${key}`,
-        );
-      state[key] = stateDefinition.fromJSON(stateJson) as Json;
+      if (!stateDefinition && isNewerVersion) continue;
+      if (!stateDefinition) {
+        const message = `Attempted to create a node of type '${type}' with a state that is not registered: ${key}`;
+        if (!onIssue) throw new Error(message);
+        onIssue({ reason: "unknownState", key, message, dropped: stateString });
+        continue;
+      }
+      let stateJson: Json;
+      let value: unknown;
+      try {
+        stateJson = JSON.parse(stateString) as Json;
+        value = stateDefinition.fromJSON(stateJson);
+      } catch (error) {
+        if (!onIssue) throw error;
+        const message = `Invalid state '${key}' in a node of type '${type}': ${(error as Error).message}`;
+        onIssue({ reason: "invalidState", key, message, dropped: stateString });
+        continue;
+      }
+      // Migrated states may be serialized differently without being coerced.
+      if (onIssue && !isMigrated) {
+        const json = (
+          stateDefinition.toJSON ? stateDefinition.toJSON(value) : value
+        ) as Json;
+        if (!isSameStateJson(value, json, stateJson))
+          onIssue({
+            reason: "coercedState",
+            key,
+            message: `State '${key}' in a node of type '${type}' was coerced from ${stateString} to ${JSON.stringify(json)}`,
+          });
+      }
+      if (remap && stateDefinition.remapIds)
+        value = stateDefinition.remapIds(value, remap);
+      state[key] = this._adoptSubDoc(value) as Json;
     }
     return state;
   }
 }
+
+/**
+ * Returns whether `json`, the serialization of the state `value`, is the same
+ * as the `input` it was parsed from. States may normalize valid JSON (see
+ * `map` and `set`), so the keys of objects are compared regardless of their
+ * order, and the members of sets regardless of their order and repetitions.
+ */
+function isSameStateJson(value: unknown, json: Json, input: Json) {
+  if (value instanceof Set && Array.isArray(json) && Array.isArray(input))
+    return (
+      new Set(input).size === value.size &&
+      input.every((member) => value.has(member))
+    );
+  return JSON.stringify(sortKeys(json)) === JSON.stringify(sortKeys(input));
+}
+
+/** Returns the JSON with the keys of its objects sorted, recursively. */
+function sortKeys(json: Json): Json {
+  if (json === null || typeof json !== "object") return json;
+  if (Array.isArray(json)) return json.map(sortKeys);
+  return Object.fromEntries(
+    Object.entries(json)
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([key, value]) => [key, sortKeys(value!)]),
+  );
+}
+
+/** Formats the issues of `Doc.fromJSON` with the paths of their nodes. */
+function formatIssues(issues: JsonDocIssue[]) {
+  const lines = issues.map(({ path, nodeId, message }) => {
+    const location = path.length ? `/${path.join("/")}` : "root";
+    return `- ${location} (${nodeId}): ${message}`;
+  });
+  return `The JSON doc has ${issues.length} issue(s):\n${lines.join("\n")}`;
+}
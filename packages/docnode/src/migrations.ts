@@ -0,0 +1,92 @@
+import { type Doc } from "./main.js";
+import { type Operations } from "./operations.js";
+import { type DocConfig, type JsonDoc } from "./types.js";
+
+/**
+ * Reserved root state key of a JsonDoc under which the versions are stored.
+ * It is only present if the doc or some node type has a version. The doc
+ * rejects it as a root state key, so it can't collide with one.
+ */
+export const VERSIONS_KEY = "$v";
+
+/** Key of the doc version (`DocConfig.version`) in the versions. */
+const DOC_VERSION_KEY = "$doc";
+
+/** Versions of the node types and of the doc. Missing versions are 0. */
+export type Versions = Record<string, number>;
+
+/** Returns the current versions of the doc, or undefined if there are none. */
+export function resolveVersions(doc: Doc, config: DocConfig) {
+  const versions: Versions = {};
+  if (config.version) versions[DOC_VERSION_KEY] = config.version;
+  doc["_resolvedNodeDefs"].forEach(({ type, version }) => {
+    if (version) versions[type] = version;
+  });
+  return Object.keys(versions).length ? versions : undefined;
+}
+
+export function stringifyVersions(versions: Versions) {
+  return JSON.stringify(versions);
+}
+
+function readJsonDocVersions(jsonDoc: JsonDoc): Versions {
+  const versions = jsonDoc[2][VERSIONS_KEY];
+  return versions ? (JSON.parse(versions) as Versions) : {};
+}
+
+/**
+ * Runs the whole-tree migration of the config if the JsonDoc was serialized
+ * with a lower doc version. Returns the migrated JsonDoc without the versions
+ * in its root state, and the versions it was serialized with.
+ */
+export function migrateJsonDoc(
+  config: DocConfig,
+  jsonDoc: JsonDoc,
+): [JsonDoc, Versions] {
+  const fromVersion = readJsonDocVersions(jsonDoc)[DOC_VERSION_KEY] ?? 0;
+  if (config.migrate && fromVersion < (config.version ?? 0))
+    jsonDoc = config.migrate(fromVersion, jsonDoc);
+  const versions = readJsonDocVersions(jsonDoc);
+  const [id, type, { [VERSIONS_KEY]: _, ...state }, children] = jsonDoc;
+  return [children ? [id, type, state, children] : [id, type, state], versions];
+}
+
+/**
+ * Runs the migration of the node definition if the stringified state
+ * (or state patch) was serialized with a lower version of its type.
+ */
+export function migrateState(
+  doc: Doc,
+  type: string,
+  versions: Versions,
+  stringifiedState: Record<string, string>,
+): Record<string, string> {
+  const { version, migrate } = doc["_resolvedNodeDefs"].get(type) ?? {};
+  const fromVersion = versions[type] ?? 0;
+  if (!migrate || fromVersion >= (version ?? 0)) return stringifiedState;
+  return migrate(fromVersion, { ...stringifiedState });
+}
+
+/** Returns true if the state was serialized with a newer version of its type. */
+export function isNewerVersion(doc: Doc, type: string, versions: Versions) {
+  const version = doc["_resolvedNodeDefs"].get(type)?.version ?? 0;
+  return (versions[type] ?? 0) > version;
+}
+
+/**
+ * Operations without versions come from clients of a doc that had no
+ * versions yet, so every type is considered to be at version 0.
+ */
+export function readOperationsVersions(operations: Operations): Versions {
+  return operations[2] ?? {};
+}
+
+/** Returns the operations with the current versions of the doc. */
+export function addOperationsVersions(
+  doc: Doc,
+  operations: Operations,
+): Operations {
+  const versions = doc["_versions"];
+  if (!versions) return operations;
+  return [operations[0], operations[1], { ...versions }];
+}
@@ -1,17 +1,42 @@
-import { type Doc, type DocNode } from "./main.js";
-import { type Json, type UnsafeDefinition } from "./types.js";
+import { Doc, type DocNode } from "./main.js";
+import {
+  type DocConfig,
+  type Json,
+  type JsonDoc,
+  type MergeConflict,
+  type MergeResult,
+  type NodeChangeEvent,
+  type OperationConflict,
+  type StateDelta,
+  type UnsafeDefinition,
+} from "./types.js";
 import { detachRange, isObjectEmpty } from "./utils.js";
+import { repairViolations } from "./schema.js";
+import { updateSnapshot } from "./snapshot.js";
+import {
+  addOperationsVersions,
+  migrateJsonDoc,
+  migrateState,
+  readOperationsVersions,
+  type Versions,
+} from "./migrations.js";
 
 export function stringifyStateKey(node: DocNode, key: string): string {
   const resolvedNodeDef = node.doc["_resolvedNodeDefs"].get(node.type)!;
-  const stateDefinition = resolvedNodeDef?.state[key];
   if (!(key in node["_state"])) {
     return resolvedNodeDef.defaultStrings[key]!;
   }
   const stateValue = (node as DocNode<UnsafeDefinition>)["_state"][key];
+  return stringifyStateValue(node, key, stateValue);
+}
+
+function stringifyStateValue(node: DocNode, key: string, value: unknown) {
+  const stateDefinition = node.doc["_resolvedNodeDefs"].get(node.type)?.state[
+    key
+  ];
   const stateJson = stateDefinition?.toJSON
-    ? stateDefinition.toJSON(stateValue)
-    : stateValue;
+    ? stateDefinition.toJSON(value)
+    : value;
   const stringified = JSON.stringify(stateJson);
   if (stringified === undefined)
     throw new Error(
@@ -28,24 +53,231 @@ export function parseStateKey(
   const stateDef = node.doc["_resolvedNodeDefs"].get(node.type)?.state[key];
   const value = JSON.parse(stringifiedValue) as Json;
   const stateValue = stateDef?.fromJSON(value);
-  return stateValue;
+  return node.doc["_adoptSubDoc"](stateValue);
+}
+
+export function getStateValue(node: DocNode, key: string): unknown {
+  const state = (node as DocNode<UnsafeDefinition>)["_state"];
+  return key in state
+    ? state[key]
+    : node.doc["_resolvedNodeDefs"].get(node.type)?.defaultState[key];
+}
+
+export function getStateDelta(node: DocNode, key: string) {
+  return node.doc["_resolvedNodeDefs"].get(node.type)?.state[key]?.delta;
+}
+
+/**
+ * Patches of states with a `delta` definition are usually not a stringified
+ * value but a list of deltas, prefixed so that they can be told apart from
+ * stringified values (no JSON starts with "~"). A delta patch may also
+ * have a base (`b`), which is the JSON value the deltas (`d`) are applied to.
+ * This allows composing patches without knowing the state definitions.
+ *
+ * Unlike whole values, deltas are not idempotent. That's why the deltas of
+ * operations have ids (`i` holds the ids of `d`, in the same order), and the
+ * deltas whose id was already applied to the doc are skipped, e.g. when the
+ * same operations are sent again after a failed request. Inverse patches,
+ * which are only applied locally, don't have ids; the deltas get new ids
+ * when they are applied. Deltas generated concurrently must still be rebased
+ * with `transformOperations` before being applied after each other.
+ */
+const DELTA_PREFIX = "~";
+
+/**
+ * The number of ids of applied deltas a doc keeps. Older deltas are
+ * assumed to not be sent again.
+ */
+const MAX_APPLIED_DELTA_IDS = 10_000;
+
+type DeltaPatch = { b?: Json; d: Json[]; i?: string[] | undefined };
+
+function isDeltaPatch(patch: string) {
+  return patch.startsWith(DELTA_PREFIX);
+}
+
+function parseDeltaPatch(patch: string) {
+  return JSON.parse(patch.slice(DELTA_PREFIX.length)) as DeltaPatch;
+}
+
+function stringifyDeltaPatch(deltaPatch: DeltaPatch) {
+  return DELTA_PREFIX + JSON.stringify(deltaPatch);
+}
+
+function markDeltasApplied(doc: Doc, ids: string[]) {
+  const applied = doc["_appliedDeltaIds"];
+  ids.forEach((id) => applied.add(id));
+  for (const id of applied) {
+    if (applied.size <= MAX_APPLIED_DELTA_IDS) break;
+    applied.delete(id);
+  }
+}
+
+/**
+ * Returns the patch without the deltas that were already applied to the
+ * doc, or undefined if all of them were, and marks the rest as applied.
+ * Deltas with a base are always applied, since the result doesn't depend
+ * on the current value, and deltas without ids get new ones.
+ */
+function skipAppliedDeltas(doc: Doc, patch: string) {
+  if (!isDeltaPatch(patch)) return patch;
+  const deltaPatch = parseDeltaPatch(patch);
+  const { b, d, i: ids } = deltaPatch;
+  if (!ids) {
+    const i = d.map(() => doc["_deltaIdGenerator"]());
+    markDeltasApplied(doc, i);
+    return stringifyDeltaPatch({ ...deltaPatch, i });
+  }
+  const applied = doc["_appliedDeltaIds"];
+  const indexes = ids.flatMap((id, index) =>
+    b === undefined && applied.has(id) ? [] : [index],
+  );
+  if (!indexes.length) return undefined;
+  const i = indexes.map((index) => ids[index]!);
+  markDeltasApplied(doc, i);
+  if (indexes.length === ids.length) return patch;
+  return stringifyDeltaPatch({ d: indexes.map((index) => d[index]!), i });
+}
+
+/**
+ * Returns a patch equivalent to applying `first` and then `second`
+ * to the same state key.
+ */
+function composePatch(first: string | undefined, second: string): string {
+  if (first === undefined || !isDeltaPatch(second)) return second;
+  const { d, i } = parseDeltaPatch(second);
+  if (!isDeltaPatch(first))
+    return stringifyDeltaPatch({ b: JSON.parse(first) as Json, d, i });
+  const firstDeltaPatch = parseDeltaPatch(first);
+  return stringifyDeltaPatch({
+    ...firstDeltaPatch,
+    d: [...firstDeltaPatch.d, ...d],
+    i: firstDeltaPatch.i && i && [...firstDeltaPatch.i, ...i],
+  });
+}
+
+/**
+ * Returns the deltas of a state patch, or undefined if it is a whole value
+ * or the deltas have a base.
+ */
+export function getPatchDeltas(patch: string): Json[] | undefined {
+  if (!isDeltaPatch(patch)) return undefined;
+  const { b, d } = parseDeltaPatch(patch);
+  return b === undefined ? d : undefined;
+}
+
+/**
+ * Returns the value that results from applying the patch to the
+ * current state of the node, without setting it.
+ */
+export function resolvePatch(node: DocNode, key: string, patch: string) {
+  if (!isDeltaPatch(patch)) return parseStateKey(node, key, patch);
+  const stateDef = node.doc["_resolvedNodeDefs"].get(node.type)?.state[key];
+  const { b, d } = parseDeltaPatch(patch);
+  let value =
+    b !== undefined ? stateDef?.fromJSON(b) : getStateValue(node, key);
+  // Deltas for states without a delta definition are ignored.
+  if (stateDef?.delta)
+    for (const delta of d) value = stateDef.delta.apply(value, delta);
+  return value;
+}
+
+/**
+ * Returns the patch that undoes `patch`, where `value` is the
+ * state of the node before applying it.
+ */
+function invertPatch(
+  node: DocNode,
+  key: string,
+  patch: string,
+  value: unknown,
+) {
+  const stateDelta = getStateDelta(node, key);
+  const stringifiedValue = stringifyStateValue(node, key, value);
+  if (!isDeltaPatch(patch) || !stateDelta) return stringifiedValue;
+  const { b, d } = parseDeltaPatch(patch);
+  if (b !== undefined) return stringifiedValue;
+  const inverse: Json[] = [];
+  for (const delta of d) {
+    inverse.unshift(stateDelta.invert(delta, value));
+    value = stateDelta.apply(value, delta);
+  }
+  return stringifyDeltaPatch({ d: inverse });
+}
+
+/**
+ * Returns `patch` rebased over `over`, a patch of the same state key that was
+ * generated concurrently. Only deltas without a base are rebased over deltas
+ * without a base. Otherwise, `patch` is applied unchanged to the value that
+ * results from `over`.
+ */
+function transformPatch(
+  node: DocNode,
+  key: string,
+  patch: string,
+  over: string,
+) {
+  const stateDelta = getStateDelta(node, key);
+  if (!stateDelta?.transform || !isDeltaPatch(patch) || !isDeltaPatch(over))
+    return patch;
+  const deltaPatch = parseDeltaPatch(patch);
+  const overDeltaPatch = parseDeltaPatch(over);
+  if (deltaPatch.b !== undefined || overDeltaPatch.b !== undefined)
+    return patch;
+  const transform = stateDelta.transform.bind(stateDelta);
+  const overDeltas = [...overDeltaPatch.d];
+  const d = deltaPatch.d.map((delta) => {
+    overDeltas.forEach((overDelta, i) => {
+      overDeltas[i] = transform(overDelta, delta);
+      delta = transform(delta, overDelta);
+    });
+    return delta;
+  });
+  return stringifyDeltaPatch({ d, i: deltaPatch.i });
+}
+
+/** Returns whether applying the patch leaves the state of the node unchanged. */
+function isNoopPatch(node: DocNode, key: string, patch: string) {
+  const stateDelta = getStateDelta(node, key);
+  const value = getStateValue(node, key);
+  const next = resolvePatch(node, key, patch);
+  return stateDelta?.diff(value, next) === undefined;
+}
+
+function deleteStatePatchKey(node: DocNode, key: string) {
+  const { doc } = node;
+  const statePatchs = doc["_operations"][1];
+  const nodePatch = statePatchs[node.id];
+  if (nodePatch) {
+    delete nodePatch[key];
+    if (isObjectEmpty(nodePatch)) {
+      delete statePatchs[node.id];
+      doc["_diff"].updated.delete(node.id);
+    }
+  }
+  delete doc["_inverseOperations"][1][node.id]?.[key];
 }
 
 export const onSetState = {
-  operations: (node: DocNode, key: string) => {
+  operations: (
+    node: DocNode,
+    key: string,
+    prevValue: unknown,
+    delta?: Json,
+  ) => {
     const { doc } = node;
+    const stateDelta = getStateDelta(node, key);
+    if (stateDelta && !doc["_diff"].inserted.has(node.id)) {
+      onSetDeltaState(node, key, prevValue, stateDelta, delta);
+      return;
+    }
     const statePatchs = doc["_operations"][1];
     const valueString = stringifyStateKey(node, key);
 
     const prevValueString = doc["_inverseOperations"][1][node.id]?.[key];
     const nodePatch = statePatchs[node.id];
     if (prevValueString === valueString && nodePatch) {
-      delete nodePatch[key];
-      if (isObjectEmpty(nodePatch)) {
-        delete statePatchs[node.id];
-        doc["_diff"].updated.delete(node.id);
-      }
-      delete doc["_inverseOperations"][1][node.id]?.[key];
+      deleteStatePatchKey(node, key);
     } else {
       (statePatchs[node.id] ??= {})[key] = valueString;
       if (!doc["_diff"].inserted.has(node.id))
@@ -56,6 +288,8 @@ export const onSetState = {
     const { doc } = node;
     const insertedInSameTransaction = doc["_diff"].inserted.has(node.id);
     if (insertedInSameTransaction) return;
+    // delta states compute their inverse in onSetDeltaState
+    if (getStateDelta(node, key)) return;
     const inverseStatePatchs = doc["_inverseOperations"][1];
     if (inverseStatePatchs[node.id]?.[key] !== undefined) return;
     const originalStringifiedState = stringifyStateKey(node, key);
@@ -63,6 +297,45 @@ export const onSetState = {
   },
 };
 
+function onSetDeltaState(
+  node: DocNode,
+  key: string,
+  prevValue: unknown,
+  stateDelta: StateDelta<unknown>,
+  givenDelta: Json | undefined,
+) {
+  const { doc } = node;
+  const delta =
+    givenDelta ?? stateDelta.diff(prevValue, getStateValue(node, key));
+  if (delta === undefined) return;
+  const statePatchs = doc["_operations"][1];
+  const inverseStatePatchs = doc["_inverseOperations"][1];
+  const inverse = stringifyDeltaPatch({
+    d: [stateDelta.invert(delta, prevValue)],
+  });
+  const prevInverse = inverseStatePatchs[node.id]?.[key];
+  const nextInverse =
+    prevInverse === undefined ? inverse : composePatch(inverse, prevInverse);
+  const initialValue = resolvePatch(node, key, nextInverse);
+  if (
+    stringifyStateValue(node, key, initialValue) ===
+    stringifyStateKey(node, key)
+  ) {
+    deleteStatePatchKey(node, key);
+    return;
+  }
+  (inverseStatePatchs[node.id] ??= {})[key] = nextInverse;
+  const prevPatch = statePatchs[node.id]?.[key];
+  const id = doc["_deltaIdGenerator"]();
+  // the doc skips its own deltas if they are applied to it again
+  markDeltasApplied(doc, [id]);
+  (statePatchs[node.id] ??= {})[key] =
+    prevPatch !== undefined && !isDeltaPatch(prevPatch)
+      ? stringifyStateKey(node, key)
+      : composePatch(prevPatch, stringifyDeltaPatch({ d: [delta], i: [id] }));
+  doc["_diff"].updated.add(node.id);
+}
+
 export const onInsertRange = (
   doc: Doc,
   target: DocNode,
@@ -233,95 +506,301 @@ export const onMoveRange = (
   });
 };
 
+export const onChangeTypeRange = (
+  doc: Doc,
+  startNode: DocNode,
+  endNode: DocNode,
+  type: string,
+  includeDescendants: boolean,
+) => {
+  doc["_operations"][0].push([
+    3,
+    type,
+    startNode.id,
+    startNode !== endNode ? endNode.id : 0,
+    includeDescendants ? 1 : 0,
+  ]);
+};
+
+/**
+ * Must be called before the type of the node changes. The inverse state
+ * patch keeps the value of the keys that the new type drops or parses
+ * differently, so that they are restored after the inverse change type.
+ */
+export const onChangeType = (node: DocNode, type: string) => {
+  const { doc } = node;
+  const diff = doc["_diff"];
+  if (diff.inserted.has(node.id)) return;
+  diff.typeChanged.add(node.id);
+  doc["_inverseOperations"][0].push([3, node.type, node.id, 0, 0]);
+  const newStateDefs = doc["_resolvedNodeDefs"].get(type)!.state;
+  const statePatch = doc["_operations"][1][node.id];
+  const inverseStatePatch = doc["_inverseOperations"][1][node.id] ?? {};
+  const state = (node as DocNode<UnsafeDefinition>)["_state"];
+  // Deltas can't be applied across types, so they become whole values
+  for (const key in inverseStatePatch) {
+    const patch = inverseStatePatch[key]!;
+    if (!isDeltaPatch(patch)) continue;
+    const value = resolvePatch(node, key, patch);
+    inverseStatePatch[key] = stringifyStateValue(node, key, value);
+  }
+  for (const key in state) {
+    const stringified = stringifyStateKey(node, key);
+    const newStateDef = newStateDefs[key];
+    const newValue = newStateDef?.fromJSON(JSON.parse(stringified));
+    if (newStateDef) {
+      const newJson = newStateDef.toJSON
+        ? newStateDef.toJSON(newValue)
+        : newValue;
+      if (JSON.stringify(newJson) === stringified) continue;
+    }
+    inverseStatePatch[key] ??= stringified;
+  }
+  if (!isObjectEmpty(inverseStatePatch))
+    doc["_inverseOperations"][1][node.id] = inverseStatePatch;
+  // The receiver applies the state patch after the change type operation
+  for (const key in statePatch) {
+    const newStateDef = newStateDefs[key];
+    if (!newStateDef) {
+      delete statePatch[key];
+      continue;
+    }
+    const value = newStateDef.fromJSON(
+      JSON.parse(stringifyStateKey(node, key)),
+    );
+    const json = newStateDef.toJSON ? newStateDef.toJSON(value) : value;
+    statePatch[key] = JSON.stringify(json);
+  }
+  if (statePatch && isObjectEmpty(statePatch)) {
+    delete doc["_operations"][1][node.id];
+    diff.updated.delete(node.id);
+  }
+};
+
+/**
+ * Applies the operations and returns the conflicts, i.e. the operations
+ * that were skipped or applied differently because the document changed
+ * since they were generated.
+ */
 export const onApplyOperations = (doc: Doc, operations: Operations) => {
+  // Remote operations are not checked against the schema one by one. The
+  // violations are repaired in the normalize phase or rejected as a whole.
+  doc["_isApplyingOperations"] = true;
+  try {
+    return applyOperations(doc, operations);
+  } finally {
+    doc["_isApplyingOperations"] = false;
+  }
+};
+
+const applyOperations = (doc: Doc, operations: Operations) => {
+  const conflicts: OperationConflict[] = [];
+  const skip = (
+    operation: OrderedOperation,
+    reason: OperationConflict["reason"],
+    nodeId?: string | 0,
+  ) => {
+    conflicts.push({
+      resolution: "skipped",
+      reason,
+      operation,
+      ...(nodeId && { nodeId }),
+    });
+  };
+  // An anchor that was given but can't be used means that the nodes
+  // end up in another position.
+  const checkAnchors = (
+    operation: OrderedOperation,
+    [prevId, prev]: [string | 0, DocNode | undefined],
+    [nextId, next]: [string | 0, DocNode | undefined],
+  ) => {
+    if ((prevId && !prev) || (!prev && nextId && !next))
+      conflicts.push({
+        resolution: "adjusted",
+        reason: "missingAnchor",
+        operation,
+      });
+  };
+  const findMissing = (...ids: (string | 0)[]) =>
+    ids.find((id) => id !== 0 && !doc.getNodeById(id));
   operations[0].forEach((operation) => {
     switch (operation[0]) {
-      case 0:
+      case 0: {
+        const parent = operation[2] ? doc.getNodeById(operation[2]) : doc.root;
+        if (!parent) {
+          skip(operation, "missingParent", operation[2]);
+          break;
+        }
         const nodes = operation[1].map((jsonNode) =>
           doc["_createNodeFromJson"]([jsonNode[0], jsonNode[1], {}]),
         );
-        const prev = operation[3] ? doc.getNodeById(operation[3]) : undefined;
-        if (prev) {
-          doc["_insertRange"](prev, "after", nodes);
-          break;
-        }
-        const next = operation[4] ? doc.getNodeById(operation[4]) : undefined;
-        if (next) {
-          doc["_insertRange"](next, "before", nodes);
+        const prev = getAnchor(doc, parent, operation[3]);
+        const next = getAnchor(doc, parent, operation[4]);
+        checkAnchors(operation, [operation[3], prev], [operation[4], next]);
+        if (prev) doc["_insertRange"](prev, "after", nodes);
+        else if (next) doc["_insertRange"](next, "before", nodes);
+        else doc["_insertRange"](parent, "append", nodes);
+        break;
+      }
+      case 1: {
+        const missing = findMissing(operation[1], operation[2]);
+        if (missing) {
+          skip(operation, "missingNode", missing);
           break;
         }
-        const parent = operation[2] ? doc.getNodeById(operation[2]) : doc.root;
-        if (parent) doc["_insertRange"](parent, "append", nodes);
-        break;
-      case 1:
         try {
           doc
             .getNodeById(operation[1])!
             .to(doc.getNodeById(operation[2] || operation[1])!)
             .delete();
-        } catch {}
+        } catch {
+          skip(operation, "invalidRange");
+        }
         break;
-      case 2:
-        const startNode = doc.getNodeById(operation[1]);
-        const endNode = doc.getNodeById(operation[2] || operation[1]);
-        if (!startNode || !endNode) break;
+      }
+      case 3: {
+        const missing = findMissing(operation[2], operation[3]);
+        if (missing) {
+          skip(operation, "missingNode", missing);
+          break;
+        }
+        doc["_changeTypeRange"](
+          doc.getNodeById(operation[2])!,
+          doc.getNodeById(operation[3] || operation[2])!,
+          operation[1],
+          !!operation[4],
+        );
+        break;
+      }
+      case 2: {
+        const missing = findMissing(operation[1], operation[2]);
+        if (missing) {
+          skip(operation, "missingNode", missing);
+          break;
+        }
+        const parent = operation[3] ? doc.getNodeById(operation[3]) : doc.root;
+        if (!parent) {
+          skip(operation, "missingParent", operation[3]);
+          break;
+        }
+        const startNode = doc.getNodeById(operation[1])!;
+        const endNode = doc.getNodeById(operation[2] || operation[1])!;
+        const prev = getAnchor(doc, parent, operation[4]);
+        const next = getAnchor(doc, parent, operation[5]);
         try {
-          if (operation[4])
-            startNode.to(endNode).move(doc.getNodeById(operation[4])!, "after");
-          else if (operation[5])
-            startNode
-              .to(endNode)
-              .move(doc.getNodeById(operation[5])!, "before");
-          else
-            startNode
-              .to(endNode)
-              .move(doc.getNodeById(operation[3] as string)!, "append");
-        } catch {}
+          const range = startNode.to(endNode);
+          if (prev) range.move(prev, "after");
+          else if (next) range.move(next, "before");
+          else range.move(parent, "append");
+        } catch {
+          // e.g. the nodes are no longer a range, or the target is inside it
+          skip(operation, "invalidTarget");
+          break;
+        }
+        checkAnchors(operation, [operation[4], prev], [operation[5], next]);
         break;
+      }
     }
   });
   // Apply state patch
   const toApplyStatePatch = operations[1];
   const currentStatePatch = doc["_operations"][1];
   const currentInverseStatePatch = doc["_inverseOperations"][1];
+  const versions = doc["_versions"] && readOperationsVersions(operations);
   for (const id in toApplyStatePatch) {
     const node = doc.getNodeById(id);
-    if (!node) continue;
-    currentStatePatch[id] = {
-      ...currentStatePatch[id],
-      ...toApplyStatePatch[id],
-    };
-    if (!doc["_diff"].inserted.has(id)) doc["_diff"].updated.add(id);
+    if (!node) {
+      conflicts.push({
+        resolution: "skipped",
+        reason: "missingNode",
+        nodeId: id,
+      });
+      continue;
+    }
     const insertedInSameTransaction = doc["_diff"].inserted.has(id);
-    for (const key in toApplyStatePatch[id]) {
+    const stateDefs = doc["_resolvedNodeDefs"].get(node.type)!.state;
+    const nodeStatePatch = versions
+      ? migrateState(doc, node.type, versions, toApplyStatePatch[id]!)
+      : toApplyStatePatch[id]!;
+    for (const key in nodeStatePatch) {
+      // The key may belong to a type the node no longer has, or to a newer
+      // version of its type
+      if (!stateDefs[key]) {
+        conflicts.push({
+          resolution: "skipped",
+          reason: "unknownState",
+          nodeId: id,
+          key,
+        });
+        continue;
+      }
+      const patch = skipAppliedDeltas(doc, nodeStatePatch[key]!);
+      if (patch === undefined) continue;
+      if (!insertedInSameTransaction) doc["_diff"].updated.add(id);
+      const prevValue = getStateValue(node, key);
       // Only if it was inserted in the same transaction, it is NOT added to the inverseOps.
       // Because the inverseOp is a delete, and therefore the state doesn't matter
       if (!insertedInSameTransaction) {
-        if (!Boolean(currentInverseStatePatch[id]?.[key])) {
-          const originalStringifiedState = stringifyStateKey(node, key);
-          (currentInverseStatePatch[id] ??= {})[key] ??=
-            originalStringifiedState;
+        const prevInverse = currentInverseStatePatch[id]?.[key];
+        const inverse = invertPatch(node, key, patch, prevValue);
+        if (prevInverse === undefined || !isDeltaPatch(prevInverse)) {
+          (currentInverseStatePatch[id] ??= {})[key] ??= inverse;
+        } else {
+          currentInverseStatePatch[id]![key] = isDeltaPatch(inverse)
+            ? composePatch(inverse, prevInverse)
+            : stringifyStateValue(
+                node,
+                key,
+                resolvePatch(node, key, prevInverse),
+              );
         }
       }
       const state = (node as DocNode<UnsafeDefinition>)["_state"];
-      state[key] = parseStateKey(node, key, toApplyStatePatch[id][key]!);
+      state[key] = resolvePatch(node, key, patch);
+      const nodePatch = (currentStatePatch[id] ??= {});
+      const prevPatch = nodePatch[key];
+      // Delta patches are kept as deltas only for nodes that were not inserted
+      // in the same transaction, so that the state of inserted nodes is complete.
+      nodePatch[key] =
+        !isDeltaPatch(patch) ||
+        (!insertedInSameTransaction &&
+          (prevPatch === undefined || isDeltaPatch(prevPatch)))
+          ? composePatch(prevPatch, patch)
+          : stringifyStateKey(node, key);
     }
   }
+  return conflicts;
 };
 
+/**
+ * Returns the node with the given id if it is still a child of `parent`.
+ * Concurrent operations may have moved it elsewhere, in which case it is
+ * no longer a valid anchor for the operation.
+ */
+function getAnchor(doc: Doc, parent: DocNode, id: string | 0) {
+  const node = id ? doc.getNodeById(id) : undefined;
+  return node?.parent === parent ? node : undefined;
+}
+
 /** We trigger listeners at the end of each update if there were operations (i.e. something changed) */
 export const maybeTriggerListeners = (doc: Doc, ignoreEmptyDiff = false) => {
   const hasChanges = () => {
-    const { inserted, deleted, moved } = doc["_diff"];
+    const { inserted, deleted, moved, typeChanged } = doc["_diff"];
     return (
       inserted.size ||
       deleted.size ||
       moved.size ||
+      typeChanged.size ||
       !isObjectEmpty(doc["_operations"][1])
     );
   };
   if (!hasChanges() && !ignoreEmptyDiff) return;
+  setUpdatedKeys(doc);
   doc["_lifeCycleStage"] = "normalize";
+  // Built-in repairs run before the normalize listeners
+  const violations = repairViolations(doc);
+  if (violations.length)
+    doc["_onSchemaViolation"]?.({ violations, rejected: false });
   doc["_normalizeListeners"].forEach((listener) =>
     listener({ diff: doc["_diff"] }),
   );
@@ -332,7 +811,14 @@ export const maybeTriggerListeners = (doc: Doc, ignoreEmptyDiff = false) => {
     );
   }
   if (!hasChanges()) return;
+  setUpdatedKeys(doc);
+  doc["_operations"] = addOperationsVersions(doc, doc["_operations"]);
+  doc["_inverseOperations"] = addOperationsVersions(
+    doc,
+    doc["_inverseOperations"],
+  );
   doc["_lifeCycleStage"] = "change";
+  if (doc["_snapshotCache"]) updateSnapshot(doc);
   doc["_changeListeners"].forEach((listener) =>
     listener({
       operations: doc["_operations"],
@@ -341,6 +827,44 @@ export const maybeTriggerListeners = (doc: Doc, ignoreEmptyDiff = false) => {
       flags: doc["_transactionFlags"],
     }),
   );
+  if (doc["_nodeListeners"].size) triggerNodeListeners(doc);
+};
+
+/** Sets `diff.updatedKeys` from the state patch of the operations. */
+const setUpdatedKeys = (doc: Doc) => {
+  const diff = doc["_diff"];
+  const statePatch = doc["_operations"][1];
+  diff.updatedKeys = new Map(
+    [...diff.updated].map((id) => [
+      id,
+      new Set(Object.keys(statePatch[id] ?? {})),
+    ]),
+  );
+};
+
+const triggerNodeListeners = (doc: Doc) => {
+  const { inserted, deleted, moved, updatedKeys, typeChanged } = doc["_diff"];
+  const ids = new Set([
+    ...inserted,
+    ...deleted.keys(),
+    ...moved,
+    ...updatedKeys.keys(),
+    ...typeChanged,
+  ]);
+  ids.forEach((id) => {
+    const listeners = doc["_nodeListeners"].get(id);
+    if (!listeners) return;
+    const event: NodeChangeEvent = {
+      node: deleted.get(id) ?? doc.getNodeById(id)!,
+      inserted: inserted.has(id),
+      deleted: deleted.has(id),
+      moved: moved.has(id),
+      typeChanged: typeChanged.has(id),
+      updatedKeys: updatedKeys.get(id) ?? new Set(),
+      flags: doc["_transactionFlags"],
+    };
+    listeners.forEach((listener) => listener(event));
+  });
 };
 
 const copyDeletedToDiff = (node: DocNode) => {
@@ -355,7 +879,16 @@ const copyDeletedToDiff = (node: DocNode) => {
     // backup the previous state in inverseOperations.statePatch
     const inversePatchState = doc["_inverseOperations"][1][node.id];
     const currentState = node["_stateToJson"]();
-    const previousState = { ...currentState, ...inversePatchState };
+    const previousState: Record<string, string> = {
+      ...currentState,
+      ...inversePatchState,
+    };
+    // The node will be reinserted with whole values, not deltas
+    for (const key in inversePatchState) {
+      if (!isDeltaPatch(inversePatchState[key]!)) continue;
+      const value = resolvePatch(node, key, inversePatchState[key]!);
+      previousState[key] = stringifyStateValue(node, key, value);
+    }
     doc["_inverseOperations"][1][node.id] = previousState;
     // add to diff.deleted
     diff.deleted.set(node.id, node);
@@ -384,34 +917,554 @@ type MoveOperation = [
 export type OrderedOperation =
   | InsertOperation
   | DeleteOperation
-  | MoveOperation;
+  | MoveOperation
+  | ChangeTypeOperation;
 
-// TODO: not implemented yet
-// type ChangeTypeOperation = [
-//   operation: 3,
-//   type: string,
-//   start: string,
-//   end: string | 0,
-//   includeDescendants: 1 | 0,
-// ]
+type ChangeTypeOperation = [
+  operation: 3,
+  type: string,
+  start: string,
+  end: string | 0,
+  includeDescendants: 1 | 0,
+];
 
 type StatePatch = { [id: string]: Record<string, string> };
 
-export type Operations = readonly [OrderedOperation[], StatePatch];
+/**
+ * The versions are only present if the doc or some node type has a version.
+ * They are the ones the state patch was serialized with.
+ */
+export type Operations = readonly [
+  OrderedOperation[],
+  StatePatch,
+  versions?: Versions,
+];
 
 export function mergeOperations(...operationsList: Operations[]): Operations {
   const orderedOperations: OrderedOperation[] = [];
   const statePatch: StatePatch = {};
+  let versions: Versions | undefined;
 
   for (const operations of operationsList) {
     orderedOperations.push(...operations[0]);
+    if (operations[2]) versions = { ...versions, ...operations[2] };
     for (const nodeId in operations[1]) {
-      statePatch[nodeId] ??= {};
-      Object.assign(statePatch[nodeId], operations[1][nodeId]);
+      const nodePatch = (statePatch[nodeId] ??= {});
+      for (const key in operations[1][nodeId]) {
+        const patch = operations[1][nodeId][key]!;
+        nodePatch[key] = composePatch(nodePatch[key], patch);
+      }
     }
   }
 
-  return [orderedOperations, statePatch];
+  return versions
+    ? [orderedOperations, statePatch, versions]
+    : [orderedOperations, statePatch];
+}
+
+/**
+ * Rebases `local` operations over `remote` operations that were generated
+ * concurrently from the same document. The result is meant to be applied
+ * after `remote`, preserving the intent of `local` as much as possible:
+ * - Anchors (prev/next) that remote operations deleted or moved are dropped,
+ * so that nodes are inserted or moved next to their other anchor, or
+ * appended to their parent, instead of following the moved anchor.
+ * - Operations on nodes that remote operations deleted, or into parents
+ * that they deleted, are removed (delete wins), together with the
+ * operations and state patches of the nodes they would have inserted.
+ * - Delta patches of state keys that remote operations also changed with
+ * deltas are rebased over them (see `StateDelta.transform`). `doc` is used
+ * to find the state definitions of the nodes; it can be any doc with the
+ * nodes, e.g. the one the operations are applied to.
+ *
+ * Only the nodes at the edges of remote ranges are known, so anchors
+ * inside a deleted or moved range are resolved when the operations are
+ * applied instead (an anchor that is no longer a child of the parent of
+ * the operation is ignored).
+ */
+export function transformOperations(
+  local: Operations,
+  remote: Operations,
+  doc: Doc,
+): Operations {
+  const removed = new Set<string>();
+  const moved = new Set<string>();
+  remote[0].forEach((operation) => {
+    switch (operation[0]) {
+      case 0:
+        // deleted and reinserted in the same transaction
+        operation[1].forEach(([id]) => {
+          if (removed.delete(id)) moved.add(id);
+        });
+        break;
+      case 1:
+        removed.add(operation[1]);
+        if (operation[2]) removed.add(operation[2]);
+        break;
+      case 2:
+        moved.add(operation[1]);
+        if (operation[2]) moved.add(operation[2]);
+        break;
+    }
+  });
+
+  const isGone = (id: string | 0) => id !== 0 && removed.has(id);
+  const anchor = (id: string | 0) =>
+    id !== 0 && (removed.has(id) || moved.has(id)) ? 0 : id;
+  const orderedOperations: OrderedOperation[] = [];
+  local[0].forEach((operation) => {
+    switch (operation[0]) {
+      case 0: {
+        const [, nodes, parent, prev, next] = operation;
+        if (isGone(parent)) {
+          nodes.forEach(([id]) => removed.add(id));
+          return;
+        }
+        orderedOperations.push([0, nodes, parent, anchor(prev), anchor(next)]);
+        return;
+      }
+      case 1:
+        if (isGone(operation[1]) || isGone(operation[2])) return;
+        orderedOperations.push(operation);
+        return;
+      case 2: {
+        const [, start, end, parent, prev, next] = operation;
+        if (isGone(start) || isGone(end) || isGone(parent)) return;
+        orderedOperations.push([
+          2,
+          start,
+          end,
+          parent,
+          anchor(prev),
+          anchor(next),
+        ]);
+        // The local move repositions the nodes again, so they are valid anchors
+        moved.delete(start);
+        if (end) moved.delete(end);
+        return;
+      }
+      case 3:
+        if (isGone(operation[2]) || isGone(operation[3])) return;
+        orderedOperations.push(operation);
+        return;
+    }
+  });
+
+  const statePatch: StatePatch = {};
+  for (const id in local[1]) {
+    if (removed.has(id)) continue;
+    const nodePatch = (statePatch[id] = { ...local[1][id] });
+    const node = doc.getNodeById(id);
+    if (!node) continue;
+    for (const key in remote[1][id]) {
+      const patch = nodePatch[key];
+      if (patch !== undefined)
+        nodePatch[key] = transformPatch(node, key, patch, remote[1][id][key]!);
+    }
+  }
+  return local[2]
+    ? [orderedOperations, statePatch, local[2]]
+    : [orderedOperations, statePatch];
+}
+
+/**
+ * Rebases inverse operations, like the ones stored by the undo manager, over
+ * `remote` operations that were committed after them. Unlike
+ * `transformOperations`, the state keys that `remote` changed are dropped from
+ * the result so that applying it doesn't overwrite them, except when both
+ * patches are deltas, which are rebased over each other. Rebased deltas that
+ * no longer change the current value (e.g. an inverse insertion whose text
+ * was deleted by `remote`) are dropped too.
+ */
+export function transformInverseOperations(
+  inverse: Operations,
+  remote: Operations,
+  doc: Doc,
+): Operations {
+  const operations = transformOperations(inverse, remote, doc);
+  const statePatch = operations[1];
+  for (const id in remote[1]) {
+    const nodePatch = statePatch[id];
+    if (!nodePatch) continue;
+    for (const key in remote[1][id]) {
+      const patch = nodePatch[key];
+      if (patch === undefined) continue;
+      const node = doc.getNodeById(id);
+      const isDeltaOverDelta =
+        isDeltaPatch(patch) && isDeltaPatch(remote[1][id][key]!);
+      if (isDeltaOverDelta && !(node && isNoopPatch(node, key, patch)))
+        continue;
+      delete nodePatch[key];
+    }
+    if (isObjectEmpty(nodePatch)) delete statePatch[id];
+  }
+  return operations;
+}
+
+/**
+ * Creates a doc from the JSON without calling the `register` hook of the
+ * extensions, for internal copies of a doc. Otherwise extensions like the
+ * history would be registered again in every copy.
+ */
+export function fromJSONUnregistered(config: DocConfig, jsonDoc: JsonDoc) {
+  return Doc.fromJSON(
+    {
+      ...config,
+      extensions: config.extensions.map(
+        ({ register: _register, ...extension }) => extension,
+      ),
+    },
+    jsonDoc,
+  );
+}
+
+/**
+ * Returns a read-only copy of the doc with the operations applied, e.g. the
+ * inverse operations of the history entries to check out.
+ */
+export function readOnlyCopy(doc: Doc, operations?: Operations) {
+  const copy = fromJSONUnregistered(doc["_config"], doc.toJSON());
+  copy.forceCommit();
+  if (operations) {
+    copy.applyOperations(operations, { skipUndo: true });
+    copy.forceCommit();
+  }
+  copy["_isReadOnly"] = true;
+  return copy;
+}
+
+/**
+ * Returns the operations that transform `fromJsonDoc` into `toJsonDoc`,
+ * matching nodes by id. Applying them to a doc in the state of `fromJsonDoc`
+ * (e.g. with `doc.applyOperations`) is a normal transaction, so it is synced
+ * and can be undone.
+ *
+ * Nodes that keep their parent and relative order are not moved, and only
+ * the state keys that changed are included in the state patch.
+ *
+ * @throws If the JsonDocs have different ids.
+ */
+export function diffDocs(
+  config: DocConfig,
+  fromJsonDoc: JsonDoc,
+  toJsonDoc: JsonDoc,
+): Operations {
+  if (fromJsonDoc[0] !== toJsonDoc[0])
+    throw new Error(
+      `Attempted to diff documents with different ids: '${fromJsonDoc[0]}' and '${toJsonDoc[0]}'.`,
+    );
+  const doc = fromJSONUnregistered(config, fromJsonDoc);
+  doc.forceCommit();
+  let operations: Operations = [[], {}];
+  doc.onChange((event) => {
+    operations = event.operations;
+  });
+  const [jsonDoc, versions] = migrateJsonDoc(config, toJsonDoc);
+  doc.forceCommit(() => {
+    // The intermediate states may violate the schema, but not the final one
+    doc["_isApplyingOperations"] = true;
+    try {
+      transformDoc(doc, jsonDoc, versions);
+    } finally {
+      doc["_isApplyingOperations"] = false;
+    }
+  }, {});
+  doc.dispose();
+  return operations;
+}
+
+/**
+ * Three-way merge of two docs that diverged from the same `base`, such as a
+ * doc and a fork of it (see `doc.fork`). Returns the operations that bring
+ * the changes of `theirs` since `base` into `ours`, to be applied with
+ * `ours.applyOperations`, and the nodes that both sides changed in ways that
+ * can't be combined. For those, the changes of `ours` are kept, except when
+ * one side deleted the node, in which case the deletion wins.
+ *
+ * A state key changed on both sides is merged only if the result doesn't
+ * depend on the order of the changes, e.g. different keys of a `map`, or
+ * deltas that are rebased over each other, like the ones of a `text`.
+ *
+ * @throws If the docs have different ids or are in an active transaction.
+ */
+export function mergeDocs(base: JsonDoc, ours: Doc, theirs: Doc): MergeResult {
+  const config = ours["_config"];
+  const oursJsonDoc = ours.toJSON();
+  const theirsJsonDoc = theirs.toJSON();
+  const oursOperations = diffDocs(config, base, oursJsonDoc);
+  const theirsOperations = diffDocs(config, base, theirsJsonDoc);
+  const baseNodes = indexJsonDoc(config, base);
+  const oursNodes = indexJsonDoc(config, oursJsonDoc);
+  const theirsNodes = indexJsonDoc(config, theirsJsonDoc);
+  const conflicts: MergeConflict[] = [];
+
+  const deleteConflicts = new Set<string>();
+  const sides = [
+    ["ours", oursNodes, theirsNodes, theirsOperations],
+    ["theirs", theirsNodes, oursNodes, oursOperations],
+  ] as const;
+  sides.forEach(([deletedBy, nodes, otherNodes, otherOperations]) => {
+    const addConflict = (nodeId: string) => {
+      if (deleteConflicts.has(nodeId)) return;
+      deleteConflicts.add(nodeId);
+      conflicts.push({ reason: "delete", nodeId, deletedBy });
+    };
+    otherNodes.forEach((otherNode, nodeId) => {
+      const baseNode = baseNodes.get(nodeId);
+      // nodes inserted by the other side into a node deleted by this side
+      if (!baseNode) {
+        const { parent } = otherNode;
+        if (parent && baseNodes.has(parent) && !nodes.has(parent))
+          addConflict(parent);
+        return;
+      }
+      if (nodes.has(nodeId)) return;
+      if (
+        otherOperations[1][nodeId] ||
+        otherNode.type !== baseNode.type ||
+        otherNode.parent !== baseNode.parent
+      )
+        addConflict(nodeId);
+    });
+  });
+
+  // Changes of theirs that are dropped because they conflict
+  const typeConflicts = new Set<string>();
+  const moveConflicts = new Set<string>();
+  const doubleKeys: [nodeId: string, key: string][] = [];
+  baseNodes.forEach((baseNode, nodeId) => {
+    const oursNode = oursNodes.get(nodeId);
+    const theirsNode = theirsNodes.get(nodeId);
+    if (!oursNode || !theirsNode) return;
+    const isConflict = (prop: "type" | "parent") =>
+      oursNode[prop] !== baseNode[prop] &&
+      theirsNode[prop] !== baseNode[prop] &&
+      oursNode[prop] !== theirsNode[prop];
+    if (isConflict("type")) {
+      typeConflicts.add(nodeId);
+      conflicts.push({ reason: "type", nodeId });
+    }
+    if (isConflict("parent")) {
+      moveConflicts.add(nodeId);
+      conflicts.push({ reason: "move", nodeId });
+    }
+    for (const key in theirsOperations[1][nodeId]) {
+      if (oursOperations[1][nodeId]?.[key] !== undefined)
+        doubleKeys.push([nodeId, key]);
+    }
+  });
+
+  const theirsStatePatch: StatePatch = {};
+  for (const nodeId in theirsOperations[1])
+    theirsStatePatch[nodeId] = { ...theirsOperations[1][nodeId] };
+  getStateConflicts(
+    config,
+    [oursJsonDoc, oursOperations],
+    [theirsJsonDoc, theirsOperations],
+    doubleKeys,
+  ).forEach(([nodeId, key]) => {
+    conflicts.push({ reason: "state", nodeId, key });
+    delete theirsStatePatch[nodeId]![key];
+    if (isObjectEmpty(theirsStatePatch[nodeId]!))
+      delete theirsStatePatch[nodeId];
+  });
+
+  const theirsOrderedOperations = theirsOperations[0].filter(
+    (operation) =>
+      !(operation[0] === 2 && moveConflicts.has(operation[1])) &&
+      !(operation[0] === 3 && typeConflicts.has(operation[2])),
+  );
+  const operations = transformOperations(
+    [theirsOrderedOperations, theirsStatePatch],
+    oursOperations,
+    ours,
+  );
+  return { operations, conflicts };
+}
+
+/** Returns the type and parent id of the nodes of a JsonDoc, by id. */
+function indexJsonDoc(config: DocConfig, jsonDoc: JsonDoc) {
+  const nodes = new Map<string, { type: string; parent: string | undefined }>();
+  const visit = (jsonNode: JsonDoc, parent: string | undefined) => {
+    nodes.set(jsonNode[0], { type: jsonNode[1], parent });
+    jsonNode[3]?.forEach((child) => visit(child, jsonNode[0]));
+  };
+  visit(migrateJsonDoc(config, jsonDoc)[0], undefined);
+  return nodes;
+}
+
+/**
+ * Returns the state keys changed on both sides whose patches don't commute:
+ * applying the patch of theirs to ours doesn't give the same value as
+ * applying the patch of ours to theirs, each rebased over the other.
+ */
+function getStateConflicts(
+  config: DocConfig,
+  [oursJsonDoc, oursOperations]: [JsonDoc, Operations],
+  [theirsJsonDoc, theirsOperations]: [JsonDoc, Operations],
+  keys: [nodeId: string, key: string][],
+) {
+  if (!keys.length) return [];
+  const apply = (
+    jsonDoc: JsonDoc,
+    operations: Operations,
+    otherOperations: Operations,
+  ) => {
+    const doc = fromJSONUnregistered(config, jsonDoc);
+    doc.forceCommit();
+    const statePatch: StatePatch = {};
+    keys.forEach(([nodeId, key]) => {
+      (statePatch[nodeId] ??= {})[key] = operations[1][nodeId]![key]!;
+    });
+    const patchOperations: Operations = operations[2]
+      ? [[], statePatch, operations[2]]
+      : [[], statePatch];
+    doc.applyOperations(
+      transformOperations(patchOperations, [[], otherOperations[1]], doc),
+      { skipUndo: true },
+    );
+    return doc;
+  };
+  const oursDoc = apply(oursJsonDoc, theirsOperations, oursOperations);
+  const theirsDoc = apply(theirsJsonDoc, oursOperations, theirsOperations);
+  const conflicts = keys.filter(([nodeId, key]) => {
+    const oursNode = oursDoc.getNodeById(nodeId)!;
+    const theirsNode = theirsDoc.getNodeById(nodeId)!;
+    return (
+      oursNode.type !== theirsNode.type ||
+      stringifyStateKey(oursNode, key) !== stringifyStateKey(theirsNode, key)
+    );
+  });
+  oursDoc.dispose();
+  theirsDoc.dispose();
+  return conflicts;
+}
+
+function transformDoc(doc: Doc, jsonDoc: JsonDoc, versions: Versions) {
+  const jsonNodes = new Map<string, JsonDoc>();
+  const collect = (jsonNode: JsonDoc) => {
+    jsonNodes.set(jsonNode[0], jsonNode);
+    jsonNode[3]?.forEach(collect);
+  };
+  collect(jsonDoc);
+  const prevNodes: DocNode[] = [];
+  doc.root.descendants().forEach((node) => {
+    prevNodes.push(node);
+  });
+
+  prevNodes.forEach((node) => {
+    const type = jsonNodes.get(node.id)?.[1];
+    if (type !== undefined && type !== node.type)
+      doc["_changeTypeRange"](node, node, type, false);
+  });
+
+  // New nodes are inserted with their new descendants, so that the
+  // insert operations are compact.
+  const createNode = (jsonNode: JsonDoc): DocNode => {
+    const node = doc["_createNodeFromJson"](jsonNode, versions);
+    jsonNode[3]?.forEach((child) => {
+      if (!doc.getNodeById(child[0])) node.append(createNode(child));
+    });
+    return node;
+  };
+  const placeChildren = (parent: DocNode, jsonChildren: JsonDoc[]) => {
+    const stable = getStableChildren(parent, jsonChildren);
+    let prev: DocNode | undefined;
+    // consecutive new nodes are inserted together
+    let newNodes: DocNode[] = [];
+    const insertNewNodes = () => {
+      if (!newNodes.length) return;
+      if (prev) prev.insertAfter(...newNodes);
+      else parent.prepend(...newNodes);
+      prev = newNodes.at(-1);
+      newNodes = [];
+    };
+    jsonChildren.forEach((jsonChild) => {
+      const child = doc.getNodeById(jsonChild[0]);
+      if (!child) {
+        newNodes.push(createNode(jsonChild));
+        return;
+      }
+      insertNewNodes();
+      if (
+        !stable.has(child) &&
+        (child.parent !== parent || child.prev !== prev)
+      ) {
+        if (prev) child.move(prev, "after");
+        else child.move(parent, "prepend");
+      }
+      prev = child;
+    });
+    insertNewNodes();
+    jsonChildren.forEach((jsonChild) => {
+      placeChildren(doc.getNodeById(jsonChild[0])!, jsonChild[3] ?? []);
+    });
+  };
+  placeChildren(doc.root, jsonDoc[3] ?? []);
+
+  prevNodes.forEach((node) => {
+    if (jsonNodes.has(node.id) || doc.getNodeById(node.id) !== node) return;
+    let end = node;
+    while (end.next && !jsonNodes.has(end.next.id)) end = end.next;
+    node.to(end).delete();
+  });
+
+  [doc.root, ...prevNodes].forEach((node) => {
+    const jsonNode = jsonNodes.get(node.id);
+    if (jsonNode) updateState(node, jsonNode, versions);
+  });
+}
+
+/**
+ * Returns the current children of `parent` that don't need to be moved:
+ * the longest subsequence of them that is already in the target order.
+ */
+function getStableChildren(parent: DocNode, jsonChildren: JsonDoc[]) {
+  const targetIndexes = new Map<string, number>();
+  jsonChildren.forEach((jsonChild, index) =>
+    targetIndexes.set(jsonChild[0], index),
+  );
+  const children = getChildren(parent).filter((child) =>
+    targetIndexes.has(child.id),
+  );
+  // Longest increasing subsequence of the target indexes (patience sorting)
+  const tails: number[] = [];
+  const prevIndexes: number[] = [];
+  children.forEach((child, i) => {
+    const targetIndex = targetIndexes.get(child.id)!;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (targetIndexes.get(children[tails[mid]!]!.id)! < targetIndex)
+        low = mid + 1;
+      else high = mid;
+    }
+    prevIndexes[i] = low > 0 ? tails[low - 1]! : -1;
+    tails[low] = i;
+  });
+  const stable = new Set<DocNode>();
+  for (let i = tails.at(-1) ?? -1; i !== -1; i = prevIndexes[i]!)
+    stable.add(children[i]!);
+  return stable;
+}
+
+function updateState(node: DocNode, jsonNode: JsonDoc, versions: Versions) {
+  const { doc } = node;
+  const resolvedNodeDef = doc["_resolvedNodeDefs"].get(node.type)!;
+  const state = (node as DocNode<UnsafeDefinition>)["_state"];
+  const nextState = doc["_createStateFromJson"](jsonNode, versions);
+  const keys = new Set([...Object.keys(state), ...Object.keys(nextState)]);
+  keys.forEach((key) => {
+    const value =
+      key in nextState ? nextState[key] : resolvedNodeDef.defaultState[key];
+    if (stringifyStateValue(node, key, value) === stringifyStateKey(node, key))
+      return;
+    onSetState.inverseOps(node, key);
+    const prevValue = getStateValue(node, key);
+    state[key] = value;
+    onSetState.operations(node, key, prevValue);
+  });
 }
 
 // TODO: decide whether this will be added to the API in node.getChildren().toArray()
@@ -0,0 +1,86 @@
+import { type Doc, type DocNode } from "./main.js";
+import { type Diff, type NodeDefinition } from "./types.js";
+
+/**
+ * A live query of the nodes of a type that match some predicates. It is
+ * immutable: `where` returns a new query.
+ */
+export class Query<T extends NodeDefinition = NodeDefinition> {
+  private readonly _doc: Doc;
+  private readonly _nodeDefinition: T;
+  private readonly _predicates: ((node: DocNode<T>) => boolean)[];
+
+  constructor(
+    doc: Doc,
+    nodeDefinition: T,
+    predicates: ((node: DocNode<T>) => boolean)[] = [],
+  ) {
+    this._doc = doc;
+    this._nodeDefinition = nodeDefinition;
+    this._predicates = predicates;
+  }
+
+  /**
+   * Returns a new query that only includes the nodes for which the predicate
+   * returns true. Predicates should only read the node they receive (its state,
+   * type or position), because subscriptions only re-evaluate them when a node
+   * of the type changes.
+   */
+  where(predicate: (node: DocNode<T>) => boolean): Query<T> {
+    return new Query(this._doc, this._nodeDefinition, [
+      ...this._predicates,
+      predicate,
+    ]);
+  }
+
+  /** Returns the nodes that match the query, in no particular order. */
+  get(): DocNode<T>[] {
+    return this._doc
+      .nodesOfType(this._nodeDefinition)
+      .filter((node) => this._predicates.every((predicate) => predicate(node)));
+  }
+
+  /**
+   * Registers a callback that is called in the change stage of the
+   * transactions that change the result of the query, i.e. when a node
+   * starts or stops matching it.
+   *
+   * @returns A function to unregister the callback.
+   */
+  subscribe(callback: (nodes: DocNode<T>[]) => void): () => void {
+    let result = new Set(this.get());
+    return this._doc.onChange(({ diff }) => {
+      if (!this._isAffected(diff, result)) return;
+      const nodes = this.get();
+      if (
+        nodes.length === result.size &&
+        nodes.every((node) => result.has(node))
+      )
+        return;
+      result = new Set(nodes);
+      callback(nodes);
+    });
+  }
+
+  /**
+   * Returns true if the diff includes a node of the type or a node of the
+   * previous result, so that transactions that don't touch them are skipped
+   * without evaluating the predicates.
+   */
+  private _isAffected(diff: Diff, result: Set<DocNode>) {
+    const { type } = this._nodeDefinition;
+    for (const node of diff.deleted.values()) {
+      if (result.has(node)) return true;
+    }
+    const ids = [
+      ...diff.inserted,
+      ...diff.moved,
+      ...diff.updated,
+      ...diff.typeChanged,
+    ];
+    return ids.some((id) => {
+      const node = this._doc.getNodeById(id);
+      return node && (node.type === type || result.has(node));
+    });
+  }
+}
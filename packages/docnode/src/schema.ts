@@ -0,0 +1,197 @@
+import { type Doc, type DocNode } from "./main.js";
+import {
+  type NodeDefinition,
+  type NodeSchema,
+  type SchemaViolation,
+} from "./types.js";
+
+/**
+ * Merges the schemas of the node definitions of the same type. Allowed and
+ * required types are joined, and the lowest `maxChildren` wins. An omitted
+ * list means that the node definition has no opinion about it.
+ */
+export function mergeSchemas(
+  schema: NodeSchema,
+  nodeDefinition: NodeDefinition,
+): NodeSchema {
+  const merged = { ...schema };
+  const other = nodeDefinition.schema ?? {};
+  const lists = [
+    "allowedChildren",
+    "requiredChildren",
+    "allowedParents",
+  ] as const;
+  for (const key of lists) {
+    const list = other[key];
+    if (!list) continue;
+    merged[key] = [...new Set([...(merged[key] ?? []), ...list])];
+  }
+  if (other.maxChildren !== undefined)
+    merged.maxChildren = Math.min(
+      other.maxChildren,
+      merged.maxChildren ?? Infinity,
+    );
+  return merged;
+}
+
+const getSchema = (node: DocNode) =>
+  node.doc["_resolvedNodeDefs"].get(node.type)!.schema;
+
+const getChildren = (node: DocNode) => {
+  const children: DocNode[] = [];
+  node.children().forEach((child) => children.push(child));
+  return children;
+};
+
+/** Returns the constraint violated by `node` being a child of `parent`, if any. */
+function checkPlacement(parent: DocNode, node: DocNode) {
+  const { allowedChildren } = getSchema(parent);
+  if (allowedChildren && !allowedChildren.includes(node.type))
+    return "allowedChildren";
+  const { allowedParents } = getSchema(node);
+  if (allowedParents && !allowedParents.includes(parent.type))
+    return "allowedParents";
+  return undefined;
+}
+
+/**
+ * Throws if inserting or moving `nodes` into `parent` would violate the
+ * schema. Required children are not checked here, since a node is usually
+ * inserted before its children. They are repaired in the normalize phase.
+ */
+export function assertCanInsert(parent: DocNode, nodes: DocNode[]) {
+  nodes.forEach((node) => {
+    const constraint = checkPlacement(parent, node);
+    if (constraint === "allowedChildren")
+      throw new Error(
+        `A node of type '${node.type}' is not allowed as a child of a node of type '${parent.type}'.`,
+      );
+    if (constraint === "allowedParents")
+      throw new Error(
+        `A node of type '${node.type}' is not allowed to have a parent of type '${parent.type}'.`,
+      );
+  });
+  const { maxChildren } = getSchema(parent);
+  if (maxChildren === undefined) return;
+  let count = nodes.length;
+  parent.children().forEach((child) => {
+    if (!nodes.includes(child)) count++;
+  });
+  if (count > maxChildren)
+    throw new Error(
+      `A node of type '${parent.type}' can't have more than ${maxChildren} children.`,
+    );
+}
+
+/**
+ * Throws if the node, with its current type, doesn't fit in its parent
+ * or with its children.
+ */
+export function assertValidType(node: DocNode) {
+  if (node.parent) assertCanInsert(node.parent, [node]);
+  assertCanInsert(node, getChildren(node));
+}
+
+/**
+ * Returns the schema violations of the nodes that were inserted, moved,
+ * deleted or whose type changed during the transaction.
+ */
+export function findViolations(doc: Doc): SchemaViolation[] {
+  const diff = doc["_diff"];
+  const isAttached = (node: DocNode) => doc.getNodeById(node.id) === node;
+  const placed = new Set<DocNode>();
+  const parents = new Set<DocNode>();
+  const addPlaced = (node: DocNode | undefined) => {
+    if (!node || !isAttached(node)) return;
+    placed.add(node);
+    if (node.parent) parents.add(node.parent);
+  };
+  diff.inserted.forEach((id) => {
+    const node = doc.getNodeById(id);
+    addPlaced(node);
+    // inserted nodes may lack required children
+    if (node) parents.add(node);
+  });
+  diff.moved.forEach((id) => addPlaced(doc.getNodeById(id)));
+  diff.typeChanged.forEach((id) => {
+    const node = doc.getNodeById(id);
+    addPlaced(node);
+    if (!node) return;
+    parents.add(node);
+    node.children().forEach(addPlaced);
+  });
+  diff.deleted.forEach((node) => {
+    if (node.parent && isAttached(node.parent)) parents.add(node.parent);
+  });
+
+  const violations: SchemaViolation[] = [];
+  const invalid = new Set<DocNode>();
+  placed.forEach((node) => {
+    const constraint = checkPlacement(node.parent!, node);
+    if (!constraint) return;
+    invalid.add(node);
+    violations.push({
+      constraint,
+      parentId: node.parent!.id,
+      nodeId: node.id,
+      type: node.type,
+    });
+  });
+  parents.forEach((parent) => {
+    const { maxChildren, requiredChildren } = getSchema(parent);
+    const children = getChildren(parent).filter((child) => !invalid.has(child));
+    if (maxChildren !== undefined)
+      children.splice(maxChildren).forEach((child) => {
+        violations.push({
+          constraint: "maxChildren",
+          parentId: parent.id,
+          nodeId: child.id,
+          type: child.type,
+        });
+      });
+    requiredChildren?.forEach((type) => {
+      if (children.some((child) => child.type === type)) return;
+      violations.push({
+        constraint: "requiredChildren",
+        parentId: parent.id,
+        type,
+      });
+    });
+  });
+  return violations;
+}
+
+const MAX_REPAIR_PASSES = 100;
+
+/**
+ * Deletes the nodes that violate the schema and appends the missing
+ * required children, until there are no violations left (appended
+ * children may have required children too). Returns the violations.
+ */
+export function repairViolations(doc: Doc): SchemaViolation[] {
+  const allViolations: SchemaViolation[] = [];
+  for (let pass = 0; ; pass++) {
+    const violations = findViolations(doc);
+    if (violations.length === 0) return allViolations;
+    if (pass === MAX_REPAIR_PASSES)
+      throw new Error(
+        "The schema repairs don't converge. Check for cycles in requiredChildren.",
+      );
+    repair(doc, violations);
+    allViolations.push(...violations);
+  }
+}
+
+function repair(doc: Doc, violations: SchemaViolation[]) {
+  violations.forEach((violation) => {
+    if (violation.nodeId) {
+      doc.getNodeById(violation.nodeId)?.delete();
+      return;
+    }
+    const parent = doc.getNodeById(violation.parentId);
+    const nodeDefinition = [...doc["_nodeDefs"]].find(
+      (nodeDef) => nodeDef.type === violation.type,
+    );
+    if (parent && nodeDefinition) parent.append(doc.createNode(nodeDefinition));
+  });
+}
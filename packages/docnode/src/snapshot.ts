@@ -0,0 +1,111 @@
+import { type Doc, type DocNode } from "./main.js";
+import { getStateValue } from "./operations.js";
+import { type NodeSnapshot } from "./types.js";
+
+/**
+ * The snapshots built for a doc, so that the nodes that didn't change can
+ * reuse their previous snapshot.
+ */
+export type SnapshotCache = {
+  root: NodeSnapshot;
+  nodes: Map<string, NodeSnapshot>;
+  /** The parent id of every node when its parent's snapshot was built. */
+  parents: Map<string, string>;
+  /**
+   * True if it was built during an active transaction, which could still be
+   * aborted, so it can't be reused when the transaction is committed.
+   */
+  isUncommitted: boolean;
+};
+
+export const getSnapshot = (doc: Doc): NodeSnapshot => {
+  if (!doc["_snapshotCache"]) {
+    const stage = doc["_lifeCycleStage"];
+    doc["_snapshotCache"] = createCache(
+      doc,
+      stage !== "idle" && stage !== "change" && stage !== "disposed",
+    );
+  }
+  return doc["_snapshotCache"].root;
+};
+
+/**
+ * Rebuilds the snapshots of the nodes whose state, type or children changed in
+ * the transaction and of their ancestors (both the current and the previous
+ * ones), reusing the rest.
+ * Called at the beginning of the change stage.
+ */
+export const updateSnapshot = (doc: Doc) => {
+  const cache = doc["_snapshotCache"]!;
+  if (cache.isUncommitted) {
+    doc["_snapshotCache"] = createCache(doc, false);
+    return;
+  }
+  const { inserted, deleted, moved, updatedKeys, typeChanged } = doc["_diff"];
+  const stateChanged = new Set(typeChanged);
+  updatedKeys.forEach((keys, id) => {
+    if (keys.size) stateChanged.add(id);
+  });
+  const dirty = new Set<string>();
+  const markParentsDirty = (id: string) => {
+    markDirty(cache.parents.get(id));
+    markDirty(doc.getNodeById(id)?.parent?.id);
+  };
+  const markDirty = (id: string | undefined) => {
+    if (id === undefined || dirty.has(id)) return;
+    dirty.add(id);
+    markParentsDirty(id);
+  };
+  stateChanged.forEach(markDirty);
+  // The nodes themselves don't change, but the children of their parents do
+  [...inserted, ...deleted.keys(), ...moved].forEach(markParentsDirty);
+  deleted.forEach((_, id) => {
+    cache.nodes.delete(id);
+    cache.parents.delete(id);
+  });
+  cache.root = buildSnapshot(doc.root, cache, dirty, stateChanged);
+};
+
+const createCache = (doc: Doc, isUncommitted: boolean): SnapshotCache => {
+  const cache: SnapshotCache = {
+    root: undefined as unknown as NodeSnapshot,
+    nodes: new Map(),
+    parents: new Map(),
+    isUncommitted,
+  };
+  cache.root = buildSnapshot(doc.root, cache, new Set(), new Set());
+  return cache;
+};
+
+const buildSnapshot = (
+  node: DocNode,
+  cache: SnapshotCache,
+  dirty: Set<string>,
+  stateChanged: Set<string>,
+): NodeSnapshot => {
+  const cached = cache.nodes.get(node.id);
+  if (cached && !dirty.has(node.id)) return cached;
+  const children: NodeSnapshot[] = [];
+  node.children().forEach((child) => {
+    children.push(buildSnapshot(child, cache, dirty, stateChanged));
+    cache.parents.set(child.id, node.id);
+  });
+  const snapshot: NodeSnapshot = Object.freeze({
+    id: node.id,
+    type: node.type,
+    state:
+      cached && !stateChanged.has(node.id) ? cached.state : buildState(node),
+    children: Object.freeze(children),
+  });
+  cache.nodes.set(node.id, snapshot);
+  return snapshot;
+};
+
+const buildState = (node: DocNode): NodeSnapshot["state"] => {
+  const state: Record<string, unknown> = {};
+  const resolvedNodeDef = node.doc["_resolvedNodeDefs"].get(node.type);
+  for (const key in resolvedNodeDef?.state) {
+    state[key] = getStateValue(node, key);
+  }
+  return Object.freeze(state) as NodeSnapshot["state"];
+};
@@ -1,8 +1,14 @@
+import * as v from "valibot";
+import type { Doc, DocNode } from "./main.js";
 import {
+  type DocConfig,
   type StateDefinition,
+  type StateDelta,
   type DefaultStateMethods,
   type Json,
   type DefaultJ,
+  type NodeDefinition,
+  type SchemaStateOptions,
 } from "./types.js";
 
 export const string = (defaultValue: string) =>
@@ -21,6 +27,620 @@ export const boolean = (defaultValue: boolean) =>
     toJSON: (value) => (!value ? 0 : 1),
   });
 
+/**
+ * A state whose JSON is validated with a Valibot schema, and whose value is
+ * the output of the schema. The output should be JSON serializable; if it is
+ * not, use `defineState` with a `toJSON`. What happens with JSON that doesn't
+ * match the schema depends on `options.onInvalid` (see `OnInvalidState`).
+ */
+export const fromSchema = <S extends v.GenericSchema>(
+  schema: S,
+  defaultValue: v.InferOutput<S>,
+  options?: SchemaStateOptions,
+) => defineState({ fromJSON: parseWith(schema, defaultValue, options) });
+
+/** One of the given strings or numbers. */
+export const enumOf = <const T extends readonly (string | number)[]>(
+  values: T,
+  defaultValue: T[number],
+  options?: SchemaStateOptions,
+) =>
+  defineState({
+    fromJSON: parseWith(v.picklist(values), defaultValue, options),
+  });
+
+/** A `Date`, stored as an ISO 8601 string. */
+export const date = (defaultValue: Date, options?: SchemaStateOptions) =>
+  defineState({
+    fromJSON: parseWith(
+      v.pipe(
+        v.string(),
+        v.isoTimestamp(),
+        v.transform((json) => new Date(json)),
+      ),
+      defaultValue,
+      options,
+    ),
+    toJSON: (value: Date) => value.toISOString(),
+    methods: ({ get, set, getPrev, subscribe }) => ({
+      get: get as () => Date,
+      set,
+      getPrev: getPrev as () => [changed: boolean, value: Date],
+      subscribe: subscribe as (callback: (value: Date) => void) => () => void,
+    }),
+  });
+
+/**
+ * An object with the given Valibot entries, e.g.
+ * `object({ x: v.number(), y: v.number() }, { x: 0, y: 0 })`. Like any other
+ * state, it is replaced as a whole. For objects whose entries should be
+ * merged independently, use `map`.
+ */
+export const object = <E extends v.ObjectEntries>(
+  entries: E,
+  defaultValue: v.InferOutput<v.ObjectSchema<E, undefined>>,
+  options?: SchemaStateOptions,
+) =>
+  defineState({
+    fromJSON: parseWith(v.object(entries), defaultValue, options),
+  });
+
+/**
+ * An array whose items match the given Valibot schema. If any item is
+ * invalid, the whole array is. Like any other state, it is replaced as a
+ * whole. For arrays whose items should be merged independently, use `list`.
+ */
+export const array = <S extends v.GenericSchema>(
+  item: S,
+  defaultValue: v.InferOutput<S>[] = [],
+  options?: SchemaStateOptions,
+) => defineState({ fromJSON: parseWith(v.array(item), defaultValue, options) });
+
+/**
+ * The setters that take the delta of the change along with the value, by the
+ * `set` method of each state. The delta is not part of the public `set`,
+ * since a delta that doesn't match the value makes the peers diverge, so only
+ * the methods of `text` and `list` use it.
+ */
+export const deltaSetters = new WeakMap<
+  object,
+  (value: unknown, delta: Json) => void
+>();
+
+const setWithDelta = <V>(
+  methods: DefaultStateMethods<V>,
+  value: V | ((prev: V) => V),
+  delta: Json,
+) => deltaSetters.get(methods.set)!(value, delta);
+
+/**
+ * Like `string`, but concurrent updates are merged character by character
+ * instead of the last writer winning. Besides the default methods, it has
+ * `insert` and `delete` methods.
+ */
+export const text = (defaultValue = "") =>
+  defineState({
+    fromJSON: (json) => (typeof json === "string" ? json : defaultValue),
+    delta: textDelta,
+    // The deltas are built from the index instead of diffing the values,
+    // which can't tell where the change was made in repeated characters.
+    methods: (methods) => ({
+      ...methods,
+      insert: (index: number, value: string) => {
+        const prev = methods.get();
+        index = clamp(index, prev.length);
+        if (!value) return;
+        setWithDelta(
+          methods,
+          prev.slice(0, index) + value + prev.slice(index),
+          index ? [index, value] : [value],
+        );
+      },
+      delete: (index: number, length: number) => {
+        const prev = methods.get();
+        index = clamp(index, prev.length);
+        length = clamp(length, prev.length - index);
+        if (!length) return;
+        setWithDelta(
+          methods,
+          prev.slice(0, index) + prev.slice(index + length),
+          index ? [index, -length] : [-length],
+        );
+      },
+    }),
+  });
+
+/**
+ * An object whose entries are merged independently: concurrent updates to
+ * different keys are all kept, and only concurrent updates to the same key
+ * are resolved by the last writer. Besides the default methods, it has
+ * `setKey` and `deleteKey` methods.
+ */
+export const map = <V extends Json = Json>(
+  defaultValue: Record<string, V> = {},
+) =>
+  defineState({
+    fromJSON: (json) =>
+      isObject(json) ? (json as Record<string, V>) : defaultValue,
+    // keys are sorted so that peers that merged the same entries in a
+    // different order serialize the same value
+    toJSON: (value) =>
+      Object.fromEntries(
+        Object.entries(value).sort(([a], [b]) => compare(a, b)),
+      ),
+    delta: mapDelta<V>(),
+    methods: (methods) => ({
+      ...methods,
+      setKey: (key: string, value: V) =>
+        methods.set((prev) => ({ ...prev, [key]: value })),
+      deleteKey: (key: string) => methods.set(({ [key]: _, ...prev }) => prev),
+    }),
+  });
+
+/**
+ * A set of strings or numbers. Concurrent additions and deletions of
+ * different values are all kept. In the JSON of the node, it is stored as a
+ * sorted array. Besides the default methods, it has `add` and `delete`
+ * methods.
+ */
+export const set = <T extends string | number = string>(
+  defaultValue: Iterable<T> = [],
+) =>
+  defineState({
+    fromJSON: (json) =>
+      new Set(
+        Array.isArray(json)
+          ? (json as unknown[]).filter(
+              (value): value is T =>
+                typeof value === "string" || typeof value === "number",
+            )
+          : defaultValue,
+      ),
+    toJSON: (value) => [...value].sort(compare),
+    delta: setDelta<T>(),
+    methods: (methods) => ({
+      ...methods,
+      add: (value: T) => methods.set((prev) => new Set(prev).add(value)),
+      delete: (value: T) =>
+        methods.set((prev) => {
+          const next = new Set(prev);
+          next.delete(value);
+          return next;
+        }),
+    }),
+  });
+
+/**
+ * Like `text`, but for arrays: concurrent insertions and deletions are merged
+ * item by item instead of the last writer winning. Besides the default
+ * methods, it has `insert`, `delete` and `push` methods.
+ */
+export const list = <T extends Json = Json>(defaultValue: T[] = []) =>
+  defineState({
+    fromJSON: (json) => (Array.isArray(json) ? (json as T[]) : defaultValue),
+    delta: listDelta<T>(),
+    // Like in `text`, the deltas are built from the index.
+    methods: (methods) => {
+      const insert = (index: number, ...items: T[]) => {
+        index = clamp(index, methods.get().length);
+        if (!items.length) return;
+        setWithDelta(
+          methods,
+          (prev) => [...prev.slice(0, index), ...items, ...prev.slice(index)],
+          index ? [index, items] : [items],
+        );
+      };
+      return {
+        ...methods,
+        insert,
+        delete: (index: number, length: number) => {
+          const prevLength = methods.get().length;
+          index = clamp(index, prevLength);
+          length = clamp(length, prevLength - index);
+          if (!length) return;
+          setWithDelta(
+            methods,
+            (prev) => [...prev.slice(0, index), ...prev.slice(index + length)],
+            index ? [index, -length] : [-length],
+          );
+        },
+        push: (...items: T[]) => insert(methods.get().length, ...items),
+      };
+    },
+  });
+
+/**
+ * A number that is only changed by adding to it, like votes or likes.
+ * Unlike `number`, concurrent updates are added up instead of the last
+ * writer winning. Besides the default methods, it has `increment` and
+ * `decrement` methods, which default to a step of 1.
+ */
+export const counter = (defaultValue = 0) =>
+  defineState({
+    fromJSON: (json) => (typeof json === "number" ? json : defaultValue),
+    delta: counterDelta,
+    methods: (methods) => ({
+      ...methods,
+      increment: (step = 1) => methods.set((prev) => prev + step),
+      decrement: (step = 1) => methods.set((prev) => prev - step),
+    }),
+  });
+
+/**
+ * The value of a `subDoc` state parsed from JSON. The doc of the node
+ * resolves it when the state is set, to the subdocument with that id if it
+ * is registered, or else to a new one, so that parsing the state (e.g. to
+ * compare it) doesn't create documents.
+ */
+export class SubDocRef {
+  constructor(
+    readonly id: string,
+    readonly config: DocConfig,
+  ) {}
+}
+
+/**
+ * A reference to another document (a subdocument), which can be loaded and
+ * synced independently. In the JSON of the node, it is stored as the id of
+ * the subdocument. When parsed, an empty document with that id is created
+ * with the given config, unless the parent doc already has it registered.
+ *
+ * The reference can't be changed once set.
+ */
+export const subDoc = (config: DocConfig) =>
+  defineState({
+    fromJSON: (json): Doc | SubDocRef | undefined =>
+      typeof json === "string" ? new SubDocRef(json, config) : undefined,
+    toJSON: (value) =>
+      value instanceof SubDocRef ? value.id : (value?.root.id ?? null),
+    methods: ({ get, set, getPrev, subscribe }) => ({
+      get: get as () => Doc | undefined,
+      set: set as (value: Doc) => void,
+      getPrev: getPrev as () => [changed: boolean, value: Doc | undefined],
+      subscribe: subscribe as (
+        callback: (value: Doc | undefined) => void,
+      ) => () => void,
+    }),
+  });
+
+/** The state definitions created by `ref`. */
+export const refStates = new WeakSet<object>();
+
+/**
+ * A reference to another node of the doc, stored as its id. `get` resolves
+ * it to the node, or to undefined if the node is not in the doc or is not of
+ * the type of `nodeDefinition`. Deleting the node clears the reference in
+ * the same transaction, so undoing the deletion restores it. References can
+ * still dangle, e.g. if they were set concurrently with the deletion by
+ * another client, and `isBroken` tells them apart from empty ones.
+ *
+ * The referenced node can find the nodes that point to it with
+ * `node.referencedBy()`, and the id is remapped by `doc.importSubtree`.
+ */
+export const ref = <D extends NodeDefinition = NodeDefinition>(
+  nodeDefinition?: D,
+) => {
+  const stateDefinition = defineState({
+    fromJSON: (json) => (typeof json === "string" ? json : undefined),
+    toJSON: (value) => value ?? null,
+    remapIds: (value, remap) => (value === undefined ? value : remap(value)),
+    methods: ({ get, set, getPrev, subscribe }, node) => {
+      const resolve = (id: string | undefined) => {
+        const target = id === undefined ? undefined : node.doc.getNodeById(id);
+        if (!target || (nodeDefinition && target.type !== nodeDefinition.type))
+          return undefined;
+        return target as DocNode<D>;
+      };
+      return {
+        get: () => resolve(get()),
+        getPrev: (): [changed: boolean, value: DocNode<D> | undefined] => {
+          const [changed, id] = getPrev();
+          return [changed, resolve(id)];
+        },
+        /** @throws If the node is from another doc or of another type. */
+        set: (target: DocNode<D> | undefined) => {
+          if (target && target.doc !== node.doc)
+            throw new Error("Node is from a different doc");
+          if (target && nodeDefinition && target.type !== nodeDefinition.type)
+            throw new Error(
+              `Expected a node of type '${nodeDefinition.type}', but got '${target.type}'`,
+            );
+          set(target?.id);
+        },
+        subscribe: (callback: (value: DocNode<D> | undefined) => void) =>
+          subscribe((id) => callback(resolve(id))),
+        /** Returns the id of the referenced node, even if it can't be resolved. */
+        getId: get,
+        /** Returns true if there is an id, but it can't be resolved to a node. */
+        isBroken: () => get() !== undefined && !resolve(get()),
+      };
+    },
+  });
+  refStates.add(stateDefinition);
+  return stateDefinition;
+};
+
+/**
+ * Steps applied from the start of the string: a positive number retains
+ * that many characters, a negative number deletes that many characters
+ * and a string is inserted.
+ */
+type TextDelta = (number | string)[];
+
+const isHighSurrogate = (code: number) => code >= 0xd800 && code <= 0xdbff;
+const isLowSurrogate = (code: number) => code >= 0xdc00 && code <= 0xdfff;
+
+const textDelta: StateDelta<string, TextDelta> = {
+  diff: (prev, next) => {
+    if (prev === next) return undefined;
+    const minLength = Math.min(prev.length, next.length);
+    let start = 0;
+    while (start < minLength && prev[start] === next[start]) start++;
+    // don't split surrogate pairs
+    if (start > 0 && isHighSurrogate(prev.charCodeAt(start - 1))) start--;
+    let end = 0;
+    while (
+      end < minLength - start &&
+      prev[prev.length - 1 - end] === next[next.length - 1 - end]
+    )
+      end++;
+    if (end > 0 && isLowSurrogate(prev.charCodeAt(prev.length - end))) end--;
+    const delta: TextDelta = [];
+    if (start) delta.push(start);
+    const deleted = prev.length - start - end;
+    if (deleted) delta.push(-deleted);
+    const inserted = next.slice(start, next.length - end);
+    if (inserted) delta.push(inserted);
+    return delta;
+  },
+  // Retains and deletes beyond the end of the value are clamped, so a delta
+  // can always be applied even if the value was changed concurrently.
+  apply: (value, delta) => {
+    let result = "";
+    let index = 0;
+    for (const step of delta) {
+      if (typeof step === "string") result += step;
+      else if (step > 0) {
+        result += value.slice(index, index + step);
+        index += step;
+      } else index -= step;
+    }
+    return result + value.slice(index);
+  },
+  invert: (delta, value) => {
+    const inverse: TextDelta = [];
+    let index = 0;
+    for (const step of delta) {
+      if (typeof step === "string") inverse.push(-step.length);
+      else if (step > 0) {
+        inverse.push(step);
+        index += step;
+      } else {
+        inverse.push(value.slice(index, index - step));
+        index -= step;
+      }
+    }
+    return inverse;
+  },
+  transform: (delta, over) => transformSequence(delta, over),
+};
+
+/**
+ * Rebases a text or list delta over a concurrent one. Text deleted by
+ * `over` is no longer retained or deleted, and text inserted by `over` is
+ * retained. When both insert at the same position, the insert that sorts
+ * first goes first, so the result doesn't depend on which delta is rebased.
+ */
+function transformSequence<I extends string | Json[]>(
+  delta: (number | I)[],
+  over: (number | I)[],
+) {
+  const result: (number | I)[] = [];
+  const push = (step: number | I) => {
+    const last = result.at(-1);
+    if (
+      typeof step === "number" &&
+      typeof last === "number" &&
+      Math.sign(step) === Math.sign(last)
+    )
+      result[result.length - 1] = last + step;
+    else result.push(step);
+  };
+  const steps = [...delta];
+  const overSteps = [...over];
+  while (steps.length) {
+    const step = steps[0]!;
+    const overStep = overSteps[0];
+    if (typeof step === "number" && typeof overStep === "number") {
+      const length = Math.min(Math.abs(step), Math.abs(overStep));
+      // what `over` deleted is neither retained nor deleted again
+      if (overStep > 0) push(Math.sign(step) * length);
+      const rest = step - Math.sign(step) * length;
+      const overRest = overStep - Math.sign(overStep) * length;
+      if (rest) steps[0] = rest;
+      else steps.shift();
+      if (overRest) overSteps[0] = overRest;
+      else overSteps.shift();
+    } else if (
+      overStep === undefined ||
+      (typeof step !== "number" &&
+        (typeof overStep === "number" ||
+          JSON.stringify(step) < JSON.stringify(overStep)))
+    ) {
+      push(step);
+      steps.shift();
+    } else {
+      push((overStep as I).length);
+      overSteps.shift();
+    }
+  }
+  // trailing retains are implicit
+  let last = result.at(-1);
+  while (typeof last === "number" && last > 0) {
+    result.pop();
+    last = result.at(-1);
+  }
+  return result;
+}
+
+/** Returns `value` clamped between 0 and `max`. */
+const clamp = (value: number, max: number) => Math.max(0, Math.min(value, max));
+
+const isObject = (json: unknown): json is Record<string, Json> =>
+  typeof json === "object" && json !== null && !Array.isArray(json);
+
+/** Orders numbers before strings, and both by value. */
+const compare = (a: string | number, b: string | number) =>
+  typeof a !== typeof b
+    ? typeof a === "number"
+      ? -1
+      : 1
+    : a < b
+      ? -1
+      : a > b
+        ? 1
+        : 0;
+
+/** Returns a `fromJSON` that parses the JSON with the schema. */
+function parseWith<S extends v.GenericSchema>(
+  schema: S,
+  defaultValue: v.InferOutput<S>,
+  { onInvalid = "default" }: SchemaStateOptions = {},
+) {
+  return (json: unknown): v.InferOutput<S> => {
+    if (json === undefined) return defaultValue;
+    const result = v.safeParse(schema, json);
+    if (result.success) return result.output;
+    if (onInvalid === "throw") throw new Error(v.summarize(result.issues));
+    if (onInvalid !== "default") onInvalid(result.issues, json);
+    return defaultValue;
+  };
+}
+
+const isEqual = (a: Json | undefined, b: Json | undefined) =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Entries to set or delete. An entry with a single element (the key)
+ * deletes the key.
+ */
+type MapDelta<V extends Json> = ([key: string, value: V] | [key: string])[];
+
+const mapDelta = <V extends Json>(): StateDelta<
+  Record<string, V>,
+  MapDelta<V>
+> => ({
+  diff: (prev, next) => {
+    const delta: MapDelta<V> = [];
+    for (const key in prev) if (!Object.hasOwn(next, key)) delta.push([key]);
+    for (const key in next)
+      if (!Object.hasOwn(prev, key) || !isEqual(prev[key], next[key]))
+        delta.push([key, next[key]!]);
+    return delta.length ? delta : undefined;
+  },
+  apply: (value, delta) => {
+    const result = { ...value };
+    for (const [key, ...entry] of delta) {
+      if (entry.length) result[key] = entry[0];
+      else delete result[key];
+    }
+    return result;
+  },
+  invert: (delta, value) =>
+    delta.map(([key]) =>
+      Object.hasOwn(value, key) ? [key, value[key]!] : [key],
+    ),
+});
+
+/** Values to add and values to delete. */
+type SetDelta<T extends string | number> = [added: T[], deleted: T[]];
+
+const setDelta = <T extends string | number>(): StateDelta<
+  Set<T>,
+  SetDelta<T>
+> => ({
+  diff: (prev, next) => {
+    const added = [...next].filter((value) => !prev.has(value));
+    const deleted = [...prev].filter((value) => !next.has(value));
+    return added.length || deleted.length ? [added, deleted] : undefined;
+  },
+  apply: (value, [added, deleted]) => {
+    const result = new Set(value);
+    added.forEach((item) => result.add(item));
+    deleted.forEach((item) => result.delete(item));
+    return result;
+  },
+  invert: ([added, deleted], value) => [
+    deleted.filter((item) => value.has(item)),
+    added.filter((item) => !value.has(item)),
+  ],
+});
+
+/**
+ * Like {@link TextDelta}, but an array of items is inserted instead of a
+ * string.
+ */
+type ListDelta<T extends Json> = (number | T[])[];
+
+const listDelta = <T extends Json>(): StateDelta<T[], ListDelta<T>> => ({
+  diff: (prev, next) => {
+    const minLength = Math.min(prev.length, next.length);
+    let start = 0;
+    while (start < minLength && isEqual(prev[start], next[start])) start++;
+    let end = 0;
+    while (
+      end < minLength - start &&
+      isEqual(prev[prev.length - 1 - end], next[next.length - 1 - end])
+    )
+      end++;
+    const delta: ListDelta<T> = [];
+    if (start) delta.push(start);
+    const deleted = prev.length - start - end;
+    if (deleted) delta.push(-deleted);
+    const inserted = next.slice(start, next.length - end);
+    if (inserted.length) delta.push(inserted);
+    return delta.length ? delta : undefined;
+  },
+  // Like in the text delta, retains and deletes beyond the end are clamped.
+  apply: (value, delta) => {
+    const result: T[] = [];
+    let index = 0;
+    for (const step of delta) {
+      if (Array.isArray(step)) result.push(...step);
+      else if (step > 0) {
+        result.push(...value.slice(index, index + step));
+        index += step;
+      } else index -= step;
+    }
+    return [...result, ...value.slice(index)];
+  },
+  invert: (delta, value) => {
+    const inverse: ListDelta<T> = [];
+    let index = 0;
+    for (const step of delta) {
+      if (Array.isArray(step)) inverse.push(-step.length);
+      else if (step > 0) {
+        inverse.push(step);
+        index += step;
+      } else {
+        inverse.push(value.slice(index, index - step));
+        index -= step;
+      }
+    }
+    return inverse;
+  },
+  transform: (delta, over) => transformSequence(delta, over),
+});
+
+/** The amount added to the value. */
+type CounterDelta = number;
+
+const counterDelta: StateDelta<number, CounterDelta> = {
+  diff: (prev, next) => (prev === next ? undefined : next - prev),
+  apply: (value, delta) => value + delta,
+  invert: (delta) => -delta,
+};
+
 /**
  * **Important**: Due to {@link https://www.totaltypescript.com/property-order-matters a limitation in TypeScript},
  * The order of the properties in this function's parameter matters. **`fromJSON`
@@ -52,13 +672,25 @@ export const boolean = (defaultValue: boolean) =>
  * @param definition.methods - This is optional and for advanced use cases only.
  * Optional function to extend the default state methods with custom functionality.
  * Returns an object that typically spreads the default methods and adds custom ones.
- * The default methods are: `get`, `getPrev`, `set`.
+ * The default methods are: `get`, `getPrev`, `set`, `subscribe`.
  * - `get` returns the current value of the state property. You should not mutate the value directly.
  * - `getPrev` returns should be used only inside transactions (`doc.update` or `doc.onNormalize`). It
  * returns the value of the state property the node had at the beginning of the transaction.
  * You should not mutate the value directly.
  * - `set` sets the value of the state property. You can either set it directly or use an updater function.
  * Example: `node.state.foo.set(value)` or `node.state.foo.set((current) => current + 1)`.
+ * - `subscribe` registers a callback that is called with the new value when the state property changes.
+ *
+ * The second argument is the node the methods belong to.
+ *
+ * @param definition.delta - This is optional and for advanced use cases only.
+ * If defined, updates are sent in the operations as deltas (see {@link StateDelta}) so
+ * that concurrent updates to the same state are merged instead of the last writer winning.
+ *
+ * @param definition.remapIds - This is optional and for advanced use cases only.
+ * If the value references other nodes by id, it should return the value with
+ * the ids replaced by `remap(id)`. It is called when the nodes of a subtree
+ * receive new ids in `doc.importSubtree`.
  *
  *
  *
@@ -72,7 +704,7 @@ export const boolean = (defaultValue: boolean) =>
  *     increment: () => defaultMethods.set(prev => prev + 1)
  *   })
  * });
- * // Type of counterState.methods is inferred as { get, getPrev, set, increment }
+ * // Type of counterState.methods is inferred as { get, getPrev, set, subscribe, increment }
  * ```
  */
 
@@ -80,24 +712,32 @@ export const boolean = (defaultValue: boolean) =>
 export function defineState<V, J extends Json, M>(definition: {
   fromJSON: (json: unknown) => V;
   toJSON: (value: V) => J;
-  methods: (methods: DefaultStateMethods<V>) => M;
+  delta?: StateDelta<V>;
+  remapIds?: (value: V, remap: (id: string) => string) => V;
+  methods: (methods: DefaultStateMethods<V>, node: DocNode) => M;
 }): StateDefinition<V, J, M>;
 
 // Overload: toJSON provided, methods omitted
 export function defineState<V, J extends Json>(definition: {
   fromJSON: (json: unknown) => V;
   toJSON: (value: V) => J;
+  delta?: StateDelta<V>;
+  remapIds?: (value: V, remap: (id: string) => string) => V;
 }): StateDefinition<V, J, DefaultStateMethods<V>>;
 
 // Overload: toJSON omitted, methods provided
 export function defineState<V, M>(definition: {
   fromJSON: (json: unknown) => V;
-  methods: (methods: DefaultStateMethods<V>) => M;
+  delta?: StateDelta<V>;
+  remapIds?: (value: V, remap: (id: string) => string) => V;
+  methods: (methods: DefaultStateMethods<V>, node: DocNode) => M;
 }): StateDefinition<V, DefaultJ<V>, M>;
 
 // Overload: toJSON omitted, methods omitted
 export function defineState<V>(definition: {
   fromJSON: (json: unknown) => V;
+  delta?: StateDelta<V>;
+  remapIds?: (value: V, remap: (id: string) => string) => V;
 }): StateDefinition<V, DefaultJ<V>, DefaultStateMethods<V>>;
 
 // Implementation
@@ -1,5 +1,6 @@
 import { type Doc, type DocNode } from "./main.js";
-import type { Operations } from "./operations.js";
+import type { Operations, OrderedOperation } from "./operations.js";
+import type { GenericIssue } from "valibot";
 
 // For convention, we are not goint to uppercase all letters in Json (JSON),
 // except in fromJSON and toJSON functions (for compatibility with the web standard).
@@ -58,14 +59,86 @@ export type StateDefinition<
    * if the `fromJSON` can return a non-JSON serializable value.
    */
   toJSON?(value: V): J;
-  methods?(methods: DefaultStateMethods<V>): M;
+  /**
+   * Extends the default methods of the state. It also receives the node,
+   * e.g. to resolve a value against its doc.
+   */
+  methods?(methods: DefaultStateMethods<V>, node: DocNode): M;
+  /**
+   * This is optional and for advanced use cases only.
+   * If defined, updates to attached nodes are sent in the operations as
+   * deltas instead of whole values, so that concurrent updates to the same
+   * state are merged instead of the last writer winning.
+   */
+  delta?: StateDelta<V>;
+  /**
+   * This is optional and for advanced use cases only.
+   * Define it if the value references other nodes by id. When a subtree is
+   * imported with `doc.importSubtree`, its nodes receive new ids, and this
+   * function should return the value with the ids replaced by `remap(id)`,
+   * which returns the ids of nodes outside the subtree unchanged.
+   */
+  remapIds?(value: V, remap: (id: string) => string): V;
 };
 
+/**
+ * Describes how a state value can be changed by deltas. Deltas must be
+ * JSON serializable and applying them should never throw, since they may
+ * be applied to a value that was concurrently changed by another client.
+ */
+export type StateDelta<V, D extends Json = Json> = {
+  /** Returns the delta that transforms `prev` into `next`, or undefined if they are equal. */
+  diff(prev: V, next: V): D | undefined;
+  /** Returns the result of applying the delta to the given value. */
+  apply(value: V, delta: D): V;
+  /** Returns the delta that undoes `delta`, where `value` is the value it was applied to. */
+  invert(delta: D, value: V): D;
+  /**
+   * Returns `delta` rebased to be applied after `over`, both generated
+   * concurrently from the same value. Applying `over` and then the result
+   * must give the same value as applying `delta` and then
+   * `transform(over, delta)`, so that peers that apply them in different
+   * orders converge. If not defined, deltas are applied unchanged, which is
+   * enough for deltas that commute, like the ones of a counter.
+   */
+  transform?(delta: D, over: D): D;
+};
+
+/**
+ * What a state defined by a schema (`fromSchema`, `enumOf`, `date`, `object`
+ * and `array`) does when its JSON doesn't match the schema:
+ * - `"default"`: the default value is used. This is the default policy.
+ * - `"throw"`: an error listing the issues is thrown. `Doc.fromJSON` in
+ *   lenient mode reports it as an `invalidState` issue.
+ * - A function: it is called with the issues and the JSON (e.g. to log
+ *   them), and the default value is used.
+ */
+export type OnInvalidState =
+  | "default"
+  | "throw"
+  | ((issues: [GenericIssue, ...GenericIssue[]], json: unknown) => void);
+
+export type SchemaStateOptions = { onInvalid?: OnInvalidState };
+
 // Note: is important to use the method syntax, because It needs to be bivariant.
 export type DefaultStateMethods<V> = {
   get(this: void): DeepImmutable<V>;
   getPrev(this: void): [changed: boolean, value: DeepImmutable<V>];
+  /**
+   * If the state has a `delta` definition, the delta of the change is
+   * computed with `StateDelta.diff`, which can't tell where a change was
+   * made if it is ambiguous, e.g. inserting "a" into "aa".
+   */
   set(this: void, value: V | ((prev: V) => V)): void;
+  /**
+   * Calls `callback` with the new value in the change stage of every
+   * transaction that changes this state of this node.
+   * @returns A function to unregister the callback.
+   */
+  subscribe(
+    this: void,
+    callback: (value: DeepImmutable<V>) => void,
+  ): () => void;
 };
 
 export type StateRecord = Record<string, StateDefinition>;
@@ -73,7 +146,176 @@ export type StateRecord = Record<string, StateDefinition>;
 export type NodeDefinition<
   T extends string = string,
   S extends StateRecord = Record<never, never>,
-> = { type: T; state: S };
+> = {
+  type: T;
+  state: S;
+  schema?: NodeSchema;
+  /**
+   * Version of the state of this node type. Increase it when the state
+   * changes in a way that requires a migration. Only one node definition
+   * per type can define it.
+   * @default 0
+   */
+  version?: number;
+  /**
+   * Migrates the stringified state of a node serialized with a lower version,
+   * when loading a JsonDoc or applying operations. When applying operations,
+   * the state is a partial patch, and values of states with a `delta` may be
+   * delta patches, which should be returned unchanged.
+   */
+  migrate?: (
+    fromVersion: number,
+    stringifiedState: Record<string, string>,
+  ) => Record<string, string>;
+};
+
+/**
+ * Structural constraints of a node type. They are enforced when the document
+ * is mutated locally (throwing) and when operations are applied (see
+ * `DocConfig.invalidOperations`). Node definitions of the same type merge
+ * their schemas.
+ */
+export type NodeSchema = {
+  /** Types of the nodes that can be children of this node. If omitted, any type is allowed. */
+  allowedChildren?: readonly string[];
+  /**
+   * Types of the nodes that must be children of this node at least once.
+   * If missing, they are appended in the normalize phase.
+   */
+  requiredChildren?: readonly string[];
+  /** Maximum number of children of this node. */
+  maxChildren?: number;
+  /** Types of the nodes that can be the parent of this node. If omitted, any type is allowed. */
+  allowedParents?: readonly string[];
+};
+
+export type SchemaViolation = {
+  /** The constraint of the NodeSchema that was violated. */
+  constraint: keyof NodeSchema;
+  /** ID of the node whose children violate the constraint. */
+  parentId: string;
+  /** ID of the offending node. Undefined if a required child is missing. */
+  nodeId?: string;
+  /** Type of the offending node, or of the missing required child. */
+  type: string;
+};
+
+/**
+ * An operation of `applyOperations` that was skipped or applied differently,
+ * usually because of concurrent changes to the document.
+ */
+export type OperationConflict = {
+  /**
+   * - `"skipped"`: the operation (or state patch) was not applied.
+   * - `"adjusted"`: the operation was applied, but in another position.
+   */
+  resolution: "skipped" | "adjusted";
+  /**
+   * - `"missingNode"`: a node of the operation or state patch doesn't exist.
+   * - `"missingParent"`: the parent to insert or move into doesn't exist.
+   * - `"missingAnchor"`: the prev or next sibling is not a child of the parent.
+   * - `"invalidRange"`: the nodes to delete are no longer a range of siblings.
+   * - `"invalidTarget"`: the nodes can't be moved to the target position.
+   * - `"unknownState"`: the state key is not defined for the type of the node.
+   */
+  reason:
+    | "missingNode"
+    | "missingParent"
+    | "missingAnchor"
+    | "invalidRange"
+    | "invalidTarget"
+    | "unknownState";
+  /** The ordered operation. Undefined for state patches. */
+  operation?: OrderedOperation;
+  /** ID of the missing node, or of the node of the state patch. */
+  nodeId?: string;
+  /** State key of the state patch. */
+  key?: string;
+};
+
+export type ApplyOperationsReport = { conflicts: OperationConflict[] };
+
+/**
+ * A node that both sides of `mergeDocs` changed in ways that can't be
+ * combined. The merged operations keep the changes of `ours`, except for
+ * `"delete"` conflicts, where the deletion wins.
+ */
+export type MergeConflict = {
+  /**
+   * - `"state"`: both sides changed the state key to values that don't
+   *   merge, e.g. whole values or deltas that depend on the order.
+   * - `"type"`: both sides changed the type of the node to different types.
+   * - `"move"`: both sides moved the node to different parents.
+   * - `"delete"`: one side deleted the node (or an ancestor), and the other
+   *   changed its state or type, moved it or inserted children into it.
+   */
+  reason: "state" | "type" | "move" | "delete";
+  nodeId: string;
+  /** State key of `"state"` conflicts. */
+  key?: string;
+  /** Side that deleted the node in `"delete"` conflicts. */
+  deletedBy?: "ours" | "theirs";
+};
+
+export type MergeResult = {
+  /** Operations that bring the changes of `theirs` into `ours`. */
+  operations: Operations;
+  conflicts: MergeConflict[];
+};
+
+/**
+ * A problem found by `Doc.fromJSON` in the JSON of a node, in the
+ * `"strict"` and `"lenient"` modes.
+ */
+export type JsonDocIssue = {
+  /**
+   * - `"unknownType"`: the type of the node is not registered.
+   * - `"invalidId"`: the id of the node is not valid or is repeated.
+   * - `"unknownState"`: the state key is not defined for the type of the node.
+   * - `"invalidState"`: the state is not valid JSON or its `fromJSON` threw.
+   * - `"coercedState"`: the `fromJSON` of the state returned a value that is
+   *   serialized differently, e.g. because it replaced invalid data with the
+   *   default value. The coerced value is kept. The order of object keys and
+   *   the order and repetitions of set members are not taken into account.
+   */
+  reason:
+    | "unknownType"
+    | "invalidId"
+    | "unknownState"
+    | "invalidState"
+    | "coercedState";
+  /**
+   * Indexes of the node and its ancestors among their siblings, starting
+   * from the children of the root. Empty for the root.
+   */
+  path: number[];
+  nodeId: string;
+  type: string;
+  /** State key of the issue, if it is about the state. */
+  key?: string;
+  message: string;
+  /**
+   * What was left out of the doc: the JSON of the node and its descendants,
+   * or the stringified state. Undefined if nothing was dropped.
+   */
+  dropped?: JsonDoc | string;
+};
+
+export type FromJSONOptions = {
+  /**
+   * - `"strict"`: the whole JSON is validated, and an error listing every
+   *   issue is thrown if there is any.
+   * - `"lenient"`: nodes of unknown types or with invalid ids (with their
+   *   descendants) and unknown or invalid states are left out, and the
+   *   issues are returned. It still throws if the root is invalid.
+   */
+  mode: "strict" | "lenient";
+};
+
+export type FromJSONResult<S extends StateRecord = Record<never, never>> = {
+  doc: Doc<S>;
+  issues: JsonDocIssue[];
+};
 
 /** @internal */
 // eslint-disable-next-line @typescript-eslint/no-namespace
@@ -91,6 +333,15 @@ export namespace NodeState {
       : never;
   };
 
+  export type Values<T extends NodeDefinition> = {
+    readonly [K in keyof T["state"]]: T["state"][K] extends StateDefinition<
+      infer V,
+      Json
+    >
+      ? DeepImmutable<V>
+      : never;
+  };
+
   export type Methods<T extends NodeDefinition> = {
     [K in keyof T["state"]]: T["state"][K] extends StateDefinition<
       infer _V,
@@ -105,6 +356,7 @@ export namespace NodeState {
 export type UnsafeDefinition = NodeDefinition<string, StateRecord>;
 
 export type ResolvedNodeDefinition = UnsafeDefinition & {
+  schema: NodeSchema;
   defaultState: NodeState.State<UnsafeDefinition>;
   defaultStrings: NodeState.Stringified<UnsafeDefinition>;
   methods: (node: DocNode) => NodeState.Methods<UnsafeDefinition>;
@@ -116,6 +368,19 @@ export type JsonDocNode<T extends NodeDefinition = NodeDefinition> = [
   state: NodeState.Stringified<T>,
 ];
 
+/**
+ * An immutable copy of a node and its descendants as plain frozen objects,
+ * returned by `doc.snapshot()`. The snapshots of the nodes that didn't change
+ * keep the same identity across transactions.
+ */
+export type NodeSnapshot<T extends NodeDefinition = UnsafeDefinition> = {
+  readonly id: string;
+  readonly type: T["type"];
+  /** The value of every state of the node, including the default ones. */
+  readonly state: NodeState.Values<T>;
+  readonly children: readonly NodeSnapshot[];
+};
+
 export type JsonDoc = [
   id: string,
   type: string,
@@ -123,6 +388,17 @@ export type JsonDoc = [
   children?: [JsonDoc, ...JsonDoc[]],
 ];
 
+/**
+ * A node and its descendants, returned by `node.exportSubtree()`. It is
+ * self-contained, so it can be imported into a doc with a different config
+ * with `doc.importSubtree`.
+ */
+export type JsonSubtree = {
+  node: JsonDoc;
+  /** The versions of the node types the subtree was exported with. */
+  versions?: Record<string, number>;
+};
+
 /**
  * Information about nodes deleted, inserted, or updated during the transaction.
  *
@@ -153,9 +429,62 @@ export type Diff = {
    * It does not include nodes that were inserted in the same transaction.
    */
   updated: Set<string>;
+  /**
+   * Map of the IDs in `updated` to the keys of their state that changed. For
+   * nodes that were deleted and reinserted in the same transaction, it
+   * includes all the keys with a non-default value.
+   */
+  updatedKeys: Map<string, Set<string>>;
+  /**
+   * Set of IDs of the nodes whose type was changed during the transaction.
+   * It does not include nodes that were inserted in the same transaction.
+   */
+  typeChanged: Set<string>;
 };
 
-export type TransactionFlags = { skipUndo?: boolean };
+/**
+ * The changes of a single node in a transaction. See `Doc.observeNode`.
+ */
+export type NodeChangeEvent = {
+  /** The node. If it was deleted, the detached node. */
+  node: DocNode;
+  inserted: boolean;
+  deleted: boolean;
+  moved: boolean;
+  typeChanged: boolean;
+  /** Keys of the state that changed. See `Diff.updatedKeys`. */
+  updatedKeys: ReadonlySet<string>;
+  flags: TransactionFlags;
+};
+
+export type TransactionFlags = {
+  /** If true, the transaction is not added to the undo stack. */
+  skipUndo?: boolean;
+  /**
+   * Where the transaction comes from, e.g. `"paste"`, `"ai"` or `"network"`.
+   * Undo and redo transactions have the origin `"undo"` and `"redo"`.
+   */
+  origin?: string;
+  meta?: TransactionMeta;
+};
+
+/**
+ * Arbitrary metadata of a transaction, available in its change event. The
+ * keys used by an app can be typed with module augmentation:
+ *
+ * @example
+ * ```ts
+ * declare module "@docukit/docnode" {
+ *   interface TransactionMeta {
+ *     userId?: string;
+ *   }
+ * }
+ * ```
+ */
+// Interface instead of type so that it can be augmented.
+export interface TransactionMeta {
+  [key: string]: unknown;
+}
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type IntersectionOf<T extends any[]> = T extends [
@@ -208,7 +537,7 @@ export type UndoManagerConfig = {
   mergeInterval?: number;
 };
 
-export type DocConfig = {
+export type DocConfig<S extends StateRecord = StateRecord> = {
   extensions: Extension[];
   /**
    * If true, the document will throw an error if the normalize callback mutates the document on the second pass.
@@ -225,6 +554,13 @@ export type DocConfig = {
    * Must pass `nodeIdGenerator.validate()`.
    */
   id?: string | undefined;
+  /**
+   * State definitions of the root node, for properties of the whole
+   * document (e.g. title or locale). They are typed in `doc.root.state`,
+   * and synced, undoable and serialized like the state of any other node.
+   * @example { title: string(""), locale: string("en") }
+   */
+  rootState?: S;
   /**
    * Custom ID generation strategy for the document.
    *
@@ -240,6 +576,33 @@ export type DocConfig = {
    * Configures the document's built-in undo manager.
    */
   undoManager?: UndoManagerConfig;
+  /**
+   * What to do when `applyOperations` leaves the document in a state that
+   * violates the schema of the node definitions.
+   * - `"repair"`: the offending nodes are deleted and the missing required
+   * children are appended in the normalize phase, before the normalize listeners.
+   * - `"reject"`: the operations are rolled back.
+   * @default "repair"
+   */
+  invalidOperations?: "repair" | "reject";
+  /**
+   * Version of the whole document. Increase it when the tree needs a migration
+   * that can't be expressed by the migrations of the node definitions.
+   * @default 0
+   */
+  version?: number;
+  /**
+   * Migrates a JsonDoc serialized with a lower `version` in `Doc.fromJSON`,
+   * before the migrations of the node definitions.
+   */
+  migrate?: (fromVersion: number, jsonDoc: JsonDoc) => JsonDoc;
+  /**
+   * Called with the schema violations that were repaired or rejected.
+   */
+  onSchemaViolation?: (report: {
+    violations: SchemaViolation[];
+    rejected: boolean;
+  }) => void;
 };
 
 // https://github.com/microsoft/TypeScript/issues/13923#issuecomment-2191862501
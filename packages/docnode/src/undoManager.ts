@@ -1,14 +1,54 @@
 import { type Doc } from "./main.js";
-import { mergeOperations, type Operations } from "./operations.js";
-import type { UndoManagerConfig } from "./types.js";
+import {
+  mergeOperations,
+  transformInverseOperations,
+  transformOperations,
+  type Operations,
+} from "./operations.js";
+import type {
+  TransactionFlags,
+  TransactionMeta,
+  UndoManagerConfig,
+} from "./types.js";
+import { isObjectEmpty } from "./utils.js";
 
-/** `meta` is opaque — consumers attach arbitrary data (e.g. selection). */
-type UndoStackItem = { operations: Operations; meta: Map<string, unknown> };
+/**
+ * `meta` is opaque — consumers attach arbitrary data (e.g. selection).
+ * `origin` and `transactionMeta` are the ones of the transactions reverted by
+ * the item (the latest origin if several transactions were merged).
+ */
+type UndoStackItem = {
+  operations: Operations;
+  meta: Map<string, unknown>;
+  origin: string | undefined;
+  transactionMeta: TransactionMeta | undefined;
+};
 
-type UndoManagerEvent = { meta: UndoStackItem["meta"]; type: "undo" | "redo" };
+type UndoManagerEvent = Pick<
+  UndoStackItem,
+  "meta" | "origin" | "transactionMeta"
+> & { type: "undo" | "redo" };
 
 type Handler = (event: UndoManagerEvent) => void;
 
+type StackChangeEvent = { canUndo: boolean; canRedo: boolean };
+
+/**
+ * The stacks of an undo manager, returned by `undoManager.toJSON()`. The
+ * values of `meta` must be JSON-serializable to persist it.
+ */
+export type UndoManagerJson = {
+  undoStack: UndoStackItemJson[];
+  redoStack: UndoStackItemJson[];
+};
+
+type UndoStackItemJson = {
+  operations: Operations;
+  meta: Record<string, unknown>;
+  origin?: string;
+  transactionMeta?: TransactionMeta;
+};
+
 export class UndoManager {
   private readonly _doc: Doc;
   private readonly _maxUndoSteps: number;
@@ -16,9 +56,15 @@ export class UndoManager {
   protected _undoStack: UndoStackItem[] = [];
   protected _redoStack: UndoStackItem[] = [];
   private _txType: "undo" | "redo" | "update" = "update";
+  /** The item being undone or redone. */
+  private _poppedItem: UndoStackItem | undefined;
   private _lastUpdate: number | undefined;
   private _pushHandlers = new Set<Handler>();
   private _popHandlers = new Set<Handler>();
+  private _stackChangeHandlers = new Set<(event: StackChangeEvent) => void>();
+  private _groupDepth = 0;
+  /** Whether an item was pushed in the current group. */
+  private _isGroupStarted = false;
 
   constructor(doc: Doc, options?: UndoManagerConfig) {
     this._doc = doc;
@@ -27,45 +73,58 @@ export class UndoManager {
     if (!this.isEnabled) return;
 
     this._doc.onChange((event) => {
-      if (event.flags?.skipUndo) return;
+      if (event.flags?.skipUndo) {
+        this._transformStacks(event.operations);
+        return;
+      }
       const item: UndoStackItem = {
         operations: event.inverseOperations,
         meta: new Map(),
+        origin: event.flags.origin,
+        transactionMeta: event.flags.meta,
       };
       if (this._txType === "update") {
         const now = Date.now();
         const lastItem = this._undoStack.at(-1);
-        if (
-          lastItem &&
-          this._lastUpdate !== undefined &&
-          now - this._lastUpdate < this._mergeInterval
-        ) {
+        const shouldMerge = this._groupDepth
+          ? this._isGroupStarted
+          : this._lastUpdate !== undefined &&
+            now - this._lastUpdate < this._mergeInterval;
+        if (lastItem && shouldMerge) {
           lastItem.operations = mergeOperations(
             item.operations,
             lastItem.operations,
           );
-          this._pushHandlers.forEach((h) =>
-            h({ meta: lastItem.meta, type: "undo" }),
-          );
+          lastItem.origin = item.origin ?? lastItem.origin;
+          if (item.transactionMeta)
+            lastItem.transactionMeta = {
+              ...lastItem.transactionMeta,
+              ...item.transactionMeta,
+            };
+          this._emitPush(lastItem, "undo");
         } else {
           if (this._undoStack.length >= this._maxUndoSteps) {
             this._undoStack.shift();
           }
           this._undoStack.push(item);
-          this._pushHandlers.forEach((h) =>
-            h({ meta: item.meta, type: "undo" }),
-          );
+          this._emitPush(item, "undo");
         }
         this._redoStack = [];
         this._lastUpdate = now;
+        if (this._groupDepth) this._isGroupStarted = true;
+        this._emitStackChange();
       } else if (this._txType === "undo") {
+        item.origin = this._poppedItem?.origin;
+        item.transactionMeta = this._poppedItem?.transactionMeta;
         this._redoStack.push(item);
         this._txType = "update";
-        this._pushHandlers.forEach((h) => h({ meta: item.meta, type: "redo" }));
+        this._emitPush(item, "redo");
       } else {
+        item.origin = this._poppedItem?.origin;
+        item.transactionMeta = this._poppedItem?.transactionMeta;
         this._undoStack.push(item);
         this._txType = "update";
-        this._pushHandlers.forEach((h) => h({ meta: item.meta, type: "undo" }));
+        this._emitPush(item, "undo");
       }
     });
   }
@@ -79,9 +138,14 @@ export class UndoManager {
     const item = this._undoStack.pop();
     if (!item) return;
     this._txType = "undo";
+    this._poppedItem = item;
     this._lastUpdate = undefined;
-    this._doc.applyOperations(item.operations);
-    this._popHandlers.forEach((h) => h({ meta: item.meta, type: "undo" }));
+    this._doc.applyOperations(item.operations, this._flags(item, "undo"));
+    // In case the operations were empty and no change event was triggered
+    this._txType = "update";
+    this._poppedItem = undefined;
+    this._popHandlers.forEach((h) => h({ ...this._event(item), type: "undo" }));
+    this._emitStackChange();
   }
 
   redo() {
@@ -89,9 +153,13 @@ export class UndoManager {
     const item = this._redoStack.pop();
     if (!item) return;
     this._txType = "redo";
+    this._poppedItem = item;
     this._lastUpdate = undefined;
-    this._doc.applyOperations(item.operations);
-    this._popHandlers.forEach((h) => h({ meta: item.meta, type: "redo" }));
+    this._doc.applyOperations(item.operations, this._flags(item, "redo"));
+    this._txType = "update";
+    this._poppedItem = undefined;
+    this._popHandlers.forEach((h) => h({ ...this._event(item), type: "redo" }));
+    this._emitStackChange();
   }
 
   canUndo() {
@@ -102,6 +170,119 @@ export class UndoManager {
     return this._redoStack.length > 0;
   }
 
+  /**
+   * Runs the callback and merges all the transactions committed during it
+   * into a single undo step, regardless of `mergeInterval`. It commits the
+   * pending transaction before and after running the callback, so the step
+   * doesn't include changes made outside of it. Groups can be nested.
+   */
+  group(callback: () => void) {
+    this._doc.forceCommit();
+    if (!this._groupDepth) this._isGroupStarted = false;
+    this._groupDepth++;
+    try {
+      callback();
+      this._doc.forceCommit();
+    } finally {
+      this._groupDepth--;
+      if (!this._groupDepth) this._lastUpdate = undefined;
+    }
+  }
+
+  /**
+   * Commits the pending transaction and ensures that the next change starts a
+   * new undo step, even within `mergeInterval` or a group.
+   */
+  stopCapturing() {
+    this._doc.forceCommit();
+    this._lastUpdate = undefined;
+    this._isGroupStarted = false;
+  }
+
+  /** Removes all the items from both stacks. */
+  clear() {
+    this._undoStack = [];
+    this._redoStack = [];
+    this._lastUpdate = undefined;
+    this._emitStackChange();
+  }
+
+  /**
+   * Returns the undo and redo stacks, so that they can be persisted together
+   * with the doc and restored with `restore`. The changes of a pending
+   * transaction are not included until it is committed.
+   */
+  toJSON(): UndoManagerJson {
+    const toJson = (item: UndoStackItem): UndoStackItemJson => ({
+      operations: item.operations,
+      meta: Object.fromEntries(item.meta),
+      ...(item.origin !== undefined && { origin: item.origin }),
+      ...(item.transactionMeta && { transactionMeta: item.transactionMeta }),
+    });
+    return {
+      undoStack: this._undoStack.map(toJson),
+      redoStack: this._redoStack.map(toJson),
+    };
+  }
+
+  /**
+   * Replaces the stacks with the ones returned by `toJSON`. The doc must be
+   * in the same state it was when they were serialized. If there are more
+   * items than `maxUndoSteps`, the oldest ones are dropped.
+   */
+  restore(json: UndoManagerJson) {
+    const fromJson = (item: UndoStackItemJson): UndoStackItem => ({
+      operations: item.operations,
+      meta: new Map(Object.entries(item.meta)),
+      origin: item.origin,
+      transactionMeta: item.transactionMeta,
+    });
+    const { undoStack, redoStack } = json;
+    this._undoStack = undoStack
+      .slice(Math.max(0, undoStack.length - this._maxUndoSteps))
+      .map(fromJson);
+    this._redoStack = redoStack
+      .slice(Math.max(0, redoStack.length - this._maxUndoSteps))
+      .map(fromJson);
+    this._lastUpdate = undefined;
+    this._emitStackChange();
+  }
+
+  /**
+   * Rebases the items of both stacks over the operations of a transaction that
+   * is not undoable, usually a remote one, so that undo and redo only revert
+   * local changes: nodes that it deleted are not restored, state that it
+   * changed is not overwritten, and deltas are rebased over its deltas.
+   *
+   * Each item is applied after the items above it, so the deltas of the
+   * transaction are rebased over the items above before rebasing the next.
+   * Items that have nothing left to revert are dropped.
+   */
+  private _transformStacks(operations: Operations) {
+    let didDrop = false;
+    [this._undoStack, this._redoStack].forEach((stack) => {
+      let remote = operations;
+      for (let i = stack.length - 1; i >= 0; i--) {
+        const item = stack[i]!;
+        const inverse = item.operations;
+        item.operations = transformInverseOperations(
+          inverse,
+          remote,
+          this._doc,
+        );
+        remote = [
+          operations[0],
+          transformOperations(remote, inverse, this._doc)[1],
+        ];
+        if (!item.operations[0].length && isObjectEmpty(item.operations[1])) {
+          stack.splice(i, 1);
+          didDrop = true;
+        }
+      }
+    });
+    if (didDrop) this._emitStackChange();
+  }
+
   /**
    * Fires synchronously when an item is pushed to either stack.
    * Text editor bindings will often store selection state here.
@@ -113,6 +294,40 @@ export class UndoManager {
     };
   }
 
+  /**
+   * Fires synchronously whenever the stacks change: when an undo step is
+   * added or merged, on undo and redo, on `clear` and `restore`, and when
+   * steps with nothing left to revert are dropped. Useful
+   * for binding `canUndo` and `canRedo` to a toolbar.
+   */
+  onStackChange(handler: (event: StackChangeEvent) => void): () => void {
+    this._stackChangeHandlers.add(handler);
+    return () => {
+      this._stackChangeHandlers.delete(handler);
+    };
+  }
+
+  private _event(item: UndoStackItem) {
+    const { meta, origin, transactionMeta } = item;
+    return { meta, origin, transactionMeta };
+  }
+
+  private _emitPush(item: UndoStackItem, type: "undo" | "redo") {
+    this._pushHandlers.forEach((h) => h({ ...this._event(item), type }));
+  }
+
+  /** Undo and redo transactions keep the meta of the transactions they revert. */
+  private _flags(item: UndoStackItem, origin: "undo" | "redo") {
+    const flags: TransactionFlags = { origin };
+    if (item.transactionMeta) flags.meta = item.transactionMeta;
+    return flags;
+  }
+
+  private _emitStackChange() {
+    const event = { canUndo: this.canUndo(), canRedo: this.canRedo() };
+    this._stackChangeHandlers.forEach((h) => h(event));
+  }
+
   /**
    * Fires synchronously after `applyOperations` returns on undo/redo.
    * Text editor bindings will often restore selection state here.
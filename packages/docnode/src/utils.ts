@@ -1,5 +1,5 @@
 import type { Doc, DocNode } from "./main.js";
-import type { StateRecord } from "./types.js";
+import type { NodeSchema, StateRecord } from "./types.js";
 
 // lowercase ulid
 export const ULID_REGEX = /^[0-7][0-9a-hjkmnp-tv-z]{25}$/;
@@ -7,7 +7,16 @@ export const ULID_REGEX = /^[0-7][0-9a-hjkmnp-tv-z]{25}$/;
 export function defineNode<
   T extends string,
   S extends StateRecord,
->(nodeDefinition: { type: T; state?: S }) {
+>(nodeDefinition: {
+  type: T;
+  state?: S;
+  schema?: NodeSchema;
+  version?: number;
+  migrate?: (
+    fromVersion: number,
+    stringifiedState: Record<string, string>,
+  ) => Record<string, string>;
+}) {
   return { state: {} as S, ...nodeDefinition };
 }
 
@@ -55,6 +64,9 @@ export function withTransaction(
     );
   }
 
+  if (doc["_isReadOnly"])
+    throw new Error("Attempted to modify a read-only document.");
+
   const isNewTx = doc["_lifeCycleStage"] === "idle";
   if (isNewTx) {
     doc["_lifeCycleStage"] = "update";
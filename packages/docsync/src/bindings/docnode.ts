@@ -1,8 +1,50 @@
-import { Doc, type DocConfig, type Operations } from "@docukit/docnode";
+import {
+  Doc,
+  decodeDoc,
+  decodeOperations,
+  encodeDoc,
+  encodeOperations,
+  mergeOperations,
+  transformOperations,
+  type DocConfig,
+  type JsonDoc,
+  type Operations,
+} from "@docukit/docnode";
 import { createDocBinding } from "./index.js";
-import type { TransactionFlags } from "../shared/types.js";
+import type { DocBinding, TransactionFlags } from "../shared/types.js";
 
-export const DocNodeBinding = (docConfigs: DocConfig[]) => {
+export type DocNodeBindingOptions = {
+  /**
+   * Whether to use the binary encoding of DocNode (`encodeDoc` and
+   * `encodeOperations`) instead of JSON for the documents and operations
+   * sent over the wire and stored by the providers.
+   * @default false
+   */
+  binary?: boolean;
+};
+
+/**
+ * Binary payloads may arrive as an ArrayBuffer (e.g. from socket.io in
+ * the browser) instead of a Uint8Array.
+ */
+const isBytes = (value: object): value is Uint8Array | ArrayBuffer =>
+  value instanceof Uint8Array || value instanceof ArrayBuffer;
+
+const toBytes = (value: Uint8Array | ArrayBuffer) =>
+  value instanceof Uint8Array ? value : new Uint8Array(value);
+
+export function DocNodeBinding(
+  docConfigs: DocConfig[],
+  options?: DocNodeBindingOptions & { binary?: false },
+): DocBinding<Doc, JsonDoc, Operations>;
+export function DocNodeBinding(
+  docConfigs: DocConfig[],
+  options: DocNodeBindingOptions & { binary: true },
+): DocBinding<Doc, Uint8Array, Uint8Array>;
+export function DocNodeBinding(
+  docConfigs: DocConfig[],
+  { binary = false }: DocNodeBindingOptions = {},
+): DocBinding<Doc, JsonDoc | Uint8Array, Operations | Uint8Array> {
   const docConfigsMap = new Map<string, DocConfig>();
 
   docConfigs.forEach((docConfig) => {
@@ -20,22 +62,59 @@ export const DocNodeBinding = (docConfigs: DocConfig[]) => {
       const doc = new Doc({ ...docConfig, id });
       return { doc, docId: doc.root.id };
     },
-    serialize: (doc) => doc.toJSON({ unsafe: true }),
+    serialize: (doc) => {
+      const jsonDoc = doc.toJSON({ unsafe: true });
+      return binary ? encodeDoc(jsonDoc) : jsonDoc;
+    },
     deserialize: (serializedDoc) => {
-      const type = serializedDoc[1];
+      const jsonDoc = isBytes(serializedDoc)
+        ? decodeDoc(toBytes(serializedDoc))
+        : serializedDoc;
+      const type = jsonDoc[1];
       const docConfig = docConfigsMap.get(type);
       if (!docConfig) throw new Error(`Unknown type: ${type}`);
-      const doc = Doc.fromJSON(docConfig, serializedDoc);
+      const doc = Doc.fromJSON(docConfig, jsonDoc);
       doc.forceCommit();
       return doc;
     },
     onChange: (
       doc,
-      cb: (ev: { operations: Operations; flags?: TransactionFlags }) => void,
-    ) => doc.onChange(cb),
+      cb: (ev: {
+        operations: Operations | Uint8Array;
+        flags?: TransactionFlags;
+      }) => void,
+    ) =>
+      doc.onChange(({ operations, ...ev }) =>
+        cb({
+          ...ev,
+          operations: binary ? encodeOperations(operations) : operations,
+        }),
+      ),
     applyOperations: (doc, operations, flags) => {
-      doc.applyOperations(operations, flags);
+      doc.applyOperations(
+        isBytes(operations)
+          ? decodeOperations(toBytes(operations))
+          : operations,
+        flags,
+      );
+    },
+    transformOperations: (doc, local, remote) => {
+      if (local.length === 0 || remote.length === 0) return local;
+      const decode = (operations: Operations | Uint8Array) =>
+        isBytes(operations)
+          ? decodeOperations(toBytes(operations))
+          : operations;
+      const operations = transformOperations(
+        mergeOperations(...local.map(decode)),
+        mergeOperations(...remote.map(decode)),
+        doc,
+      );
+      return [binary ? encodeOperations(operations) : operations];
+    },
+    onSubDoc: (doc, cb) => {
+      doc.getSubDocs().forEach(cb);
+      return doc.onSubDoc(cb);
     },
     dispose: (doc) => doc.dispose(),
   });
-};
+}
@@ -8,7 +8,7 @@ import { getLocalDocVersion } from "../../../utils/localDocVersion.js";
 
 export type ReconcileSyncResult<D extends object, O extends object> =
   | { type: "none" }
-  | { type: "replaceDoc"; doc: D }
+  | { type: "replaceDoc"; doc: D; operations: O[] }
   | { type: "applyServerOperations"; operations: O[] };
 
 function applyOperations<D extends object, S extends object, O extends object>(
@@ -22,6 +22,16 @@ function applyOperations<D extends object, S extends object, O extends object>(
   }
 }
 
+function transformOperations<
+  D extends object,
+  S extends object,
+  O extends object,
+>(client: DocSyncClient<D, S, O>, doc: D, local: O[], remote: O[]): O[] {
+  return (
+    client["_docBinding"].transformOperations?.(doc, local, remote) ?? local
+  );
+}
+
 export async function reconcileSyncResponse<
   D extends object,
   S extends object,
@@ -46,9 +56,28 @@ export async function reconcileSyncResponse<
     data,
   } = args;
   const hasServerSnapshot = data.serializedDoc !== null;
-  let didConsolidate = false;
   let pendingProviderOperations: O[] = [];
   let replacementDoc: D | undefined;
+  // The server operations were made concurrently with the local ones, which
+  // are rebased over them. `serverOperations` are the server operations as
+  // seen after the local operations rebased so far, so that they can be
+  // applied to the in-memory doc and used to rebase the next local ones.
+  let serverOperations = data.operations;
+  const rebase = (doc: D, operations: O[]) => {
+    const rebased = transformOperations(
+      client,
+      doc,
+      operations,
+      serverOperations,
+    );
+    serverOperations = transformOperations(
+      client,
+      doc,
+      serverOperations,
+      operations,
+    );
+    return rebased;
+  };
 
   await provider.transaction("readwrite", async (ctx) => {
     const stored = await ctx.getSerializedDoc({ docId });
@@ -79,13 +108,16 @@ export async function reconcileSyncResponse<
     }
 
     const currentOperationsBatches = await ctx.getOperations({ docId });
-    pendingProviderOperations = currentOperationsBatches
-      .slice(operationsBatches.length)
-      .flat();
 
     const doc = client["_docBinding"].deserialize(baseSerializedDoc);
     applyOperations(client, doc, data.operations, { skipUndo: true });
-    applyOperations(client, doc, localOperations);
+    applyOperations(client, doc, rebase(doc, localOperations));
+    // The operations saved after the request was sent are rebased too, since
+    // they will be sent with the new clock
+    pendingProviderOperations = rebase(
+      doc,
+      currentOperationsBatches.slice(operationsBatches.length).flat(),
+    );
     const serializedDoc = client["_docBinding"].serialize(doc);
 
     const recheckStored = await ctx.getSerializedDoc({ docId });
@@ -93,41 +125,55 @@ export async function reconcileSyncResponse<
     if (stored === undefined && recheckStored !== undefined) return;
 
     await ctx.saveSerializedDoc({ serializedDoc, docId, clock: data.clock });
-    if (operationsBatches.length > 0) {
+    if (pendingProviderOperations.length > 0 && data.operations.length > 0) {
+      await ctx.deleteOperations({
+        docId,
+        count: currentOperationsBatches.length,
+      });
+      await ctx.saveOperations({
+        docId,
+        operations: pendingProviderOperations,
+      });
+    } else if (operationsBatches.length > 0) {
       await ctx.deleteOperations({ docId, count: operationsBatches.length });
     }
     replacementDoc = doc;
-    didConsolidate = true;
   });
 
+  if (!replacementDoc) return { type: "none" };
+
+  // The operations in memory are not saved yet, so they are rebased in place
+  const batchState = client["_localOpsBatchState"].get(docId);
+  if (batchState) batchState.data = rebase(replacementDoc, batchState.data);
+  const pendingMemoryOperations = batchState?.data ?? [];
+
   const hasConcurrentServerAndLocalOperations =
     data.operations.length > 0 && localOperations.length > 0;
 
-  if (
-    replacementDoc &&
-    (hasServerSnapshot || hasConcurrentServerAndLocalOperations)
-  ) {
-    const pendingMemoryOperations =
-      client["_localOpsBatchState"].get(docId)?.data ?? [];
+  if (hasServerSnapshot || hasConcurrentServerAndLocalOperations) {
     const hasUnrebuildableLocalMemory =
       getLocalDocVersion(client, docId) > requestLocalVersion &&
       pendingProviderOperations.length === 0 &&
       pendingMemoryOperations.length === 0;
 
     if (hasUnrebuildableLocalMemory) {
-      if (didConsolidate && data.operations.length > 0) {
-        return { type: "applyServerOperations", operations: data.operations };
+      if (data.operations.length > 0) {
+        return { type: "applyServerOperations", operations: serverOperations };
       }
       return { type: "none" };
     }
 
     applyOperations(client, replacementDoc, pendingProviderOperations);
     applyOperations(client, replacementDoc, pendingMemoryOperations);
-    return { type: "replaceDoc", doc: replacementDoc };
+    return {
+      type: "replaceDoc",
+      doc: replacementDoc,
+      operations: serverOperations,
+    };
   }
 
-  if (didConsolidate && data.operations.length > 0) {
-    return { type: "applyServerOperations", operations: data.operations };
+  if (data.operations.length > 0) {
+    return { type: "applyServerOperations", operations: serverOperations };
   }
 
   return { type: "none" };
@@ -193,7 +193,10 @@ export const handleSync = async <
   if (reconcileResult.type === "replaceDoc") {
     replaceDocInCache(client, { docId, doc: reconcileResult.doc });
     dispatchLocalDocFound(client, docId, { doc: reconcileResult.doc, docId });
-    broadcastServerOperations(client, { docId, operations: data.operations });
+    broadcastServerOperations(client, {
+      docId,
+      operations: reconcileResult.operations,
+    });
   } else if (reconcileResult.type === "applyServerOperations") {
     await applyServerOperations(client, {
       docId,
@@ -14,8 +14,12 @@ import type {
   Identity,
   QueryResult,
 } from "./types.js";
-import type { ClientEventMap, ClientEventName } from "./utils/events.js";
-import { createClientEventEmitter } from "./utils/events.js";
+import type {
+  ChangeOrigin,
+  ClientEventMap,
+  ClientEventName,
+} from "./utils/events.js";
+import { ORIGIN_META_KEY, createClientEventEmitter } from "./utils/events.js";
 import { handleConnect } from "./handlers/connection/connect.js";
 import { handleDeleteDoc } from "./handlers/clientInitiated/deleteDoc.js";
 import { handleDisconnect } from "./handlers/connection/disconnect.js";
@@ -55,7 +59,6 @@ type SyncDebounceState = {
 };
 
 type PushStatus = "idle" | "pushing" | "pushing-with-pending";
-type ChangeOrigin = "local" | "network" | "local-broadcast";
 type LocalLoadMode = "load" | "loadOrCreate";
 type QueryListener = (result: QueryResult<DocData<object> | undefined>) => void;
 type DocCacheEntry<D> = {
@@ -85,6 +88,7 @@ export class DocSyncClient<
   protected _clientId: string;
   protected _bcHelper?: BCHelper<D, S, O>;
   protected _socket: ClientSocket<S, O>;
+  /** Set while remote operations are applied, for `handlePresence`. */
   protected _changeOrigin: ChangeOrigin = "local";
 
   // Flow control state (batching, debouncing, push queueing)
@@ -356,6 +360,10 @@ export class DocSyncClient<
     void handlePresence(this, { docId, presence });
   }
 
+  /**
+   * The transaction is marked with the origin in its `meta`. Operations from
+   * another tab keep the rest of the flags of the original transaction.
+   */
   protected _applyOperationsFrom(
     origin: Exclude<ChangeOrigin, "local">,
     doc: D,
@@ -364,7 +372,10 @@ export class DocSyncClient<
   ): void {
     this._changeOrigin = origin;
     try {
-      this._docBinding.applyOperations(doc, operations, flags);
+      this._docBinding.applyOperations(doc, operations, {
+        ...flags,
+        meta: { ...flags?.meta, [ORIGIN_META_KEY]: origin },
+      });
     } finally {
       this._changeOrigin = "local";
     }
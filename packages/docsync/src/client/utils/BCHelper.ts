@@ -1,3 +1,4 @@
+import type { TransactionFlags } from "../../shared/types.js";
 import type { DocSyncClient } from "../index.js";
 import { applyPresencePatch } from "./applyPresencePatch.js";
 
@@ -9,7 +10,7 @@ type BroadcastMessage<O> =
       source: BroadcastSource;
       operations: O;
       docId: string;
-      flags: { skipUndo?: boolean };
+      flags: TransactionFlags;
       presence: Record<string, unknown>;
     }
   | { type: "PRESENCE"; docId: string; presence: Record<string, unknown> };
@@ -53,7 +54,7 @@ export class BCHelper<
     operations: O,
     docId: string,
     source: BroadcastSource,
-    flags: { skipUndo?: boolean },
+    flags: TransactionFlags,
   ): Promise<void> {
     const cacheEntry = client["_docsCache"].get(docId);
     if (!cacheEntry) return;
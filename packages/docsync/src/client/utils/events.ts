@@ -1,4 +1,8 @@
-import type { SyncRequest, SyncResponse } from "../../shared/types.js";
+import type {
+  SyncRequest,
+  SyncResponse,
+  TransactionFlags,
+} from "../../shared/types.js";
 
 // ============================================================================
 // Event payload types
@@ -6,10 +10,14 @@ import type { SyncRequest, SyncResponse } from "../../shared/types.js";
 
 export type DisconnectEvent = { reason: string };
 
+export type ChangeOrigin = "local" | "network" | "local-broadcast";
+
 export type ChangeEvent<O = unknown> = {
   docId: string;
-  origin: "local" | "network" | "local-broadcast";
+  origin: ChangeOrigin;
   operation: O;
+  /** The flags of the transaction, including its `origin` and `meta`. */
+  flags?: TransactionFlags;
 };
 
 /** Emitted once after sync completes (success or error). */
@@ -93,3 +101,23 @@ export function createClientEventEmitter<
 
   return { listeners, on, emit };
 }
+
+// ============================================================================
+// Change origin
+// ============================================================================
+
+/**
+ * The `meta` key that marks the transactions of DocSync. Its value is the
+ * origin of the operations: `"network"` if they come from the server, or
+ * `"local-broadcast"` if they come from another tab, in which case they
+ * keep the rest of the flags of the original transaction.
+ */
+export const ORIGIN_META_KEY = "docsyncOrigin";
+
+/** Returns where a change comes from, given the flags of its transaction. */
+export function getChangeOrigin(flags?: TransactionFlags): ChangeOrigin {
+  const origin = flags?.meta?.[ORIGIN_META_KEY];
+  return origin === "network" || origin === "local-broadcast"
+    ? origin
+    : "local";
+}
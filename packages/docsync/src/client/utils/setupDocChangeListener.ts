@@ -1,5 +1,6 @@
 import type { DocSyncClient } from "../index.js";
 import { flushPresenceDebounce } from "../handlers/clientInitiated/presence.js";
+import { getChangeOrigin } from "./events.js";
 import { getOwnPresencePatch } from "./getOwnPresencePatch.js";
 import { markLocalDocChanged } from "./localDocVersion.js";
 
@@ -11,12 +12,13 @@ export function setupDocChangeListener<
   const { doc, docId } = args;
 
   client["_docBinding"].onChange(doc, ({ flags, operations }) => {
-    const changeOrigin = client["_changeOrigin"];
+    const changeOrigin = getChangeOrigin(flags);
 
     client["_events"].emit("change", {
       docId,
       origin: changeOrigin,
       operation: operations,
+      ...(flags && { flags }),
     });
 
     if (changeOrigin !== "network") {
@@ -43,7 +45,7 @@ export function setupDocChangeListener<
           source: "local-broadcast",
           operations,
           docId,
-          flags: flags?.skipUndo ? { skipUndo: true } : {},
+          flags: flags ?? {},
           presence: getOwnPresencePatch(client, docId),
         });
       });
@@ -1 +1,4 @@
-export { DocNodeBinding } from "../bindings/docnode.js";
+export {
+  DocNodeBinding,
+  type DocNodeBindingOptions,
+} from "../bindings/docnode.js";
@@ -111,15 +111,47 @@ export function handleSync<
             operationsClock = serverDoc.clock;
           }
 
-          const serverOps = await ctx.getOperations({
+          const serverOps = (
+            await ctx.getOperations({ docId, clock: operationsClock })
+          ).flat();
+          // The client operations were made concurrently with the ones it
+          // hasn't seen yet, so they are rebased over them. The ones folded
+          // into a newer snapshot can't be told apart, so they aren't.
+          let rebasedOperations = operations;
+          if (
+            docBinding.transformOperations &&
+            serverOps.length > 0 &&
+            operations.length > 0
+          ) {
+            const snapshot =
+              serverDoc ??
+              (serializedDoc !== null ? { serializedDoc, clock } : undefined);
+            const doc = snapshot
+              ? docBinding.deserialize(snapshot.serializedDoc)
+              : docBinding.create(type, docId).doc;
+            const allServerOps = await ctx.getOperations({
+              docId,
+              clock: snapshot?.clock ?? 0,
+            });
+            allServerOps.flat().forEach((operation) => {
+              docBinding.applyOperations(doc, operation);
+            });
+            rebasedOperations = docBinding.transformOperations(
+              doc,
+              operations,
+              serverOps,
+            );
+            docBinding.dispose(doc);
+          }
+          const newClock = await ctx.saveOperations({
             docId,
-            clock: operationsClock,
+            operations: rebasedOperations,
           });
-          const newClock = await ctx.saveOperations({ docId, operations });
 
           return {
             docId,
-            operations: serverOps.flat(),
+            operations: serverOps,
+            rebasedOperations,
             serializedDoc: responseSerializedDoc,
             clock: newClock,
           };
@@ -178,10 +210,11 @@ export function handleSync<
           const {
             docId: resultDocId,
             operations: serverOps,
+            rebasedOperations,
             serializedDoc,
             clock: resultClock,
           } = result;
-          const allOperations = [...serverOps, ...operations];
+          const allOperations = [...serverOps, ...rebasedOperations];
           const doc =
             serializedDoc !== null
               ? docBinding.deserialize(serializedDoc)
@@ -21,17 +21,47 @@ export interface DocBinding<
   create(type: string, id?: string): { doc: D; docId: string };
   deserialize(serializedDoc: S): D;
   serialize(doc: D): S;
+  /**
+   * The `flags` of the changes made by `applyOperations` must be the ones
+   * passed to it, since DocSync tells remote changes apart by them.
+   */
   onChange(
     doc: D,
     cb: (ev: { operations: O; flags?: TransactionFlags }) => void,
   ): void;
   applyOperations(doc: D, operations: O, flags?: TransactionFlags): void;
+  /**
+   * Optional. Rebases `local` operations over `remote` operations that were
+   * made concurrently from the same version of the doc, so that they can be
+   * applied after them. `doc` is the doc the remote operations were applied
+   * to. Without it, the operations are applied as they are, which is only
+   * correct if they don't depend on positions (e.g. text indexes).
+   */
+  transformOperations?(doc: D, local: O[], remote: O[]): O[];
   dispose(doc: D): void;
+  /**
+   * Optional. Calls `cb` with the subdocuments of the doc, and later with
+   * the ones that are referenced by it, so that they can be loaded and
+   * synced on demand.
+   */
+  onSubDoc?(doc: D, cb: (subDoc: D) => void): void | (() => void);
 }
 
 // Keep this local instead of importing from @docukit/docnode because DocNode is
 // an optional peer dependency of @docukit/docsync.
-export type TransactionFlags = { skipUndo?: boolean };
+export type TransactionFlags = {
+  skipUndo?: boolean;
+  /**
+   * Where the transaction comes from. Operations from another tab keep the
+   * origin of the original transaction.
+   */
+  origin?: string;
+  /**
+   * Sent to other tabs along with the operations, so it must be cloneable.
+   * DocSync marks its own transactions under the `docsyncOrigin` key.
+   */
+  meta?: Record<string, unknown>;
+};
 
 // ============================================================================
 // Utility Types
@@ -1,12 +1,49 @@
 import {
   Doc,
+  decodeDoc,
+  decodeOperations,
+  encodeDoc,
+  encodeOperations,
   type DocConfig,
   type JsonDoc,
   type Operations,
 } from "@docukit/docnode";
 import { createDocBinding } from "./index.js";
+import type { DocBinding } from "./types.js";
 
-export const DocNodeBinding = (docConfigs: DocConfig[]) => {
+export type DocNodeBindingOptions = {
+  /**
+   * Whether to use the binary encoding of DocNode (`encodeDoc` and
+   * `encodeOperations`) instead of JSON for the documents and operations
+   * sent over the wire and stored by the providers. The server must use
+   * `DocNodeValidators({ binary: true })`.
+   * @default false
+   */
+  binary?: boolean;
+};
+
+/**
+ * Binary payloads may arrive as an ArrayBuffer (e.g. from socket.io in
+ * the browser) instead of a Uint8Array.
+ */
+const isBytes = (value: object): value is Uint8Array | ArrayBuffer =>
+  value instanceof Uint8Array || value instanceof ArrayBuffer;
+
+const toBytes = (value: Uint8Array | ArrayBuffer) =>
+  value instanceof Uint8Array ? value : new Uint8Array(value);
+
+export function DocNodeBinding(
+  docConfigs: DocConfig[],
+  options?: DocNodeBindingOptions & { binary?: false },
+): DocBinding<Doc, JsonDoc, Operations>;
+export function DocNodeBinding(
+  docConfigs: DocConfig[],
+  options: DocNodeBindingOptions & { binary: true },
+): DocBinding<Doc, Uint8Array, Uint8Array>;
+export function DocNodeBinding(
+  docConfigs: DocConfig[],
+  { binary = false }: DocNodeBindingOptions = {},
+): DocBinding<Doc, JsonDoc | Uint8Array, Operations | Uint8Array> {
   const docConfigsMap = new Map<string, DocConfig>();
 
   docConfigs.forEach((docConfig) => {
@@ -17,25 +54,46 @@ export const DocNodeBinding = (docConfigs: DocConfig[]) => {
     docConfigsMap.set(type, docConfig);
   });
 
-  return createDocBinding<Doc, JsonDoc, Operations>({
+  return createDocBinding<Doc, JsonDoc | Uint8Array, Operations | Uint8Array>({
     create: (type, id) => {
       const docConfig = docConfigsMap.get(type);
       if (!docConfig) throw new Error(`Unknown type: ${type}`);
       const doc = new Doc({ ...docConfig, id });
       return { doc, docId: doc.root.id };
     },
-    serialize: (doc) => doc.toJSON({ unsafe: true }),
+    serialize: (doc) => {
+      const jsonDoc = doc.toJSON({ unsafe: true });
+      return binary ? encodeDoc(jsonDoc) : jsonDoc;
+    },
     deserialize: (serializedDoc) => {
-      const type = serializedDoc[1];
+      const jsonDoc = isBytes(serializedDoc)
+        ? decodeDoc(toBytes(serializedDoc))
+        : serializedDoc;
+      const type = jsonDoc[1];
       const docConfig = docConfigsMap.get(type);
       if (!docConfig) throw new Error(`Unknown type: ${type}`);
-      const doc = Doc.fromJSON(docConfig, serializedDoc);
+      const doc = Doc.fromJSON(docConfig, jsonDoc);
       doc.forceCommit();
       return doc;
     },
-    onChange: (doc, cb) => doc.onChange(cb),
+    onChange: (doc, cb) =>
+      doc.onChange(({ operations, ...ev }) =>
+        cb({
+          ...ev,
+          operations: binary ? encodeOperations(operations) : operations,
+        }),
+      ),
     applyOperations: (doc, operations, flags) => {
-      doc.applyOperations(operations, flags);
+      doc.applyOperations(
+        isBytes(operations)
+          ? decodeOperations(toBytes(operations))
+          : operations,
+        flags,
+      );
+    },
+    onSubDoc: (doc, cb) => {
+      doc.getSubDocs().forEach(cb);
+      return doc.onSubDoc(cb);
     },
   });
-};
+}
@@ -1,4 +1,16 @@
-export type TransactionFlags = { skipUndo?: boolean };
+export type TransactionFlags = {
+  skipUndo?: boolean;
+  /**
+   * Where the transaction comes from. Operations from another tab keep the
+   * origin of the original transaction.
+   */
+  origin?: string;
+  /**
+   * Sent to other tabs along with the operations, so it must be cloneable.
+   * DocSync marks its own transactions under the `docsyncOrigin` key.
+   */
+  meta?: Record<string, unknown>;
+};
 
 export type DocBinding<
   D extends object = object,
@@ -8,11 +20,21 @@ export type DocBinding<
   create(type: string, id: string): { doc: D; docId: string };
   deserialize(serializedDoc: S): D;
   serialize(doc: D): S;
+  /**
+   * The `flags` of the changes made by `applyOperations` must be the ones
+   * passed to it, since DocSync tells remote changes apart by them.
+   */
   onChange(
     doc: D,
     cb: (ev: { operations: O; flags?: TransactionFlags }) => void,
   ): void | (() => void);
   applyOperations(doc: D, operations: O, flags?: TransactionFlags): void;
+  /**
+   * Optional. Calls `cb` with the subdocuments of the doc, and later with
+   * the ones that are referenced by it, so that they can be loaded and
+   * synced on demand.
+   */
+  onSubDoc?(doc: D, cb: (subDoc: D) => void): void | (() => void);
   // dispose(doc: D): void;
   // In this DocSync rewrite we have not found evidence that this is needed yet.
   // Once TanStack removes docs from query data, no strong references remain and
@@ -10,7 +10,6 @@ import {
   createClientEventEmitter,
   type ClientEventMap,
   type ClientEventName,
-  type ChangeOrigin,
 } from "./utils/events.js";
 import { handleConnect } from "./handlers/connection/connect.js";
 import { handleCollaboration } from "./handlers/serverInitiated/collaboration.js";
@@ -53,7 +52,6 @@ export class DocSyncClient<
   protected _clientId = crypto.randomUUID();
   protected _bcHelper?: BCHelper<D, S, O>;
   protected _socket: ClientSocket<S, O>;
-  protected _changeOrigin: ChangeOrigin = "local";
 
   // Flow control state (batching, debouncing, push queueing)
   protected _localOpsBatchState = new Map<string, LocalOpsBatchState<O>>();
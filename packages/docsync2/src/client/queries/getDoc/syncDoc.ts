@@ -24,6 +24,7 @@ import {
 } from "../../../shared/validators/getDocData.js";
 import type { DocSyncClient } from "../../index.js";
 import { request } from "../../utils/request.js";
+import { ORIGIN_META_KEY } from "../../utils/events.js";
 import { getOwnPresencePatch } from "../../utils/getOwnPresencePatch.js";
 import { getDocKey, type GetDocKeyArgs } from "./getDocKey.js";
 
@@ -99,13 +100,11 @@ const applyServerOperationsToCachedDoc = <
   if (!isExistingGetDocData(data, docBinding)) return;
   if (args.serverOperations.length === 0) return data;
 
-  client["_changeOrigin"] = "network";
-  try {
-    for (const operation of args.serverOperations) {
-      docBinding.applyOperations(data.doc, operation, { skipUndo: true });
-    }
-  } finally {
-    client["_changeOrigin"] = "local";
+  for (const operation of args.serverOperations) {
+    docBinding.applyOperations(data.doc, operation, {
+      skipUndo: true,
+      meta: { [ORIGIN_META_KEY]: "network" },
+    });
   }
   return data;
 };
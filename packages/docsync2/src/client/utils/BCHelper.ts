@@ -4,6 +4,7 @@ import type { DocSyncClient } from "../index.js";
 import { getDocArgsFromKey } from "../queries/getDoc/getDocKey.js";
 import { activeDocIds, hasActiveDocQuery } from "./activeDocQuery.js";
 import { applyPresencePatch } from "./applyPresencePatch.js";
+import { ORIGIN_META_KEY } from "./events.js";
 
 type BroadcastSource = "network" | "local-broadcast";
 
@@ -54,18 +55,14 @@ export class BCHelper<D extends object, S extends object, O extends object> {
       const data: unknown = query.state.data;
       if (!isExistingGetDocData(data, docBinding)) continue;
 
-      client["_changeOrigin"] = message.source;
-      try {
-        docBinding.applyOperations(
-          data.doc,
-          message.operations,
-          message.source === "network"
-            ? { ...message.flags, skipUndo: true }
-            : message.flags,
-        );
-      } finally {
-        client["_changeOrigin"] = "local";
-      }
+      // Local changes keep the flags of the original transaction, including
+      // its origin.
+      const flags: TransactionFlags =
+        message.source === "network"
+          ? { ...message.flags, skipUndo: true }
+          : { ...message.flags };
+      flags.meta = { ...flags.meta, [ORIGIN_META_KEY]: message.source };
+      docBinding.applyOperations(data.doc, message.operations, flags);
       return;
     }
   }
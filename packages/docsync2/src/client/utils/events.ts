@@ -1,13 +1,32 @@
 import type { SyncRequest, SyncResponse } from "../../shared/types.js";
+import type { TransactionFlags } from "../bindings/types.js";
 
 export type DisconnectEvent = { reason: string };
 
 export type ChangeOrigin = "local" | "network" | "local-broadcast";
 
+/**
+ * The `meta` key that marks the transactions of DocSync. Its value is the
+ * origin of the operations: `"network"` if they come from the server, or
+ * `"local-broadcast"` if they come from another tab, in which case they
+ * keep the rest of the flags of the original transaction.
+ */
+export const ORIGIN_META_KEY = "docsyncOrigin";
+
+/** Returns where a change comes from, given the flags of its transaction. */
+export const getChangeOrigin = (flags?: TransactionFlags): ChangeOrigin => {
+  const origin = flags?.meta?.[ORIGIN_META_KEY];
+  return origin === "network" || origin === "local-broadcast"
+    ? origin
+    : "local";
+};
+
 export type ChangeEvent<O = unknown> = {
   docId: string;
   origin: ChangeOrigin;
   operation: O;
+  /** The flags of the transaction, including its `origin` and `meta`. */
+  flags?: TransactionFlags;
 };
 
 export type SyncEvent<O = unknown, S = unknown> = {
@@ -1,5 +1,7 @@
 import type { DocSyncClient } from "../../../index.js";
+import type { TransactionFlags } from "../../../bindings/types.js";
 import type { GetDocArgs } from "../../../queries/getDoc/getDoc.js";
+import { getChangeOrigin } from "../../events.js";
 import { flushLocalOperations } from "../../flushLocalOperations.js";
 import { getOwnPresencePatch } from "../../getOwnPresencePatch.js";
 
@@ -54,13 +56,14 @@ export const onDocChanged = <
 >(
   client: DocSyncClient<D, S, O>,
   args: GetDocArgs,
-  { flags, operations }: { flags?: { skipUndo?: boolean }; operations: O },
+  { flags, operations }: { flags?: TransactionFlags; operations: O },
 ) => {
-  const origin = client["_changeOrigin"];
+  const origin = getChangeOrigin(flags);
   client["_events"].emit("change", {
     docId: args.id,
     origin,
     operation: operations,
+    ...(flags && { flags }),
   });
 
   if (origin !== "local") return;
@@ -73,7 +76,7 @@ export const onDocChanged = <
       source: "local-broadcast",
       operations,
       docId: args.id,
-      ...(flags?.skipUndo ? { flags: { skipUndo: true } } : {}),
+      ...(flags && { flags }),
       ...(presencePatch ? { presence: presencePatch } : {}),
     });
   });
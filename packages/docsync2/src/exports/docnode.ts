@@ -1,2 +1,5 @@
-export { DocNodeBinding } from "../client/bindings/docnode.js";
+export {
+  DocNodeBinding,
+  type DocNodeBindingOptions,
+} from "../client/bindings/docnode.js";
 export { DocNodeValidators } from "../server/validators/docnode.js";
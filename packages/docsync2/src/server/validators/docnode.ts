@@ -1,5 +1,11 @@
-import type { JsonDoc, Operations } from "@docukit/docnode";
+import {
+  decodeDoc,
+  decodeOperations,
+  type JsonDoc,
+  type Operations,
+} from "@docukit/docnode";
 import * as v from "valibot";
+import type { Validators } from "../types.js";
 
 const stringRecordSchema = v.record(v.string(), v.string());
 const stringOrZeroSchema = v.union([v.string(), v.literal(0)]);
@@ -29,10 +35,19 @@ const moveOperationSchema = v.tuple([
   stringOrZeroSchema,
 ]);
 
+const changeTypeOperationSchema = v.tuple([
+  v.literal(3),
+  v.string(),
+  v.string(),
+  stringOrZeroSchema,
+  v.picklist([0, 1]),
+]);
+
 const orderedOperationSchema = v.union([
   insertOperationSchema,
   deleteOperationSchema,
   moveOperationSchema,
+  changeTypeOperationSchema,
 ]);
 
 const operationsSchema = v.tuple([
@@ -52,7 +67,43 @@ const serializedDocSchema: v.GenericSchema<unknown, JsonDoc> = v.lazy(() => {
   ]);
 });
 
-export const DocNodeValidators = () => {
+const bytesSchema = v.union([
+  v.instance(Uint8Array),
+  v.pipe(
+    v.instance(ArrayBuffer),
+    v.transform((buffer) => new Uint8Array(buffer)),
+  ),
+]);
+
+/**
+ * Validators for the DocNode binding. Use `{ binary: true }` if the clients
+ * use `DocNodeBinding(docConfigs, { binary: true })`. Binary payloads are
+ * decoded to be validated, but are returned (and stored) as bytes.
+ */
+export function DocNodeValidators(options?: {
+  binary?: false;
+}): Validators<JsonDoc, Operations>;
+export function DocNodeValidators(options: {
+  binary: true;
+}): Validators<Uint8Array, Uint8Array>;
+export function DocNodeValidators({ binary = false } = {}): Validators<
+  JsonDoc | Uint8Array,
+  Operations | Uint8Array
+> {
+  if (binary) {
+    return {
+      serializedDoc(input: unknown) {
+        const bytes = v.parse(bytesSchema, input);
+        v.parse(serializedDocSchema, decodeDoc(bytes));
+        return bytes;
+      },
+      operations(input: unknown) {
+        const bytes = v.parse(bytesSchema, input);
+        v.parse(operationsSchema, decodeOperations(bytes));
+        return bytes;
+      },
+    };
+  }
   return {
     serializedDoc(input: unknown): JsonDoc {
       return v.parse(serializedDocSchema, input);
@@ -61,4 +112,4 @@ export const DocNodeValidators = () => {
       return v.parse(operationsSchema, input);
     },
   };
-};
+}
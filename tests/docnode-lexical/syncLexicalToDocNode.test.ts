@@ -195,6 +195,39 @@ describe("lexical to docnode sync", () => {
     expect(doc.root.first?.next).toBeUndefined();
   });
 
+  test("editors sharing a doc apply each other's changes but not their own", () => {
+    const createTestEditor = () =>
+      createEditor({
+        namespace: "MyEditor",
+        onError: (error) => {
+          console.error(error);
+        },
+      });
+    const [editor1, editor2] = [createTestEditor(), createTestEditor()];
+    const doc = createLexicalDoc();
+    syncLexicalWithDoc(editor1, doc);
+    syncLexicalWithDoc(editor2, doc);
+    const origins: (string | undefined)[] = [];
+    doc.onChange(({ flags }) => origins.push(flags.origin));
+
+    editor1.update(
+      () => {
+        $getRoot().append($createParagraphNode());
+      },
+      { discrete: true },
+    );
+
+    expect(origins).toStrictEqual(["lexical"]);
+    const countParagraphs = (editor: typeof editor1) =>
+      editor.getEditorState().read(() => $getRoot().getChildrenSize());
+    expect(countParagraphs(editor1)).toBe(1);
+    expect(countParagraphs(editor2)).toBe(1);
+
+    doc.undoManager.undo();
+    expect(countParagraphs(editor1)).toBe(0);
+    expect(countParagraphs(editor2)).toBe(0);
+  });
+
   test("add text to paragraph", () => {
     const editor = createEditor({
       namespace: "MyEditor",
@@ -0,0 +1,244 @@
+import { test, describe, expect } from "vitest";
+import {
+  Doc,
+  defineNode,
+  list,
+  text,
+  type AnnotationsDiff,
+  type DocNode,
+  type Operations,
+} from "@docukit/docnode";
+
+const Paragraph = defineNode({
+  type: "paragraph",
+  state: { content: text(), items: list<string>() },
+});
+
+const config = {
+  type: "root",
+  extensions: [{ nodes: [Paragraph] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+/** Creates a doc with 3 paragraphs and a comment from "llo" to "Wor". */
+function createDoc() {
+  const doc = new Doc(config);
+  ["Hello", "big", "World"].forEach((content) => {
+    const paragraph = doc.createNode(Paragraph);
+    paragraph.state.content.set(content);
+    doc.root.append(paragraph);
+  });
+  doc.forceCommit();
+  const [first, , last] = paragraphs(doc);
+  const comment = doc.annotations.add({
+    id: "comment",
+    start: { nodeId: first!.id, offset: 2, key: "content" },
+    end: { nodeId: last!.id, offset: 3, key: "content" },
+    data: { text: "nice" },
+  });
+  const diffs: AnnotationsDiff[] = [];
+  doc.annotations.onChange((diff) => diffs.push(diff));
+  return { doc, first: first!, last: last!, comment, diffs };
+}
+
+function paragraphs(doc: Doc) {
+  const nodes: DocNode<typeof Paragraph>[] = [];
+  doc.root
+    .children()
+    .forEach((node) => nodes.push(node as DocNode<typeof Paragraph>));
+  return nodes;
+}
+
+const offsets = (doc: Doc) => {
+  const comment = doc.annotations.get("comment");
+  return comment && [comment.start.offset, comment.end.offset];
+};
+
+const diff = (diff: Partial<AnnotationsDiff>): AnnotationsDiff => ({
+  added: new Set(),
+  updated: new Set(),
+  removed: new Set(),
+  ...diff,
+});
+
+describe("annotations", () => {
+  test("add, update and remove", () => {
+    const { doc, first, comment, diffs } = createDoc();
+    expect(doc.annotations.get("comment")).toBe(comment);
+    expect(doc.annotations.getAll()).toStrictEqual([comment]);
+    expect(doc.annotations.getByNode(first.id)).toStrictEqual([comment]);
+    expect(Object.isFrozen(comment)).toBe(true);
+
+    const updated = doc.annotations.update("comment", { data: "edited" });
+    expect(updated.data).toBe("edited");
+    expect(updated.start).toBe(comment.start);
+    const highlight = doc.annotations.add({
+      start: { nodeId: first.id, offset: 0 },
+      end: { nodeId: first.id, offset: 1 },
+    });
+    expect(highlight.id).toMatch(/^[0-9a-z]{26}$/);
+    doc.annotations.remove("comment");
+    expect(doc.annotations.getAll()).toStrictEqual([highlight]);
+    expect(diffs).toStrictEqual([
+      diff({ updated: new Set(["comment"]) }),
+      diff({ added: new Set([highlight.id]) }),
+      diff({ removed: new Set(["comment"]) }),
+    ]);
+  });
+
+  test("errors", () => {
+    const { doc, first } = createDoc();
+    const anchor = { nodeId: first.id, offset: 0 };
+    expect(() =>
+      doc.annotations.add({ id: "comment", start: anchor, end: anchor }),
+    ).toThrowError("Annotation 'comment' already exists");
+    expect(() =>
+      doc.annotations.add({ start: anchor, end: { nodeId: "x", offset: 0 } }),
+    ).toThrowError("Node 'x' is not in the doc");
+    expect(() => doc.annotations.update("x", { data: 1 })).toThrowError(
+      "Annotation 'x' does not exist",
+    );
+  });
+
+  test("the doc is only observed once there are annotations", () => {
+    const doc = new Doc(config);
+    const listeners = doc["_changeListeners"].size;
+    doc.annotations.restore({ annotations: [], states: {} });
+    expect(doc["_changeListeners"].size).toBe(listeners);
+    createDoc();
+  });
+
+  test("offsets are shifted by the changes of the text", () => {
+    const { doc, first, last, diffs } = createDoc();
+    first.state.content.insert(0, ">> ");
+    last.state.content.delete(0, 1);
+    doc.forceCommit();
+    expect(offsets(doc)).toStrictEqual([5, 2]);
+    expect(diffs).toStrictEqual([diff({ updated: new Set(["comment"]) })]);
+
+    // text inserted at the edges is not included in the range
+    first.state.content.insert(5, "_");
+    last.state.content.insert(2, "_");
+    doc.forceCommit();
+    expect(offsets(doc)).toStrictEqual([6, 2]);
+
+    // anchors in deleted text move to the start of the deletion
+    first.state.content.delete(4, 3);
+    doc.forceCommit();
+    expect(offsets(doc)).toStrictEqual([4, 2]);
+
+    // replacing the text collapses the anchors inside it
+    last.state.content.set("W");
+    doc.forceCommit();
+    expect(offsets(doc)).toStrictEqual([4, 0]);
+  });
+
+  test("offsets in list states", () => {
+    const { doc, first } = createDoc();
+    first.state.items.set(["a", "b", "c"]);
+    doc.forceCommit();
+    const { id } = doc.annotations.add({
+      start: { nodeId: first.id, offset: 1, key: "items" },
+      end: { nodeId: first.id, offset: 2, key: "items" },
+    });
+    first.state.items.insert(0, "z");
+    doc.forceCommit();
+    const { start, end } = doc.annotations.get(id)!;
+    expect([start.offset, end.offset]).toStrictEqual([2, 3]);
+  });
+
+  test("deleted nodes detach the annotation until they are restored", () => {
+    const { doc, first, comment, diffs } = createDoc();
+    first.delete();
+    doc.forceCommit();
+    expect(doc.annotations.get("comment")).toBeUndefined();
+    expect(doc.annotations.getAll()).toStrictEqual([]);
+    expect(doc.annotations.toJSON().annotations).toStrictEqual([comment]);
+    doc.undoManager.undo();
+    expect(doc.annotations.get("comment")).toStrictEqual(comment);
+    expect(diffs).toStrictEqual([
+      diff({ removed: new Set(["comment"]) }),
+      diff({ added: new Set(["comment"]) }),
+    ]);
+  });
+
+  test("deleting nodes inside the range doesn't affect it", () => {
+    const { doc, first, comment, diffs } = createDoc();
+    first.next!.delete();
+    doc.forceCommit();
+    expect(doc.annotations.get("comment")).toBe(comment);
+    expect(diffs).toStrictEqual([]);
+  });
+
+  test("anchors follow the nodes when they are moved", () => {
+    const { doc, first, last, comment } = createDoc();
+    first.move(last, "after");
+    doc.forceCommit();
+    expect(doc.annotations.getByNode(first.id)).toStrictEqual([comment]);
+  });
+
+  test("remote operations and undo", () => {
+    const { doc, first } = createDoc();
+    const peer = Doc.fromJSON(config, doc.toJSON());
+    peer.forceCommit();
+    let operations: Operations | undefined;
+    peer.onChange((event) => (operations = event.operations));
+    (peer.getNodeById(first.id) as typeof first).state.content.insert(0, "12");
+    peer.forceCommit();
+    doc.applyOperations(operations!, { skipUndo: true });
+    expect(offsets(doc)).toStrictEqual([4, 3]);
+
+    first.state.content.delete(0, 4);
+    doc.forceCommit();
+    expect(offsets(doc)).toStrictEqual([0, 3]);
+    // the reinserted text is before the start anchor again
+    doc.undoManager.undo();
+    expect(offsets(doc)).toStrictEqual([4, 3]);
+    expect(first.state.content.get()).toBe("12Hello");
+  });
+
+  test("toJSON and restore", () => {
+    const { doc, first } = createDoc();
+    first.delete();
+    doc.forceCommit();
+    const jsonDoc = doc.toJSON();
+    const jsonAnnotations = JSON.parse(
+      JSON.stringify(doc.annotations.toJSON()),
+    ) as ReturnType<typeof doc.annotations.toJSON>;
+
+    const doc2 = Doc.fromJSON(config, jsonDoc);
+    doc2.forceCommit();
+    const diffs: AnnotationsDiff[] = [];
+    doc2.annotations.onChange((diff) => diffs.push(diff));
+    doc2.annotations.restore(jsonAnnotations);
+    // the start node was deleted
+    expect(doc2.annotations.getAll()).toStrictEqual([]);
+    expect(diffs).toStrictEqual([]);
+    expect(doc2.annotations.toJSON()).toStrictEqual(doc.annotations.toJSON());
+
+    const { doc: doc3 } = createDoc();
+    const { id } = doc3.annotations.getAll()[0]!;
+    doc3.annotations.onChange((diff) => diffs.push(diff));
+    doc3.annotations.restore({ annotations: [], states: {} });
+    expect(diffs).toStrictEqual([diff({ removed: new Set([id]) })]);
+  });
+
+  test("restore maps the offsets to the current states", () => {
+    const { doc, first, last } = createDoc();
+    const jsonAnnotations = doc.annotations.toJSON();
+    expect(jsonAnnotations.states).toStrictEqual({
+      [first.id]: { content: "Hello" },
+      [last.id]: { content: "World" },
+    });
+    // the doc changed after the annotations were serialized
+    first.state.content.insert(0, ">> ");
+    last.state.content.delete(0, 1);
+    doc.forceCommit();
+
+    const doc2 = Doc.fromJSON(config, doc.toJSON());
+    doc2.forceCommit();
+    doc2.annotations.restore(jsonAnnotations);
+    expect(offsets(doc2)).toStrictEqual([5, 2]);
+    expect(doc2.annotations.toJSON()).toStrictEqual(doc.annotations.toJSON());
+  });
+});
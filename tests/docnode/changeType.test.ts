@@ -0,0 +1,208 @@
+import { test, describe, expect, expectTypeOf } from "vitest";
+import {
+  Doc,
+  defineNode,
+  type DocNode,
+  number,
+  string,
+  text,
+} from "@docukit/docnode";
+import {
+  assertJson,
+  checkUndoManager,
+  humanReadableOperations,
+  Text,
+} from "./utils.js";
+
+const Heading = defineNode({
+  type: "heading",
+  state: { value: string(""), level: number(1) },
+});
+
+const Paragraph = defineNode({ type: "paragraph", state: { value: text() } });
+
+const Unregistered = defineNode({ type: "unregistered", state: {} });
+
+const config = {
+  type: "root",
+  extensions: [{ nodes: [Text, Heading, Paragraph] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+function createDoc() {
+  const doc = new Doc(config);
+  const text1 = doc.createNode(Text);
+  const text2 = doc.createNode(Text);
+  const text2_1 = doc.createNode(Text);
+  text1.state.value.set("1");
+  text2.state.value.set("2");
+  text2_1.state.value.set("2.1");
+  doc.root.append(text1, text2);
+  text2.append(text2_1);
+  doc.forceCommit();
+  return { doc, text1, text2, text2_1 };
+}
+
+describe("changeType", () => {
+  test("keeps the id, position, children and shared state", () => {
+    const { doc, text1, text2 } = createDoc();
+    const heading = text1.changeType(Heading);
+    expectTypeOf(heading).toEqualTypeOf<DocNode<typeof Heading>>();
+    expect(heading).toBe(text1);
+    expect(heading.type).toBe("heading");
+    expect(heading.state.value.get()).toBe("1");
+    expect(heading.state.level.get()).toBe(1);
+    expect(heading.next).toBe(text2);
+    expect(doc.getNodeById(heading.id)).toBe(heading);
+    text2.changeType(Heading);
+    assertJson(doc, [
+      "root",
+      {},
+      [
+        ["heading", { value: '"1"' }],
+        ["heading", { value: '"2"' }, [["text", { value: '"2.1"' }]]],
+      ],
+    ]);
+  });
+
+  test("state is parsed by the new state definition", () => {
+    const { doc, text1 } = createDoc();
+    const paragraph = text1.changeType(Paragraph);
+    paragraph.state.value.insert(1, "!");
+    expect(paragraph.state.value.get()).toBe("1!");
+    const heading = paragraph.changeType(Heading);
+    heading.state.level.set(2);
+    const node = heading.changeType(Text);
+    expect(node.state.value.get()).toBe("1!");
+    expect("level" in node["_state"]).toBe(false);
+    doc.forceCommit();
+    expect(doc.toJSON()[3]![0][2]).toStrictEqual({ value: '"1!"' });
+  });
+
+  test("range and includeDescendants", () => {
+    const { doc, text1, text2 } = createDoc();
+    text1.to(text2).changeType(Heading);
+    assertJson(doc, [
+      "root",
+      {},
+      [
+        ["heading", { value: '"1"' }],
+        ["heading", { value: '"2"' }, [["text", { value: '"2.1"' }]]],
+      ],
+    ]);
+    text1.to(text2).changeType(Text, { includeDescendants: true });
+    text2.changeType(Heading, { includeDescendants: true });
+    assertJson(doc, [
+      "root",
+      {},
+      [
+        ["text", { value: '"1"' }],
+        ["heading", { value: '"2"' }, [["heading", { value: '"2.1"' }]]],
+      ],
+    ]);
+  });
+
+  test("operations and diff", () => {
+    const { doc, text1, text2 } = createDoc();
+    doc.onChange((changeEvent) => {
+      expect(humanReadableOperations(doc, changeEvent)).toStrictEqual({
+        operations: [
+          "CHANGE TYPE: 1 - 2 to heading (with descendants)",
+          'UPDATE: {"1":{"level":2}}',
+        ],
+        inverseOperations: [
+          "CHANGE TYPE: 2.1 - 2.1 to text",
+          "CHANGE TYPE: 2 - 2 to text",
+          "CHANGE TYPE: 1 - 1 to text",
+          'UPDATE: {"1":{"level":1}}',
+        ],
+        diff: {
+          inserted: new Set(),
+          deleted: {},
+          moved: new Set(),
+          updated: new Set(["1"]),
+        },
+      });
+      expect(changeEvent.diff.typeChanged).toStrictEqual(
+        new Set([text1.id, text2.id, text2.first!.id]),
+      );
+    });
+    text1.to(text2).changeType(Heading, { includeDescendants: true });
+    if (text1.is(Heading)) text1.state.level.set(2);
+    doc.forceCommit();
+  });
+
+  test("nodes inserted in the same transaction are not in diff.typeChanged", () => {
+    const { doc, text2 } = createDoc();
+    doc.onChange(({ operations, diff }) => {
+      expect(diff.typeChanged.size).toBe(0);
+      expect(operations[0]).toStrictEqual([
+        [0, [[heading.id, "text"]], 0, text2.id, 0],
+        [3, "heading", heading.id, 0, 0],
+      ]);
+    });
+    const heading = doc.createNode(Text);
+    doc.root.append(heading);
+    heading.changeType(Heading);
+    doc.forceCommit();
+  });
+
+  test("detached nodes", () => {
+    const doc = new Doc(config);
+    const node = doc.createNode(Text);
+    node.state.value.set("detached");
+    const heading = node.changeType(Heading);
+    doc.root.append(heading);
+    assertJson(doc, ["root", {}, [["heading", { value: '"detached"' }]]]);
+  });
+
+  test("errors", () => {
+    const { doc, text1 } = createDoc();
+    expect(() => doc.root.changeType(Heading)).toThrowError(
+      "Root node type cannot be changed",
+    );
+    expect(() => text1.changeType(Unregistered)).toThrowError(
+      "You attempted to change the type of a node to 'unregistered' with a node definition that was not registered.",
+    );
+    expect(text1.type).toBe("text");
+  });
+
+  test("applyOperations", () => {
+    const { doc } = createDoc();
+    const doc2 = Doc.fromJSON(config, doc.toJSON());
+    doc.onChange(({ operations }) => {
+      doc2.applyOperations(operations);
+    });
+    const heading = doc.root.first!.changeType(Heading);
+    heading.state.level.set(3);
+    doc.root.last!.changeType(Paragraph, { includeDescendants: true });
+    doc.forceCommit();
+    expect(doc2.toJSON()).toStrictEqual(doc.toJSON());
+  });
+
+  test("checkUndoManager", () => {
+    const doc = new Doc({
+      type: "root",
+      extensions: [{ nodes: [Text, Heading, Paragraph] }],
+    });
+    checkUndoManager(4, doc, () => {
+      const node1 = doc.createNode(Text);
+      const node2 = doc.createNode(Text);
+      node1.state.value.set("1");
+      node2.state.value.set("2");
+      doc.root.append(node1, node2);
+      doc.forceCommit();
+      const heading = node1.changeType(Heading);
+      heading.state.level.set(2);
+      node2.append(doc.createNode(Text));
+      doc.forceCommit();
+      heading.state.value.set("one");
+      const paragraph = heading.changeType(Paragraph);
+      paragraph.state.value.insert(0, ">");
+      node2.changeType(Heading, { includeDescendants: true });
+      doc.forceCommit();
+      paragraph.changeType(Text);
+      node2.delete();
+    });
+  });
+});
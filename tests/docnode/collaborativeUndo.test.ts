@@ -0,0 +1,206 @@
+import { test, describe, expect } from "vitest";
+import {
+  type ApplyOperationsReport,
+  Doc,
+  defineNode,
+  type DocNode,
+  text as textState,
+} from "@docukit/docnode";
+import { assertDoc, find, text, Text } from "./utils.js";
+
+const Note = defineNode({ type: "note", state: { content: textState() } });
+
+const config = {
+  type: "root",
+  extensions: [{ nodes: [Text, Note] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+/**
+ * Creates a local and a remote doc that are kept in sync. Remote operations
+ * are applied to the local doc with `skipUndo`, like a sync provider would.
+ */
+function createDocs() {
+  const base = new Doc(config);
+  base.root.append(...text(base, "1", "2", "3"));
+  base.root.first!.append(...text(base, "1.1", "1.2"));
+  base.forceCommit();
+  const local = Doc.fromJSON(config, base.toJSON());
+  const remote = Doc.fromJSON(config, base.toJSON());
+  local.forceCommit();
+  remote.forceCommit();
+  // Transactions with skipUndo come from the other doc
+  local.onChange(({ operations, flags }) => {
+    if (!flags.skipUndo) remote.applyOperations(operations, { skipUndo: true });
+  });
+  remote.onChange(({ operations, flags }) => {
+    if (!flags.skipUndo) local.applyOperations(operations, { skipUndo: true });
+  });
+  const conflicts: ApplyOperationsReport[] = [];
+  local.onConflict((report) => conflicts.push(report));
+  return { local, remote, conflicts };
+}
+
+const setValue = (doc: Doc, value: string, newValue: string) => {
+  find(doc, value).state.value.set(newValue);
+  doc.forceCommit();
+};
+
+describe("collaborative undo", () => {
+  test("keeps remote nodes", () => {
+    const { local, remote } = createDocs();
+    find(local, "1").insertAfter(...text(local, "local"));
+    local.forceCommit();
+    find(remote, "local").insertAfter(...text(remote, "remote"));
+    remote.forceCommit();
+    local.undoManager.undo();
+    assertDoc(local, ["1", "__1.1", "__1.2", "remote", "2", "3"]);
+    assertDoc(remote, ["1", "__1.1", "__1.2", "remote", "2", "3"]);
+    local.undoManager.redo();
+    assertDoc(local, ["1", "__1.1", "__1.2", "local", "remote", "2", "3"]);
+  });
+
+  test("nodes deleted remotely are not restored", () => {
+    const { local, remote, conflicts } = createDocs();
+    find(local, "1.1").delete();
+    local.forceCommit();
+    find(remote, "1").delete();
+    remote.forceCommit();
+    local.undoManager.undo();
+    assertDoc(local, ["2", "3"]);
+    expect(conflicts).toStrictEqual([]);
+  });
+
+  test("state changed remotely is not overwritten", () => {
+    const { local, remote } = createDocs();
+    setValue(local, "2", "2-local");
+    setValue(local, "3", "3-local");
+    setValue(remote, "2-local", "2-remote");
+    local.undoManager.undo();
+    assertDoc(local, ["1", "__1.1", "__1.2", "2-remote", "3"]);
+    local.undoManager.undo();
+    assertDoc(local, ["1", "__1.1", "__1.2", "2-remote", "3"]);
+    expect(local.undoManager.canUndo()).toBe(false);
+    assertDoc(remote, ["1", "__1.1", "__1.2", "2-remote", "3"]);
+  });
+
+  test("items with nothing left to revert are dropped", () => {
+    const { local, remote } = createDocs();
+    const events: { canUndo: boolean; canRedo: boolean }[] = [];
+    local.undoManager.onStackChange((event) => events.push(event));
+    setValue(local, "2", "2-local");
+    setValue(local, "3", "3-local");
+    local.undoManager.undo();
+    events.length = 0;
+    setValue(remote, "2-local", "2-remote");
+    expect(local.undoManager.canUndo()).toBe(false);
+    expect(local.undoManager.canRedo()).toBe(true);
+    expect(events).toStrictEqual([{ canUndo: false, canRedo: true }]);
+    setValue(remote, "3", "3-remote");
+    expect(local.undoManager.canRedo()).toBe(false);
+    expect(events.at(-1)).toStrictEqual({ canUndo: false, canRedo: false });
+    assertDoc(local, ["1", "__1.1", "__1.2", "2-remote", "3-remote"]);
+  });
+
+  test("deltas deleted remotely are dropped", () => {
+    const { local, remote } = createDocs();
+    const note = local.createNode(Note);
+    local.root.append(note);
+    local.forceCommit();
+    local.undoManager.clear();
+    const remoteNote = remote.getNodeById(note.id) as DocNode<typeof Note>;
+    note.state.content.insert(0, "hello");
+    local.forceCommit();
+    expect(local.undoManager.canUndo()).toBe(true);
+    remoteNote.state.content.delete(0, 5);
+    remote.forceCommit();
+    expect(local.undoManager.canUndo()).toBe(false);
+  });
+
+  test("redo stack", () => {
+    const { local, remote, conflicts } = createDocs();
+    find(local, "2").append(...text(local, "2.1"));
+    local.forceCommit();
+    setValue(local, "3", "3-local");
+    local.undoManager.undo();
+    local.undoManager.undo();
+    find(remote, "2").delete();
+    setValue(remote, "3", "3-remote");
+    local.undoManager.redo();
+    local.undoManager.redo();
+    assertDoc(local, ["1", "__1.1", "__1.2", "3-remote"]);
+    expect(conflicts).toStrictEqual([]);
+  });
+
+  test("concurrent deltas are kept", () => {
+    const { local, remote } = createDocs();
+    const note = local.createNode(Note);
+    local.root.append(note);
+    local.forceCommit();
+    const remoteNote = remote.getNodeById(note.id) as DocNode<typeof Note>;
+    note.state.content.insert(0, "hello");
+    local.forceCommit();
+    remoteNote.state.content.insert(5, " world");
+    remote.forceCommit();
+    local.undoManager.undo();
+    expect(note.state.content.get()).toBe(" world");
+    expect(remoteNote.state.content.get()).toBe(" world");
+  });
+
+  test("local deltas are rebased over remote deltas", () => {
+    const { local, remote } = createDocs();
+    const note = local.createNode(Note);
+    local.root.append(note);
+    local.forceCommit();
+    const remoteNote = remote.getNodeById(note.id) as DocNode<typeof Note>;
+    note.state.content.insert(0, "Hello");
+    local.forceCommit();
+    note.state.content.delete(0, 2);
+    local.forceCommit();
+    // one insert before the local edits and another one after them
+    remoteNote.state.content.insert(3, "!");
+    remoteNote.state.content.insert(0, ">");
+    remote.forceCommit();
+    expect(note.state.content.get()).toBe(">llo!");
+    local.undoManager.undo();
+    expect(note.state.content.get()).toBe(">Hello!");
+    local.undoManager.undo();
+    expect(note.state.content.get()).toBe(">!");
+    local.undoManager.redo();
+    expect(note.state.content.get()).toBe(">Hello!");
+    local.undoManager.redo();
+    expect(note.state.content.get()).toBe(">llo!");
+    expect(remoteNote.state.content.get()).toBe(">llo!");
+  });
+
+  test("the redo stack is rebased over remote deltas", () => {
+    const { local, remote } = createDocs();
+    const note = local.createNode(Note);
+    note.state.content.set("Hello");
+    local.root.append(note);
+    local.forceCommit();
+    const remoteNote = remote.getNodeById(note.id) as DocNode<typeof Note>;
+    note.state.content.insert(5, "X");
+    local.forceCommit();
+    local.undoManager.undo();
+    remoteNote.state.content.insert(0, ">>");
+    remote.forceCommit();
+    local.undoManager.redo();
+    expect(note.state.content.get()).toBe(">>HelloX");
+    local.undoManager.undo();
+    expect(note.state.content.get()).toBe(">>Hello");
+    expect(remoteNote.state.content.get()).toBe(">>Hello");
+  });
+
+  test("local transactions with skipUndo", () => {
+    const local = new Doc(config);
+    local.root.append(...text(local, "1", "2", "3"));
+    local.root.first!.append(...text(local, "1.1", "1.2"));
+    local.forceCommit();
+    find(local, "1.1").delete();
+    local.forceCommit();
+    local.forceCommit(() => find(local, "1").delete(), { skipUndo: true });
+    local.undoManager.undo();
+    assertDoc(local, ["2", "3"]);
+  });
+});
@@ -0,0 +1,438 @@
+import { test, describe, expect, expectTypeOf } from "vitest";
+import {
+  Doc,
+  counter,
+  defineNode,
+  list,
+  map,
+  mergeOperations,
+  set,
+  transformOperations,
+  type DocNode,
+} from "@docukit/docnode";
+import {
+  assertJson,
+  checkUndoManager,
+  deltas,
+  fork,
+  getPrevError,
+  recordOperations,
+} from "./utils.js";
+
+const Item = defineNode({
+  type: "item",
+  state: { styles: map<string>(), tags: set<string>(), rows: list<number>() },
+});
+
+const Post = defineNode({ type: "post", state: { likes: counter() } });
+
+const config = {
+  type: "root",
+  extensions: [{ nodes: [Item, Post] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+function createDoc() {
+  const doc = new Doc(config);
+  const item = doc.createNode(Item);
+  item.state.styles.set({ color: "red" });
+  item.state.tags.set(new Set(["a"]));
+  item.state.rows.set([1, 2, 3]);
+  doc.root.append(item);
+  doc.forceCommit();
+  return { doc, item };
+}
+
+describe("map, set and list states", () => {
+  test("types", () => {
+    const { item } = createDoc();
+    expectTypeOf(item.state.styles.get()).toEqualTypeOf<
+      Readonly<Record<string, string>>
+    >();
+    expectTypeOf(item.state.styles.setKey).toEqualTypeOf<
+      (key: string, value: string) => void
+    >();
+    expectTypeOf(item.state.tags.get()).toEqualTypeOf<ReadonlySet<string>>();
+    expectTypeOf(item.state.tags.add).toEqualTypeOf<(value: string) => void>();
+    expectTypeOf(item.state.rows.get()).toEqualTypeOf<readonly number[]>();
+    expectTypeOf(item.state.rows.insert).toEqualTypeOf<
+      (index: number, ...items: number[]) => void
+    >();
+  });
+
+  test("methods", () => {
+    const { item } = createDoc();
+    item.state.styles.setKey("size", "12px");
+    item.state.styles.deleteKey("color");
+    expect(item.state.styles.get()).toStrictEqual({ size: "12px" });
+    item.state.tags.add("b");
+    item.state.tags.delete("a");
+    expect(item.state.tags.get()).toStrictEqual(new Set(["b"]));
+    item.state.rows.insert(1, 4, 5);
+    item.state.rows.delete(0, 1);
+    item.state.rows.push(6);
+    expect(item.state.rows.get()).toStrictEqual([4, 5, 2, 3, 6]);
+  });
+
+  test("JSON is independent of the insertion order", () => {
+    const { doc, item } = createDoc();
+    item.state.styles.setKey("align", "left");
+    item.state.tags.add("0");
+    assertJson(doc, [
+      "root",
+      {},
+      [
+        [
+          "item",
+          {
+            styles: '{"align":"left","color":"red"}',
+            tags: '["0","a"]',
+            rows: "[1,2,3]",
+          },
+        ],
+      ],
+    ]);
+    const doc2 = Doc.fromJSON(config, doc.toJSON({ unsafe: true }));
+    const item2 = doc2.root.first as DocNode<typeof Item>;
+    expect(item2.state.tags.get()).toStrictEqual(new Set(["0", "a"]));
+  });
+
+  test("updates are sent per entry", () => {
+    const { doc, item } = createDoc();
+    doc.onChange(({ operations, inverseOperations }) => {
+      const patch = operations[1][item.id]!;
+      const inversePatch = inverseOperations[1][item.id]!;
+      expect(deltas(patch.styles)).toStrictEqual([
+        [["size", "12px"]],
+        [["color"]],
+      ]);
+      expect(deltas(inversePatch.styles)).toStrictEqual([
+        [["color", "red"]],
+        [["size"]],
+      ]);
+      expect(deltas(patch.tags)).toStrictEqual([[["b"], ["a"]]]);
+      expect(deltas(inversePatch.tags)).toStrictEqual([[["a"], ["b"]]]);
+      expect(deltas(patch.rows)).toStrictEqual([[1, [4]]]);
+      expect(deltas(inversePatch.rows)).toStrictEqual([[1, -1]]);
+    });
+    item.state.styles.setKey("size", "12px");
+    item.state.styles.deleteKey("color");
+    item.state.tags.set(new Set(["b"]));
+    item.state.rows.insert(1, 4);
+    doc.forceCommit();
+  });
+
+  test("list insert and delete send deltas at the given index", () => {
+    const { doc, item } = createDoc();
+    item.state.rows.set([1, 1, 1]);
+    doc.forceCommit();
+    const insertOperations = recordOperations(doc, () => {
+      item.state.rows.insert(0, 1);
+    });
+    expect(deltas(insertOperations[1][item.id]!.rows)).toStrictEqual([[[1]]]);
+    const deleteOperations = recordOperations(doc, () => {
+      item.state.rows.delete(2, 10);
+    });
+    expect(deltas(deleteOperations[1][item.id]!.rows)).toStrictEqual([[2, -2]]);
+    expect(item.state.rows.get()).toStrictEqual([1, 1]);
+  });
+
+  test("reverting to the initial value in the same transaction is a no-op", () => {
+    const { doc, item } = createDoc();
+    let count = 0;
+    doc.onChange(() => count++);
+    item.state.styles.setKey("size", "12px");
+    item.state.styles.deleteKey("size");
+    item.state.tags.add("b");
+    item.state.tags.delete("b");
+    doc.forceCommit();
+    expect(count).toBe(0);
+  });
+
+  test("getPrev", () => {
+    const { doc, item } = createDoc();
+    expect(() => item.state.styles.getPrev()).toThrowError(getPrevError);
+    item.state.styles.setKey("size", "12px");
+    item.state.tags.add("b");
+    expect(item.state.styles.getPrev()).toStrictEqual([true, { color: "red" }]);
+    expect(item.state.tags.getPrev()).toStrictEqual([true, new Set(["a"])]);
+    doc.forceCommit();
+  });
+
+  test("mergeOperations composes the deltas", () => {
+    const { doc, item } = createDoc();
+    const { doc: doc2, node: item2 } = fork(doc, Item);
+    const operations1 = recordOperations(doc, () => {
+      item.state.styles.setKey("size", "12px");
+    });
+    const operations2 = recordOperations(doc, () => {
+      item.state.styles.setKey("align", "left");
+    });
+    const merged = mergeOperations(operations1, operations2);
+    expect(deltas(merged[1][item.id]!.styles)).toHaveLength(2);
+    doc2.applyOperations(merged);
+    expect(item2.state.styles.get()).toStrictEqual(item.state.styles.get());
+  });
+
+  test("checkUndoManager", () => {
+    const doc = new Doc({ type: "root", extensions: [{ nodes: [Item] }] });
+    checkUndoManager(3, doc, () => {
+      const item = doc.createNode(Item);
+      item.state.styles.setKey("color", "red");
+      doc.root.append(item);
+      doc.forceCommit();
+      item.state.styles.setKey("size", "12px");
+      item.state.tags.add("a");
+      item.state.rows.push(1, 2);
+      doc.forceCommit();
+      item.state.styles.deleteKey("color");
+      item.state.tags.add("b");
+      item.state.rows.insert(1, 3);
+    });
+  });
+});
+
+describe("map, set and list states - concurrency", () => {
+  test("concurrent updates are merged instead of the last writer winning", () => {
+    const { doc } = createDoc();
+    const peer1 = fork(doc, Item);
+    const peer2 = fork(doc, Item);
+    const operations1 = recordOperations(peer1.doc, () => {
+      peer1.node.state.styles.setKey("size", "12px");
+      peer1.node.state.tags.add("b");
+      peer1.node.state.rows.push(4);
+    });
+    const operations2 = recordOperations(peer2.doc, () => {
+      peer2.node.state.styles.setKey("align", "left");
+      peer2.node.state.tags.add("c");
+      peer2.node.state.tags.delete("a");
+      peer2.node.state.rows.insert(0, 0);
+    });
+    doc.applyOperations(operations1);
+    doc.applyOperations(operations2);
+    const item = doc.root.first as DocNode<typeof Item>;
+    expect(item.state.styles.get()).toStrictEqual({
+      color: "red",
+      size: "12px",
+      align: "left",
+    });
+    expect(item.state.tags.get()).toStrictEqual(new Set(["b", "c"]));
+    expect(item.state.rows.get()).toStrictEqual([0, 1, 2, 3, 4]);
+
+    // the peers converge when they apply the operations of each other
+    peer1.doc.applyOperations(
+      transformOperations(operations2, operations1, peer1.doc),
+    );
+    peer2.doc.applyOperations(
+      transformOperations(operations1, operations2, peer2.doc),
+    );
+    for (const peer of [peer1, peer2])
+      expect(peer.node.toJSON()[2]).toStrictEqual(item.toJSON()[2]);
+  });
+
+  test("concurrent list updates are rebased", () => {
+    const { doc } = createDoc();
+    const peer1 = fork(doc, Item);
+    const peer2 = fork(doc, Item);
+    const operations1 = recordOperations(peer1.doc, () => {
+      peer1.node.state.rows.delete(0, 2);
+      peer1.node.state.rows.push(5);
+    });
+    const operations2 = recordOperations(peer2.doc, () => {
+      peer2.node.state.rows.insert(1, 4);
+      peer2.node.state.rows.push(6);
+    });
+    peer1.doc.applyOperations(
+      transformOperations(operations2, operations1, peer1.doc),
+    );
+    peer2.doc.applyOperations(
+      transformOperations(operations1, operations2, peer2.doc),
+    );
+    expect(peer1.node.state.rows.get()).toStrictEqual([4, 3, 5, 6]);
+    expect(peer2.node.state.rows.get()).toStrictEqual([4, 3, 5, 6]);
+  });
+
+  test("concurrent updates to the same key are last-writer-wins", () => {
+    const { doc, item } = createDoc();
+    const peer1 = fork(doc, Item);
+    const peer2 = fork(doc, Item);
+    const operations1 = recordOperations(peer1.doc, () => {
+      peer1.node.state.styles.setKey("color", "blue");
+    });
+    const operations2 = recordOperations(peer2.doc, () => {
+      peer2.node.state.styles.setKey("color", "green");
+    });
+    doc.applyOperations(operations1);
+    doc.applyOperations(operations2);
+    expect(item.state.styles.get()).toStrictEqual({ color: "green" });
+  });
+
+  test("undo only reverts the local entries", () => {
+    const { doc, item } = createDoc();
+    const peer = fork(doc, Item);
+    item.state.styles.setKey("size", "12px");
+    item.state.tags.add("b");
+    doc.forceCommit();
+    const remoteOperations = recordOperations(peer.doc, () => {
+      peer.node.state.styles.setKey("align", "left");
+      peer.node.state.tags.add("c");
+    });
+    doc.applyOperations(remoteOperations, { skipUndo: true });
+    doc.undoManager.undo();
+    expect(item.state.styles.get()).toStrictEqual({
+      color: "red",
+      align: "left",
+    });
+    expect(item.state.tags.get()).toStrictEqual(new Set(["a", "c"]));
+    doc.undoManager.redo();
+    expect(item.state.tags.get()).toStrictEqual(new Set(["a", "b", "c"]));
+  });
+
+  test("applying the same operations twice is idempotent", () => {
+    const { doc, item } = createDoc();
+    const peer = fork(doc, Item);
+    const operations = recordOperations(peer.doc, () => {
+      peer.node.state.rows.push(4);
+    });
+    doc.applyOperations(operations);
+    doc.applyOperations(operations);
+    expect(item.state.rows.get()).toStrictEqual([1, 2, 3, 4]);
+  });
+});
+
+describe("counter state", () => {
+  function createPost() {
+    const doc = new Doc(config);
+    const post = doc.createNode(Post);
+    doc.root.append(post);
+    doc.forceCommit();
+    return { doc, post };
+  }
+
+  test("types and methods", () => {
+    const { post } = createPost();
+    expectTypeOf(post.state.likes.get()).toEqualTypeOf<number>();
+    expectTypeOf(post.state.likes.increment).toEqualTypeOf<
+      (step?: number) => void
+    >();
+    expect(post.state.likes.get()).toBe(0);
+    post.state.likes.increment();
+    post.state.likes.increment(5);
+    post.state.likes.decrement(2);
+    expect(post.state.likes.get()).toBe(4);
+  });
+
+  test("updates are sent as the amount added", () => {
+    const { doc, post } = createPost();
+    post.state.likes.set(3);
+    doc.forceCommit();
+    const operations = recordOperations(doc, () => {
+      post.state.likes.increment(4);
+      post.state.likes.set((prev) => prev - 1);
+    });
+    expect(deltas(operations[1][post.id]!.likes)).toStrictEqual([4, -1]);
+    assertJson(doc, ["root", {}, [["post", { likes: "6" }]]]);
+  });
+
+  test("concurrent increments are added up", () => {
+    const { doc, post } = createPost();
+    const peer1 = fork(doc, Post);
+    const peer2 = fork(doc, Post);
+    const operations1 = recordOperations(peer1.doc, () => {
+      peer1.node.state.likes.increment();
+    });
+    const operations2 = recordOperations(peer2.doc, () => {
+      peer2.node.state.likes.increment(2);
+    });
+    doc.applyOperations(operations1);
+    doc.applyOperations(operations2);
+    expect(post.state.likes.get()).toBe(3);
+    // counters converge regardless of the order of the operations
+    peer1.doc.applyOperations(operations2);
+    peer2.doc.applyOperations(operations1);
+    expect(peer1.node.state.likes.get()).toBe(3);
+    expect(peer2.node.state.likes.get()).toBe(3);
+  });
+
+  test("equal concurrent increments are added up", () => {
+    const { doc, post } = createPost();
+    const peer1 = fork(doc, Post);
+    const peer2 = fork(doc, Post);
+    const operations1 = recordOperations(peer1.doc, () => {
+      peer1.node.state.likes.increment();
+    });
+    const operations2 = recordOperations(peer2.doc, () => {
+      peer2.node.state.likes.increment();
+    });
+    expect(deltas(operations1[1][post.id]!.likes)).toStrictEqual(
+      deltas(operations2[1][post.id]!.likes),
+    );
+    doc.applyOperations(operations1);
+    doc.applyOperations(operations2);
+    expect(post.state.likes.get()).toBe(2);
+    peer1.doc.applyOperations(
+      transformOperations(operations2, operations1, peer1.doc),
+    );
+    peer2.doc.applyOperations(
+      transformOperations(operations1, operations2, peer2.doc),
+    );
+    expect(peer1.node.state.likes.get()).toBe(2);
+    expect(peer2.node.state.likes.get()).toBe(2);
+  });
+
+  test("applying the same increment twice adds it once", () => {
+    const { doc, post } = createPost();
+    const peer = fork(doc, Post);
+    const operations = recordOperations(peer.doc, () => {
+      peer.node.state.likes.increment();
+    });
+    doc.applyOperations(operations);
+    doc.applyOperations(mergeOperations(operations, operations));
+    expect(post.state.likes.get()).toBe(1);
+    // its own increments are skipped too
+    peer.doc.applyOperations(operations);
+    expect(peer.node.state.likes.get()).toBe(1);
+  });
+
+  test("mergeOperations composes the increments", () => {
+    const { doc, post } = createPost();
+    const peer = fork(doc, Post);
+    const operations1 = recordOperations(doc, () => {
+      post.state.likes.increment(2);
+    });
+    const operations2 = recordOperations(doc, () => {
+      post.state.likes.decrement();
+    });
+    peer.doc.applyOperations(mergeOperations(operations1, operations2));
+    expect(peer.node.state.likes.get()).toBe(1);
+  });
+
+  test("undo only reverts the local increments", () => {
+    const { doc, post } = createPost();
+    const peer = fork(doc, Post);
+    post.state.likes.increment(2);
+    doc.forceCommit();
+    const remoteOperations = recordOperations(peer.doc, () => {
+      peer.node.state.likes.increment(10);
+    });
+    doc.applyOperations(remoteOperations, { skipUndo: true });
+    expect(post.state.likes.get()).toBe(12);
+    doc.undoManager.undo();
+    expect(post.state.likes.get()).toBe(10);
+    doc.undoManager.redo();
+    expect(post.state.likes.get()).toBe(12);
+  });
+
+  test("checkUndoManager", () => {
+    const doc = new Doc({ type: "root", extensions: [{ nodes: [Post] }] });
+    checkUndoManager(3, doc, () => {
+      const post = doc.createNode(Post);
+      post.state.likes.increment();
+      doc.root.append(post);
+      doc.forceCommit();
+      post.state.likes.increment(3);
+      doc.forceCommit();
+      post.state.likes.decrement(2);
+    });
+  });
+});
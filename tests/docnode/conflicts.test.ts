@@ -0,0 +1,170 @@
+import { test, describe, expect } from "vitest";
+import {
+  Doc,
+  defineNode,
+  type ApplyOperationsReport,
+  number,
+} from "@docukit/docnode";
+import { assertDoc, find, recordOperations, text, Text } from "./utils.js";
+
+const Counter = defineNode({ type: "counter", state: { count: number(0) } });
+
+const config = { type: "root", extensions: [{ nodes: [Text, Counter] }] };
+
+function createDocs() {
+  const doc = new Doc(config);
+  doc.root.append(...text(doc, "1", "2", "3"));
+  doc.root.first!.append(...text(doc, "1.1"));
+  doc.forceCommit();
+  const doc2 = Doc.fromJSON(config, doc.toJSON());
+  doc2.forceCommit();
+  return { doc, doc2 };
+}
+
+describe("conflicts", () => {
+  test("no conflicts", () => {
+    const { doc, doc2 } = createDocs();
+    const operations = recordOperations(doc, () => {
+      find(doc, "1").insertAfter(...text(doc, "1b"));
+      find(doc, "3").move(doc.root, "prepend");
+      find(doc, "2").delete();
+    });
+    expect(doc2.applyOperations(operations)).toStrictEqual({ conflicts: [] });
+    expect(doc2.toJSON()).toStrictEqual(doc.toJSON());
+  });
+
+  test("insert into a deleted node", () => {
+    const { doc, doc2 } = createDocs();
+    const operations = recordOperations(doc, () => {
+      const [node] = text(doc, "1.2");
+      find(doc, "1").append(node!);
+    });
+    find(doc2, "1").delete();
+    doc2.forceCommit();
+    const parentId = find(doc, "1").id;
+    const nodeId = find(doc, "1.2").id;
+    expect(doc2.applyOperations(operations).conflicts).toStrictEqual([
+      {
+        resolution: "skipped",
+        reason: "missingParent",
+        operation: operations[0][0],
+        nodeId: parentId,
+      },
+      { resolution: "skipped", reason: "missingNode", nodeId },
+    ]);
+  });
+
+  test("insert next to a moved node", () => {
+    const { doc, doc2 } = createDocs();
+    const operations = recordOperations(doc, () => {
+      find(doc, "2").insertAfter(...text(doc, "2b"));
+    });
+    find(doc2, "2").move(find(doc2, "1"), "append");
+    find(doc2, "3").delete();
+    doc2.forceCommit();
+    expect(doc2.applyOperations(operations).conflicts).toStrictEqual([
+      {
+        resolution: "adjusted",
+        reason: "missingAnchor",
+        operation: operations[0][0],
+      },
+    ]);
+    assertDoc(doc2, ["1", "__1.1", "__2", "2b"]);
+  });
+
+  test("delete and move deleted nodes", () => {
+    const { doc, doc2 } = createDocs();
+    const id2 = find(doc, "2").id;
+    const id3 = find(doc, "3").id;
+    const operations = recordOperations(doc, () => {
+      find(doc, "3").move(find(doc, "2"), "append");
+      find(doc, "1").to(find(doc, "2")).delete();
+    });
+    find(doc2, "2").delete();
+    find(doc2, "3").delete();
+    doc2.forceCommit();
+    const { conflicts } = doc2.applyOperations(operations);
+    expect(conflicts).toStrictEqual([
+      {
+        resolution: "skipped",
+        reason: "missingNode",
+        operation: operations[0][0],
+        nodeId: id3,
+      },
+      {
+        resolution: "skipped",
+        reason: "missingNode",
+        operation: operations[0][1],
+        nodeId: id2,
+      },
+    ]);
+    assertDoc(doc2, ["1", "__1.1"]);
+  });
+
+  test("move into a deleted node or into itself", () => {
+    const { doc, doc2 } = createDocs();
+    const operations = recordOperations(doc, () => {
+      find(doc, "3").move(find(doc, "2"), "append");
+      find(doc, "1").move(find(doc, "3"), "append");
+    });
+    find(doc2, "2").delete();
+    find(doc2, "3").move(find(doc2, "1.1"), "append");
+    doc2.forceCommit();
+    const { conflicts } = doc2.applyOperations(operations);
+    expect(conflicts).toStrictEqual([
+      {
+        resolution: "skipped",
+        reason: "missingParent",
+        operation: operations[0][0],
+        nodeId: operations[0][0]![3],
+      },
+      {
+        resolution: "skipped",
+        reason: "invalidTarget",
+        operation: operations[0][1],
+      },
+    ]);
+    assertDoc(doc2, ["1", "__1.1", "____3"]);
+  });
+
+  test("state of deleted nodes and unknown states", () => {
+    const { doc, doc2 } = createDocs();
+    const id1 = find(doc, "1").id;
+    const id2 = find(doc, "2").id;
+    const operations = recordOperations(doc, () => {
+      find(doc, "1").state.value.set("one");
+      find(doc, "2").state.value.set("two");
+    });
+    find(doc2, "1").delete();
+    find(doc2, "2").changeType(Counter);
+    doc2.forceCommit();
+    expect(doc2.applyOperations(operations).conflicts).toStrictEqual([
+      { resolution: "skipped", reason: "missingNode", nodeId: id1 },
+      {
+        resolution: "skipped",
+        reason: "unknownState",
+        nodeId: id2,
+        key: "value",
+      },
+    ]);
+  });
+
+  test("onConflict", () => {
+    const { doc, doc2 } = createDocs();
+    const reports: ApplyOperationsReport[] = [];
+    const off = doc2.onConflict((report) => reports.push(report));
+    const operations = recordOperations(doc, () => {
+      find(doc, "1.1").state.value.set("one");
+    });
+    doc2.applyOperations(operations);
+    expect(reports).toHaveLength(0);
+    const operations2 = recordOperations(doc, () => find(doc, "one").delete());
+    find(doc2, "1").delete();
+    doc2.forceCommit();
+    const report = doc2.applyOperations(operations2);
+    expect(reports).toStrictEqual([report]);
+    off();
+    doc2.applyOperations(operations2);
+    expect(reports).toHaveLength(1);
+  });
+});
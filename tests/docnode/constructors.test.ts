@@ -9,6 +9,7 @@ import {
 import type {
   Json,
   StateDefinition,
+  StateDelta,
   NodeDefinition,
   DefaultStateMethods,
   JsonDoc,
@@ -75,7 +76,10 @@ describe("types", () => {
         toJSON?: (value: string) => string;
         methods?: (
           methods: DefaultStateMethods<string>,
+          node: DocNode,
         ) => DefaultStateMethods<string>;
+        delta?: StateDelta<string>;
+        remapIds?: (value: string, remap: (id: string) => string) => string;
       }>();
       expectTypeOf<
         StateDefinition<Date, string, DefaultStateMethods<Date>>
@@ -86,7 +90,10 @@ describe("types", () => {
         toJSON?: (value: Date) => string;
         methods?: (
           methods: DefaultStateMethods<Date>,
+          node: DocNode,
         ) => DefaultStateMethods<Date>;
+        delta?: StateDelta<Date>;
+        remapIds?: (value: Date, remap: (id: string) => string) => Date;
       }>();
       // @ts-expect-error - undefined is not JSON serializable
       type _SerializableError = StateDefinition<Error, undefined>;
@@ -0,0 +1,256 @@
+import { test, describe, expect } from "vitest";
+import {
+  Doc,
+  defineNode,
+  diffDocs,
+  type DocNode,
+  type JsonDoc,
+  number,
+  string,
+  text as textState,
+} from "@docukit/docnode";
+import { assertDoc, text, Text } from "./utils.js";
+
+const Heading = defineNode({
+  type: "heading",
+  state: { value: string(""), level: number(1) },
+});
+
+const Paragraph = defineNode({
+  type: "paragraph",
+  state: { content: textState() },
+});
+
+const config = {
+  type: "root",
+  extensions: [{ nodes: [Text, Heading, Paragraph] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+function createDoc() {
+  const doc = new Doc(config);
+  doc.root.append(...text(doc, "1", "2", "3", "4"));
+  doc.root.first!.append(...text(doc, "1.1", "1.2"));
+  doc.forceCommit();
+  return doc;
+}
+
+/**
+ * Applies the operations of `diffDocs` between the doc and the result of
+ * `fn` to a copy of the doc, and checks that undo restores it.
+ */
+function diffAndApply(fn: (doc: Doc) => void) {
+  const from = createDoc().toJSON();
+  const target = Doc.fromJSON(config, from);
+  fn(target);
+  target.forceCommit();
+  const to = target.toJSON();
+  const operations = diffDocs(config, from, to);
+  const doc = Doc.fromJSON(config, from);
+  doc.forceCommit();
+  doc.applyOperations(operations);
+  expect(doc.toJSON()).toStrictEqual(to);
+  doc.undoManager.undo();
+  expect(doc.toJSON()).toStrictEqual(from);
+  return { operations, doc, from, to };
+}
+
+const byId = (doc: Doc, id: string) => doc.getNodeById(id)!;
+
+describe("diffDocs", () => {
+  test("equal docs", () => {
+    const json = createDoc().toJSON();
+    expect(diffDocs(config, json, json)).toStrictEqual([[], {}]);
+  });
+
+  test("insert", () => {
+    const { operations } = diffAndApply((doc) => {
+      doc.root.first!.insertAfter(...text(doc, "new1", "new2"));
+      doc.root.last!.append(...text(doc, "4.1"));
+    });
+    expect(operations[0].map((op) => op[0])).toStrictEqual([0, 0]);
+  });
+
+  test("insert with descendants", () => {
+    const { operations, doc } = diffAndApply((doc) => {
+      const [parent] = text(doc, "new");
+      parent!.append(...text(doc, "new.1", "new.2"));
+      doc.root.append(parent!);
+    });
+    doc.undoManager.redo();
+    assertDoc(doc, [
+      "1",
+      "__1.1",
+      "__1.2",
+      "2",
+      "3",
+      "4",
+      "new",
+      "__new.1",
+      "__new.2",
+    ]);
+    expect(operations[0].map((op) => op[0])).toStrictEqual([0, 0]);
+  });
+
+  test("delete", () => {
+    const { operations, doc } = diffAndApply((doc) => {
+      const second = doc.root.first!.next!;
+      second.to(second.next!).delete();
+      doc.root.first!.first!.delete();
+    });
+    doc.undoManager.redo();
+    assertDoc(doc, ["1", "__1.2", "4"]);
+    expect(operations[0]).toHaveLength(2);
+  });
+
+  test("move", () => {
+    const { operations, doc } = diffAndApply((doc) => {
+      doc.root.last!.move(doc.root, "prepend");
+    });
+    doc.undoManager.redo();
+    assertDoc(doc, ["4", "1", "__1.1", "__1.2", "2", "3"]);
+    expect(operations[0]).toHaveLength(1);
+    expect(operations[0][0]![0]).toBe(2);
+  });
+
+  test("move to another parent", () => {
+    const { doc } = diffAndApply((doc) => {
+      const first = doc.root.first!;
+      first.last!.move(doc.root, "append");
+      doc.root.first!.next!.move(first, "prepend");
+    });
+    doc.undoManager.redo();
+    assertDoc(doc, ["1", "__2", "__1.1", "3", "4", "1.2"]);
+  });
+
+  test("move a node out of a deleted node", () => {
+    const { doc } = diffAndApply((doc) => {
+      const first = doc.root.first!;
+      first.first!.move(doc.root, "append");
+      first.delete();
+    });
+    doc.undoManager.redo();
+    assertDoc(doc, ["2", "3", "4", "1.1"]);
+  });
+
+  test("swap parent and child", () => {
+    const { doc } = diffAndApply((doc) => {
+      const first = doc.root.first!;
+      const child = first.first!;
+      child.move(doc.root, "prepend");
+      first.move(child, "append");
+    });
+    doc.undoManager.redo();
+    assertDoc(doc, ["1.1", "__1", "____1.2", "2", "3", "4"]);
+  });
+
+  test("state", () => {
+    const { operations, from } = diffAndApply((doc) => {
+      const first = doc.root.first as DocNode<typeof Text>;
+      first.state.value.set("one");
+      (first.next as DocNode<typeof Text>).state.value.set("");
+    });
+    const [first, second] = from[3]!;
+    expect(operations[1]).toStrictEqual({
+      [first[0]]: { value: '"one"' },
+      [second![0]]: { value: '""' },
+    });
+  });
+
+  test("state of text definitions is a delta", () => {
+    const doc = new Doc(config);
+    const paragraph = doc.createNode(Paragraph);
+    paragraph.state.content.set("Hello world");
+    doc.root.append(paragraph);
+    doc.forceCommit();
+    const from = doc.toJSON();
+    paragraph.state.content.insert(5, ",");
+    doc.forceCommit();
+    const to = doc.toJSON();
+    const operations = diffDocs(config, from, to);
+    expect(operations[1][paragraph.id]!.content).toMatch(/^~/);
+
+    const doc2 = Doc.fromJSON(config, from);
+    doc2.forceCommit();
+    doc2.applyOperations(operations);
+    expect(doc2.toJSON()).toStrictEqual(to);
+  });
+
+  test("change type", () => {
+    const { operations, from, doc } = diffAndApply((doc) => {
+      const first = doc.root.first!;
+      first.changeType(Heading);
+      if (first.is(Heading)) first.state.level.set(2);
+    });
+    const id = from[3]![0][0];
+    expect(operations[0]).toStrictEqual([[3, "heading", id, 0, 0]]);
+    expect(operations[1]).toStrictEqual({ [id]: { level: "2" } });
+    doc.undoManager.redo();
+    expect(byId(doc, id).type).toBe("heading");
+  });
+
+  test("concurrent changes are preserved", () => {
+    const { operations, from } = diffAndApply((doc) => {
+      doc.root.last!.delete();
+    });
+    const doc = Doc.fromJSON(config, from);
+    doc.forceCommit();
+    doc.root.first!.insertAfter(...text(doc, "concurrent"));
+    doc.forceCommit();
+    doc.applyOperations(operations);
+    assertDoc(doc, ["1", "__1.1", "__1.2", "concurrent", "2", "3"]);
+  });
+
+  test("root state and versions", () => {
+    const Root = defineNode({ type: "root", state: { title: string("") } });
+    const Item = defineNode({
+      type: "item",
+      state: { title: string("") },
+      version: 1,
+      migrate: (_fromVersion, { text, ...state }) => ({
+        ...state,
+        ...(text !== undefined && { title: text }),
+      }),
+    });
+    const versionedConfig = {
+      type: "root",
+      extensions: [{ nodes: [Root, Item] }],
+    };
+    const from: JsonDoc = [
+      "01kdfwy0qdzrq2ysfcpf8jgw0m",
+      "root",
+      {},
+      [["a", "item", { text: '"old"' }]],
+    ];
+    const to: JsonDoc = [
+      "01kdfwy0qdzrq2ysfcpf8jgw0m",
+      "root",
+      { title: '"title"' },
+      [["a", "item", { text: '"new"' }]],
+    ];
+    const operations = diffDocs(
+      {
+        ...versionedConfig,
+        nodeIdGenerator: { generate: () => "a", validate: () => true },
+      },
+      from,
+      to,
+    );
+    expect(operations).toStrictEqual([
+      [],
+      {
+        "01kdfwy0qdzrq2ysfcpf8jgw0m": { title: '"title"' },
+        a: { title: '"new"' },
+      },
+      { item: 1 },
+    ]);
+  });
+
+  test("documents with different ids", () => {
+    const from = createDoc().toJSON();
+    const to = createDoc().toJSON();
+    expect(() => diffDocs(config, from, to)).toThrowError(
+      `Attempted to diff documents with different ids: '${from[0]}' and '${to[0]}'.`,
+    );
+  });
+});
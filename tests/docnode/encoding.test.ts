@@ -0,0 +1,148 @@
+import { test, describe, expect } from "vitest";
+import {
+  Doc,
+  decodeDoc,
+  decodeOperations,
+  defineNode,
+  encodeDoc,
+  encodeOperations,
+  type JsonDoc,
+  type Operations,
+  string,
+  text as textState,
+} from "@docukit/docnode";
+import { recordOperations, text, Text } from "./utils.js";
+
+const Heading = defineNode({ type: "heading", version: 2 });
+
+const Paragraph = defineNode({
+  type: "paragraph",
+  state: { content: textState() },
+});
+
+const config = {
+  type: "root",
+  extensions: [{ nodes: [Text, Heading, Paragraph] }],
+};
+
+function createDoc() {
+  const doc = new Doc(config);
+  doc.root.append(...text(doc, "1", "2", "3"));
+  doc.root.first!.append(...text(doc, "1.1", "1.2"));
+  doc.forceCommit();
+  return doc;
+}
+
+const roundTrip = (operations: Operations) =>
+  expect(decodeOperations(encodeOperations(operations))).toStrictEqual(
+    operations,
+  );
+
+describe("encoding", () => {
+  test("empty operations", () => {
+    roundTrip([[], {}]);
+  });
+
+  test("versions", () => {
+    roundTrip([[], {}, { $doc: 1, heading: 2 }]);
+  });
+
+  test("insert", () => {
+    const doc = createDoc();
+    const operations = recordOperations(doc, () => {
+      doc.root.first!.insertAfter(...text(doc, "new1", "new2"));
+      doc.root.last!.append(...text(doc, "3.1"));
+    });
+    expect(operations[0].map((op) => op[0])).toStrictEqual([0, 0]);
+    roundTrip(operations);
+  });
+
+  test("delete, move and change type", () => {
+    const doc = createDoc();
+    const operations = recordOperations(doc, () => {
+      doc.root.first!.first!.delete();
+      doc.root.last!.move(doc.root, "prepend");
+      doc.root.first!.next!.to(doc.root.last!).changeType(Heading);
+    });
+    expect(operations[0].map((op) => op[0])).toStrictEqual([1, 2, 3]);
+    roundTrip(operations);
+  });
+
+  test("state patches, deltas and versions", () => {
+    const doc = new Doc(config);
+    const paragraph = doc.createNode(Paragraph);
+    paragraph.state.content.set("Hello world");
+    doc.root.append(paragraph);
+    doc.forceCommit();
+    const operations = recordOperations(doc, () => {
+      paragraph.state.content.insert(5, ", ñandú 🦤");
+    });
+    expect(operations[1][paragraph.id]!.content).toMatch(/^~/);
+    expect(operations[2]).toStrictEqual({ heading: 2 });
+    roundTrip(operations);
+
+    const doc2 = Doc.fromJSON(config, doc.toJSON());
+    const operations2 = recordOperations(doc, () => {
+      paragraph.state.content.delete(0, 5);
+    });
+    doc2.applyOperations(decodeOperations(encodeOperations(operations2)));
+    doc2.forceCommit();
+    expect(doc2.toJSON()).toStrictEqual(doc.toJSON());
+  });
+
+  test("doc", () => {
+    const doc = createDoc();
+    doc.root.last!.changeType(Heading);
+    doc.forceCommit();
+    const json = doc.toJSON();
+    expect(json[3]).toHaveLength(3);
+    expect(decodeDoc(encodeDoc(json))).toStrictEqual(json);
+
+    const empty: JsonDoc = ["01kdfwy0qdzrq2ysfcpf8jgw0m", "root", {}];
+    expect(decodeDoc(encodeDoc(empty))).toStrictEqual(empty);
+  });
+
+  test("types and state keys are written once", () => {
+    const doc = new Doc(config);
+    doc.root.append(
+      ...Array.from({ length: 100 }, (_, i) => {
+        const [node] = text(doc, `node ${i}`);
+        return node!;
+      }),
+    );
+    doc.forceCommit();
+    const json = doc.toJSON();
+    const encoded = encodeDoc(json);
+    expect(encoded.length).toBeLessThan(JSON.stringify(json).length);
+    const decoded = new TextDecoder().decode(encoded);
+    expect(decoded.match(/text/g)).toHaveLength(1);
+    expect(decoded.match(/value/g)).toHaveLength(1);
+  });
+
+  test("invalid data", () => {
+    const encoded = encodeOperations([[[1, "a", 0]], { a: { b: "1" } }]);
+    expect(() => decodeOperations(encoded.slice(0, -1))).toThrowError(
+      "Unexpected end of encoded data",
+    );
+    expect(() =>
+      decodeOperations(new Uint8Array([...encoded, 0])),
+    ).toThrowError("Unexpected trailing bytes in encoded data");
+    expect(() => decodeDoc(new Uint8Array([2]))).toThrowError(
+      "Unsupported encoding version: 2",
+    );
+    expect(() => decodeOperations(new Uint8Array([1, 1, 9]))).toThrowError(
+      "Unknown operation code: 9",
+    );
+  });
+
+  test("non-ascii ids and types", () => {
+    const Node = defineNode({ type: "nodo-ñ", state: { value: string("") } });
+    const jsonDoc: JsonDoc = [
+      "01kdfwy0qdzrq2ysfcpf8jgw0m",
+      "root",
+      { value: '"x"' },
+      [["ñ-1", Node.type, { value: '"🦤"' }, [["ñ-2", Node.type, {}]]]],
+    ];
+    expect(decodeDoc(encodeDoc(jsonDoc))).toStrictEqual(jsonDoc);
+  });
+});
@@ -0,0 +1,225 @@
+import { test, describe, expect, vi, afterEach } from "vitest";
+import {
+  Doc,
+  defineNode,
+  getHistory,
+  historyExtension,
+  mergeDocs,
+  text as textState,
+  type DocNode,
+} from "@docukit/docnode";
+import { assertDoc, text, TextExtension } from "./utils.js";
+
+const config = {
+  type: "root",
+  extensions: [TextExtension, historyExtension()],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+const Note = defineNode({ type: "note", state: { content: textState() } });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+/** Creates a doc with 3 entries in the history, at times 1000, 2000 and 3000. */
+function createDoc() {
+  const doc = new Doc(config);
+  const now = vi.spyOn(Date, "now");
+  now.mockReturnValue(1000);
+  doc.root.append(...text(doc, "1", "2"));
+  doc.forceCommit();
+  now.mockReturnValue(2000);
+  doc.root.first!.append(...text(doc, "1.1"));
+  doc.forceCommit();
+  now.mockReturnValue(3000);
+  doc.root.last!.delete();
+  doc.forceCommit();
+  now.mockRestore();
+  return doc;
+}
+
+describe("history", () => {
+  test("entries", () => {
+    const doc = createDoc();
+    const { entries } = getHistory(doc);
+    expect(entries.map(({ timestamp }) => timestamp)).toStrictEqual([
+      1000, 2000, 3000,
+    ]);
+    expect(entries[0]!.operations[0][0]![0]).toBe(0);
+    expect(entries[2]!.inverseOperations[0][0]![0]).toBe(0);
+    expect(entries[0]).not.toHaveProperty("author");
+  });
+
+  test("checkout by index", () => {
+    const doc = createDoc();
+    const history = getHistory(doc);
+    assertDoc(history.checkout(-1), []);
+    assertDoc(history.checkout(0), ["1", "2"]);
+    assertDoc(history.checkout(1), ["1", "__1.1", "2"]);
+    assertDoc(history.checkout(2), ["1", "__1.1"]);
+    // the doc is not changed
+    assertDoc(doc, ["1", "__1.1"]);
+    expect(history.entries).toHaveLength(3);
+  });
+
+  test("checkout by time", () => {
+    const doc = createDoc();
+    const history = getHistory(doc);
+    assertDoc(history.checkout(new Date(999)), []);
+    assertDoc(history.checkout(new Date(1500)), ["1", "2"]);
+    assertDoc(history.checkout(new Date(2000)), ["1", "__1.1", "2"]);
+    assertDoc(history.checkout(new Date()), ["1", "__1.1"]);
+  });
+
+  test("checked out docs are read-only", () => {
+    const doc = createDoc();
+    const checkout = getHistory(doc).checkout(0);
+    expect(() => checkout.root.first!.delete()).toThrowError(
+      "Attempted to modify a read-only document.",
+    );
+    expect(() => checkout.applyOperations([[], { a: {} }])).toThrowError(
+      "Attempted to modify a read-only document.",
+    );
+    assertDoc(checkout, ["1", "2"]);
+    expect(checkout.toJSON()[0]).toBe(doc.root.id);
+  });
+
+  test("copies of the doc don't register the extensions again", () => {
+    const register = vi.fn();
+    const doc = new Doc({
+      ...config,
+      extensions: [...config.extensions, { register }],
+    });
+    doc.root.append(...text(doc, "1"));
+    doc.forceCommit();
+    const checkout = getHistory(doc).checkout(-1);
+    const forked = doc.fork();
+    forked.root.append(...text(forked, "2"));
+    forked.forceCommit();
+    mergeDocs(forked.forkBase!, doc, forked);
+    expect(register).toHaveBeenCalledTimes(1);
+    expect(() => getHistory(checkout)).toThrowError();
+    expect(() => getHistory(forked)).toThrowError();
+  });
+
+  test("revertTo is undoable and recorded", () => {
+    const doc = createDoc();
+    const history = getHistory(doc);
+    history.revertTo(0);
+    assertDoc(doc, ["1", "2"]);
+    expect(history.entries).toHaveLength(4);
+    doc.undoManager.undo();
+    assertDoc(doc, ["1", "__1.1"]);
+    history.revertTo(new Date(2500));
+    assertDoc(doc, ["1", "__1.1", "2"]);
+    // reverting to the current state does nothing
+    const length = history.entries.length;
+    history.revertTo(length - 1);
+    expect(history.entries).toHaveLength(length);
+  });
+
+  test("state changes", () => {
+    const doc = new Doc(config);
+    const [node] = text(doc, "a");
+    doc.root.append(node!);
+    doc.forceCommit();
+    node!.state.value.set("b");
+    doc.forceCommit();
+    node!.state.value.set("c");
+    doc.forceCommit();
+    const history = getHistory(doc);
+    assertDoc(history.checkout(1), ["b"]);
+    history.revertTo(0);
+    assertDoc(doc, ["a"]);
+  });
+
+  test("revertTo after a remote text delta", () => {
+    const noteConfig = {
+      type: "root",
+      extensions: [{ nodes: [Note] }, historyExtension()],
+    };
+    const doc = new Doc(noteConfig);
+    const note = doc.createNode(Note);
+    doc.root.append(note);
+    doc.forceCommit();
+    const remote = Doc.fromJSON(noteConfig, doc.toJSON());
+    remote.forceCommit();
+    remote.onChange(({ operations }) => doc.applyOperations(operations));
+    note.state.content.insert(0, "hello");
+    doc.forceCommit();
+    const remoteNote = remote.getNodeById(note.id) as DocNode<typeof Note>;
+    remoteNote.state.content.insert(0, ">>");
+    remote.forceCommit();
+    expect(note.state.content.get()).toBe(">>hello");
+    // the pending transaction is committed before reverting
+    note.state.content.insert(7, "!");
+    const history = getHistory(doc);
+    history.revertTo(1);
+    expect(note.state.content.get()).toBe("hello");
+    const checkout = (index: number) =>
+      (history.checkout(index).getNodeById(note.id) as typeof note).state
+        .content;
+    expect(checkout(2).get()).toBe(">>hello");
+    expect(checkout(3).get()).toBe(">>hello!");
+  });
+
+  test("can't be used in the change event", () => {
+    const doc = createDoc();
+    const history = getHistory(doc);
+    const errors: unknown[] = [];
+    doc.onChange(() => {
+      try {
+        history.checkout(0);
+      } catch (error) {
+        errors.push(error);
+      }
+    });
+    doc.root.first!.delete();
+    doc.forceCommit();
+    expect(errors).toStrictEqual([
+      new Error("You can't trigger an update inside a change event"),
+    ]);
+  });
+
+  test("out of range", () => {
+    const history = getHistory(createDoc());
+    expect(() => history.checkout(3)).toThrowError(
+      "Attempted to go to a history entry out of range: 3.",
+    );
+    expect(() => history.revertTo(-2)).toThrowError(
+      "Attempted to go to a history entry out of range: -2.",
+    );
+  });
+
+  test("author and maxEntries", () => {
+    let user = "alice";
+    const doc = new Doc({
+      type: "root",
+      extensions: [
+        TextExtension,
+        historyExtension({ author: () => user, maxEntries: 2 }),
+      ],
+    });
+    doc.root.append(...text(doc, "1"));
+    doc.forceCommit();
+    user = "bob";
+    doc.root.append(...text(doc, "2"));
+    doc.forceCommit();
+    doc.root.append(...text(doc, "3"));
+    doc.forceCommit();
+    const history = getHistory(doc);
+    expect(history.entries.map(({ author }) => author)).toStrictEqual([
+      "bob",
+      "bob",
+    ]);
+    assertDoc(history.checkout(-1), ["1"]);
+  });
+
+  test("docs without the extension", () => {
+    const doc = new Doc({ type: "root", extensions: [TextExtension] });
+    expect(() => getHistory(doc)).toThrowError(
+      "Attempted to get the history of a document without the history extension.",
+    );
+  });
+});
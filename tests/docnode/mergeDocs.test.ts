@@ -0,0 +1,239 @@
+import { test, describe, expect } from "vitest";
+import {
+  Doc,
+  counter,
+  defineNode,
+  map,
+  mergeDocs,
+  string,
+  text as textState,
+  type DocNode,
+} from "@docukit/docnode";
+import { assertDoc, text, Text } from "./utils.js";
+
+const Paragraph = defineNode({
+  type: "paragraph",
+  state: { content: textState(), styles: map<string>(), likes: counter() },
+});
+
+const Heading = defineNode({ type: "heading", state: { value: string("") } });
+
+const config = {
+  type: "root",
+  extensions: [{ nodes: [Text, Paragraph, Heading] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+function createDoc() {
+  const doc = new Doc(config);
+  doc.root.append(...text(doc, "1", "2", "3", "4"));
+  doc.root.first!.append(...text(doc, "1.1", "1.2"));
+  doc.forceCommit();
+  return doc;
+}
+
+/** Returns the node of the doc with the given value. */
+function find(doc: Doc, value: string) {
+  let found: DocNode<typeof Text> | undefined;
+  doc.root.descendants().forEach((node) => {
+    if (node.is(Text) && node.state.value.get() === value) found = node;
+  });
+  return found!;
+}
+
+/** Forks the doc, edits both copies, and merges theirs into ours. */
+function merge(
+  editOurs: (doc: Doc) => void,
+  editTheirs: (doc: Doc) => void,
+  createBase = createDoc,
+) {
+  const ours = createBase();
+  const theirs = ours.fork();
+  editOurs(ours);
+  ours.forceCommit();
+  editTheirs(theirs);
+  theirs.forceCommit();
+  const { operations, conflicts } = mergeDocs(theirs.forkBase!, ours, theirs);
+  ours.applyOperations(operations);
+  return { ours, theirs, conflicts };
+}
+
+describe("fork", () => {
+  test("is an independent copy with the same ids", () => {
+    const doc = createDoc();
+    const forked = doc.fork();
+    expect(forked).not.toBe(doc);
+    expect(forked.toJSON()).toStrictEqual(doc.toJSON());
+    expect(forked.forkBase).toStrictEqual(doc.toJSON());
+    expect(doc.forkBase).toBeUndefined();
+    find(forked, "1").delete();
+    forked.forceCommit();
+    assertDoc(doc, ["1", "__1.1", "__1.2", "2", "3", "4"]);
+    assertDoc(forked, ["2", "3", "4"]);
+  });
+
+  test("the doc must not be in an active transaction", () => {
+    const doc = createDoc();
+    doc.root.append(...text(doc, "5"));
+    expect(() => doc.fork()).toThrowError(
+      "Cannot serialize a document during an active transaction.",
+    );
+  });
+});
+
+describe("mergeDocs", () => {
+  test("changes of both sides are combined", () => {
+    const { ours, conflicts } = merge(
+      (ours) => {
+        find(ours, "1").insertAfter(...text(ours, "ours"));
+        find(ours, "1.1").state.value.set("1.1!");
+      },
+      (theirs) => {
+        find(theirs, "4").insertAfter(...text(theirs, "theirs"));
+        find(theirs, "2").state.value.set("2!");
+        find(theirs, "3").move(theirs.root, "prepend");
+        find(theirs, "1.2").delete();
+      },
+    );
+    expect(conflicts).toStrictEqual([]);
+    assertDoc(ours, ["3", "1", "__1.1!", "ours", "2!", "4", "theirs"]);
+  });
+
+  test("is a single undoable transaction", () => {
+    const { ours } = merge(
+      (ours) => ours.root.append(...text(ours, "ours")),
+      (theirs) => {
+        theirs.root.append(...text(theirs, "theirs"));
+        find(theirs, "2").delete();
+      },
+    );
+    ours.undoManager.undo();
+    assertDoc(ours, ["1", "__1.1", "__1.2", "2", "3", "4", "ours"]);
+  });
+
+  test("equal changes are not conflicts", () => {
+    const { ours, conflicts } = merge(
+      (ours) => {
+        find(ours, "2").state.value.set("2!");
+        find(ours, "3").delete();
+      },
+      (theirs) => {
+        find(theirs, "2").state.value.set("2!");
+        find(theirs, "3").delete();
+      },
+    );
+    expect(conflicts).toStrictEqual([]);
+    assertDoc(ours, ["1", "__1.1", "__1.2", "2!", "4"]);
+  });
+
+  test("state conflicts keep ours", () => {
+    const { ours, conflicts } = merge(
+      (ours) => find(ours, "2").state.value.set("ours"),
+      (theirs) => find(theirs, "2").state.value.set("theirs"),
+    );
+    expect(conflicts).toStrictEqual([
+      { reason: "state", nodeId: find(ours, "ours").id, key: "value" },
+    ]);
+    assertDoc(ours, ["1", "__1.1", "__1.2", "ours", "3", "4"]);
+  });
+
+  test("deltas of both sides are merged", () => {
+    const createBase = () => {
+      const doc = new Doc(config);
+      const paragraph = doc.createNode(Paragraph);
+      paragraph.state.content.set("Hello");
+      doc.root.append(paragraph);
+      doc.forceCommit();
+      return doc;
+    };
+    const paragraph = (doc: Doc) => doc.root.first as DocNode<typeof Paragraph>;
+    const { ours, conflicts } = merge(
+      (ours) => {
+        paragraph(ours).state.styles.setKey("color", "red");
+        paragraph(ours).state.content.insert(0, ">> ");
+      },
+      (theirs) => {
+        paragraph(theirs).state.styles.setKey("size", "12px");
+        paragraph(theirs).state.content.insert(5, "!");
+      },
+      createBase,
+    );
+    expect(conflicts).toStrictEqual([]);
+    expect(paragraph(ours).state.styles.get()).toStrictEqual({
+      color: "red",
+      size: "12px",
+    });
+    expect(paragraph(ours).state.content.get()).toBe(">> Hello!");
+  });
+
+  test("equal deltas of both sides are both applied", () => {
+    const createBase = () => {
+      const doc = new Doc(config);
+      doc.root.append(doc.createNode(Paragraph));
+      doc.forceCommit();
+      return doc;
+    };
+    const paragraph = (doc: Doc) => doc.root.first as DocNode<typeof Paragraph>;
+    const { ours, conflicts } = merge(
+      (ours) => {
+        paragraph(ours).state.likes.increment();
+        paragraph(ours).state.content.insert(0, "a");
+      },
+      (theirs) => {
+        paragraph(theirs).state.likes.increment();
+        paragraph(theirs).state.content.insert(0, "a");
+      },
+      createBase,
+    );
+    expect(conflicts).toStrictEqual([]);
+    expect(paragraph(ours).state.likes.get()).toBe(2);
+    expect(paragraph(ours).state.content.get()).toBe("aa");
+  });
+
+  test("type and move conflicts keep ours", () => {
+    const base = createDoc();
+    const [two, four] = [find(base, "2"), find(base, "4")];
+    const { conflicts } = merge(
+      (ours) => {
+        two.changeType(Paragraph);
+        four.move(find(ours, "1"), "append");
+      },
+      (theirs) => {
+        theirs.getNodeById(two.id)!.changeType(Heading);
+        theirs.getNodeById(four.id)!.move(find(theirs, "3"), "append");
+      },
+      () => base,
+    );
+    expect(conflicts).toStrictEqual([
+      { reason: "type", nodeId: two.id },
+      { reason: "move", nodeId: four.id },
+    ]);
+    expect(two.type).toBe("paragraph");
+    expect(four.parent).toBe(find(base, "1"));
+  });
+
+  test("deletions win over changes of the other side", () => {
+    const base = createDoc();
+    const [id11, id2, id4] = ["1.1", "2", "4"].map((v) => find(base, v).id);
+    const { ours, conflicts } = merge(
+      (ours) => {
+        find(ours, "1").delete();
+        find(ours, "2").state.value.set("2!");
+        find(ours, "4").delete();
+      },
+      (theirs) => {
+        find(theirs, "1.1").state.value.set("1.1!");
+        find(theirs, "2").delete();
+        find(theirs, "3").append(...text(theirs, "3.1"));
+        find(theirs, "4").append(...text(theirs, "4.1"));
+      },
+      () => base,
+    );
+    expect(conflicts).toStrictEqual([
+      { reason: "delete", nodeId: id11, deletedBy: "ours" },
+      { reason: "delete", nodeId: id4, deletedBy: "ours" },
+      { reason: "delete", nodeId: id2, deletedBy: "theirs" },
+    ]);
+    assertDoc(ours, ["3", "__3.1"]);
+  });
+});
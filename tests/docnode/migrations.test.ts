@@ -0,0 +1,216 @@
+import { test, describe, expect } from "vitest";
+import {
+  Doc,
+  defineNode,
+  string,
+  number,
+  type DocConfig,
+  type DocNode,
+  type JsonDoc,
+  type Operations,
+} from "@docukit/docnode";
+
+// v0 stored the title in `text`. v1 renamed it to `title`.
+const TaskV0 = defineNode({ type: "task", state: { text: string("") } });
+const TaskV1 = defineNode({
+  type: "task",
+  state: { title: string("") },
+  version: 1,
+  migrate: (fromVersion, { text, ...state }) => {
+    if (fromVersion < 1 && text !== undefined) state.title = text;
+    return state;
+  },
+});
+const TaskV2 = defineNode({
+  type: "task",
+  state: { title: string(""), priority: number(0) },
+  version: 2,
+});
+
+const configV0: DocConfig = { type: "root", extensions: [{ nodes: [TaskV0] }] };
+const configV1: DocConfig = {
+  type: "root",
+  extensions: [{ nodes: [TaskV1] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+const configV2: DocConfig = { type: "root", extensions: [{ nodes: [TaskV2] }] };
+
+const getTitle = (doc: Doc) =>
+  (doc.root.first as DocNode<typeof TaskV1>).state.title.get();
+
+describe("migrations", () => {
+  test("fromJSON migrates the state of older versions", () => {
+    const doc = new Doc(configV0);
+    const task = doc.createNode(TaskV0);
+    task.state.text.set("hello");
+    doc.root.append(task);
+    doc.forceCommit();
+    const json = doc.toJSON();
+    expect(json[2]).toStrictEqual({});
+
+    const doc2 = Doc.fromJSON(configV1, json);
+    expect(getTitle(doc2)).toBe("hello");
+  });
+
+  test("versions are persisted in the root state", () => {
+    const doc = new Doc(configV1);
+    doc.root.append(doc.createNode(TaskV1));
+    doc.forceCommit();
+    const json = doc.toJSON();
+    expect(json[2]).toStrictEqual({ $v: JSON.stringify({ task: 1 }) });
+    const doc2 = Doc.fromJSON(configV1, json);
+    doc2.forceCommit();
+    expect(doc2.toJSON()).toStrictEqual(json);
+  });
+
+  test("migrations are not run again on current versions", () => {
+    let calls = 0;
+    const Task = defineNode({
+      ...TaskV1,
+      migrate: (fromVersion, state) => {
+        calls++;
+        return TaskV1.migrate!(fromVersion, state);
+      },
+    });
+    const config = { type: "root", extensions: [{ nodes: [Task] }] };
+    const doc = new Doc(config);
+    doc.root.append(doc.createNode(Task));
+    doc.forceCommit();
+    Doc.fromJSON(config, doc.toJSON());
+    expect(calls).toBe(0);
+  });
+
+  test("states of newer versions are ignored", () => {
+    const doc = new Doc(configV2);
+    const task = doc.createNode(TaskV2);
+    task.state.title.set("hello");
+    task.state.priority.set(3);
+    doc.root.append(task);
+    doc.forceCommit();
+    const doc2 = Doc.fromJSON(configV1, doc.toJSON());
+    expect(getTitle(doc2)).toBe("hello");
+    doc2.forceCommit();
+    expect(doc2.toJSON()[3]![0][2]).toStrictEqual({ title: '"hello"' });
+  });
+
+  test("unknown states of the current version still throw", () => {
+    const json: JsonDoc = [
+      "01kdfwy0qdzrq2ysfcpf8jgw0m",
+      "root",
+      { $v: JSON.stringify({ task: 1 }) },
+      [["a", "task", { text: '"hello"' }]],
+    ];
+    expect(() => Doc.fromJSON(configV1, json)).toThrowError(
+      "Attempted to create a node of type 'task' with a state that is not registered: text",
+    );
+  });
+
+  test("doc migration runs before the node migrations", () => {
+    const doc = new Doc(configV0);
+    const task = doc.createNode(TaskV0);
+    task.state.text.set("hello");
+    doc.root.append(task);
+    doc.forceCommit();
+
+    const versions: number[] = [];
+    const config: DocConfig = {
+      ...configV1,
+      version: 1,
+      migrate: (fromVersion, [id, type, state, children]) => {
+        versions.push(fromVersion);
+        // prefix every task with "- "
+        const migrated = children!.map(
+          ([childId, childType, childState]): JsonDoc => [
+            childId,
+            childType,
+            { text: JSON.stringify(`- ${JSON.parse(childState.text!)}`) },
+          ],
+        ) as [JsonDoc, ...JsonDoc[]];
+        return [id, type, state, migrated];
+      },
+    };
+    const doc2 = Doc.fromJSON(config, doc.toJSON());
+    doc2.forceCommit();
+    expect(versions).toStrictEqual([0]);
+    expect(getTitle(doc2)).toBe("- hello");
+    expect(JSON.parse(doc2.toJSON()[2].$v!)).toStrictEqual({
+      $doc: 1,
+      task: 1,
+    });
+    Doc.fromJSON(config, doc2.toJSON());
+    expect(versions).toStrictEqual([0]);
+  });
+
+  test("applyOperations migrates operations of older clients", () => {
+    const doc = new Doc(configV0);
+    const doc2 = Doc.fromJSON(configV1, doc.toJSON());
+    doc.onChange(({ operations }) => doc2.applyOperations(operations));
+    const task = doc.createNode(TaskV0);
+    task.state.text.set("hello");
+    doc.root.append(task);
+    doc.forceCommit();
+    expect(getTitle(doc2)).toBe("hello");
+    task.state.text.set("world");
+    doc.forceCommit();
+    expect(getTitle(doc2)).toBe("world");
+  });
+
+  test("operations include the versions", () => {
+    const doc = new Doc(configV1);
+    const doc2 = Doc.fromJSON(configV2, doc.toJSON());
+    const doc0 = new Doc(configV0);
+    let operations: Operations | undefined;
+    doc.onChange((event) => {
+      operations = event.operations;
+      doc2.applyOperations(event.operations);
+      doc0.applyOperations(event.operations);
+    });
+    const task = doc.createNode(TaskV1);
+    task.state.title.set("hello");
+    doc.root.append(task);
+    doc.forceCommit();
+    expect(operations?.[2]).toStrictEqual({ task: 1 });
+    expect(Object.keys(operations?.[1] ?? {})).toStrictEqual([task.id]);
+    expect(getTitle(doc2)).toBe("hello");
+  });
+
+  test("undo doesn't migrate the inverse operations", () => {
+    const doc = new Doc(configV1);
+    const task = doc.createNode(TaskV1);
+    doc.root.append(task);
+    doc.forceCommit();
+    task.state.title.set("hello");
+    doc.forceCommit();
+    task.state.title.set("world");
+    doc.forceCommit();
+    doc.undoManager.undo();
+    expect(task.state.title.get()).toBe("hello");
+    doc.undoManager.redo();
+    expect(task.state.title.get()).toBe("world");
+    task.state.title.set("foo");
+    doc.abort();
+    expect(task.state.title.get()).toBe("world");
+  });
+
+  test("the versions key is reserved", () => {
+    expect(
+      () =>
+        new Doc({
+          type: "root",
+          rootState: { $v: string("") },
+          extensions: [],
+        }),
+    ).toThrowError(
+      "The root state key '$v' is reserved for the versions of the doc.",
+    );
+  });
+
+  test("collision error", () => {
+    const Task = defineNode({ type: "task", version: 1 });
+    expect(
+      () => new Doc({ type: "root", extensions: [{ nodes: [TaskV1, Task] }] }),
+    ).toThrowError(
+      "Collision error: attempt to register 2 node definitions of type 'task' with a version.",
+    );
+  });
+});
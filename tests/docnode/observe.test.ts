@@ -0,0 +1,197 @@
+import { test, describe, expect } from "vitest";
+import {
+  Doc,
+  defineNode,
+  type NodeChangeEvent,
+  number,
+  string,
+  text as textState,
+} from "@docukit/docnode";
+import { Text } from "./utils.js";
+
+const Item = defineNode({
+  type: "item",
+  state: { title: string(""), count: number(0), content: textState() },
+});
+
+const config = {
+  type: "root",
+  extensions: [{ nodes: [Text, Item] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+function createDoc() {
+  const doc = new Doc(config);
+  const item = doc.createNode(Item);
+  const other = doc.createNode(Item);
+  doc.root.append(item, other);
+  doc.forceCommit();
+  return { doc, item, other };
+}
+
+type Change = Omit<NodeChangeEvent, "node" | "flags" | "updatedKeys"> & {
+  updatedKeys: string[];
+};
+
+function observe(doc: Doc, id: string) {
+  const changes: Change[] = [];
+  const off = doc.observeNode(
+    id,
+    ({ node, flags: _flags, updatedKeys, ...ev }) => {
+      expect(node.id).toBe(id);
+      changes.push({ ...ev, updatedKeys: [...updatedKeys].sort() });
+    },
+  );
+  return { changes, off };
+}
+
+const change = (ev: Partial<Change>): Change => ({
+  inserted: false,
+  deleted: false,
+  moved: false,
+  typeChanged: false,
+  updatedKeys: [],
+  ...ev,
+});
+
+describe("diff.updatedKeys", () => {
+  test("keys of the state that changed", () => {
+    const { doc, item, other } = createDoc();
+    const keys: Map<string, Set<string>>[] = [];
+    doc.onChange(({ diff }) => keys.push(diff.updatedKeys));
+    item.state.title.set("a");
+    item.state.content.insert(0, "hello");
+    other.state.count.set(1);
+    doc.forceCommit();
+    expect(keys).toStrictEqual([
+      new Map([
+        [item.id, new Set(["title", "content"])],
+        [other.id, new Set(["count"])],
+      ]),
+    ]);
+    // a key set back to its initial value is not included
+    item.state.title.set("b");
+    item.state.count.set(2);
+    item.state.title.set("a");
+    doc.forceCommit();
+    expect(keys[1]).toStrictEqual(new Map([[item.id, new Set(["count"])]]));
+  });
+
+  test("normalize listeners and applyOperations", () => {
+    const { doc, item } = createDoc();
+    const doc2 = Doc.fromJSON(
+      {
+        ...config,
+        extensions: [
+          ...config.extensions,
+          {
+            register: (doc) =>
+              doc.onNormalize(({ diff }) => {
+                if (!diff.updatedKeys.get(item.id)?.has("title")) return;
+                const node = doc.getNodeById(item.id)!;
+                if (node.is(Item) && node.state.count.get() !== 10)
+                  node.state.count.set(10);
+              }),
+          },
+        ],
+      },
+      doc.toJSON(),
+    );
+    doc2.forceCommit();
+    let updatedKeys: Set<string> | undefined;
+    doc2.onChange(({ diff }) => (updatedKeys = diff.updatedKeys.get(item.id)));
+    doc.onChange(({ operations }) => doc2.applyOperations(operations));
+    item.state.title.set("a");
+    doc.forceCommit();
+    expect(updatedKeys).toStrictEqual(new Set(["title", "count"]));
+  });
+});
+
+describe("observeNode", () => {
+  test("state, move, type change and delete", () => {
+    const { doc, item, other } = createDoc();
+    const { changes } = observe(doc, item.id);
+    other.state.title.set("other");
+    doc.forceCommit();
+    expect(changes).toStrictEqual([]);
+
+    item.state.title.set("a");
+    item.state.count.set(1);
+    doc.forceCommit();
+    item.move(doc.root, "append");
+    doc.forceCommit();
+    item.changeType(Text);
+    doc.forceCommit();
+    item.delete();
+    doc.forceCommit();
+    expect(changes).toStrictEqual([
+      change({ updatedKeys: ["count", "title"] }),
+      change({ moved: true }),
+      change({ typeChanged: true }),
+      change({ deleted: true }),
+    ]);
+    doc.undoManager.undo();
+    expect(changes.at(-1)).toStrictEqual(change({ inserted: true }));
+  });
+
+  test("nodes that don't exist yet and unsubscribe", () => {
+    const { doc } = createDoc();
+    const node = doc.createNode(Item);
+    const { changes, off } = observe(doc, node.id);
+    doc.root.append(node);
+    doc.forceCommit();
+    expect(changes).toStrictEqual([change({ inserted: true })]);
+    off();
+    node.state.title.set("a");
+    doc.forceCommit();
+    expect(changes).toHaveLength(1);
+  });
+
+  test("flags", () => {
+    const { doc, item } = createDoc();
+    const flags: NodeChangeEvent["flags"][] = [];
+    doc.observeNode(item.id, (ev) => flags.push(ev.flags));
+    doc.forceCommit(() => item.state.title.set("a"), { skipUndo: true });
+    expect(flags).toStrictEqual([{ skipUndo: true }]);
+  });
+});
+
+describe("state subscribe", () => {
+  test("fires only when the key changes", () => {
+    const { doc, item } = createDoc();
+    const titles: string[] = [];
+    const off = item.state.title.subscribe((title) => titles.push(title));
+    const contents: string[] = [];
+    item.state.content.subscribe((content) => contents.push(content));
+
+    item.state.count.set(1);
+    doc.forceCommit();
+    expect(titles).toStrictEqual([]);
+    item.state.title.set("a");
+    doc.forceCommit();
+    item.state.content.insert(0, "hi");
+    doc.forceCommit();
+    doc.undoManager.undo();
+    expect(titles).toStrictEqual(["a"]);
+    expect(contents).toStrictEqual(["hi", ""]);
+
+    off();
+    item.state.title.set("b");
+    doc.forceCommit();
+    expect(titles).toStrictEqual(["a"]);
+  });
+
+  test("remote changes", () => {
+    const { doc, item } = createDoc();
+    const doc2 = Doc.fromJSON(config, doc.toJSON());
+    doc2.forceCommit();
+    doc.onChange(({ operations }) => doc2.applyOperations(operations));
+    const item2 = doc2.getNodeById(item.id)!;
+    if (!item2.is(Item)) throw new Error("Expected an item");
+    const counts: number[] = [];
+    item2.state.count.subscribe((count) => counts.push(count));
+    item.state.count.set(5);
+    doc.forceCommit();
+    expect(counts).toStrictEqual([5]);
+  });
+});
@@ -0,0 +1,189 @@
+import { test, describe, expect } from "vitest";
+import {
+  boolean,
+  Doc,
+  defineNode,
+  type DocNode,
+  type Operations,
+  string,
+} from "@docukit/docnode";
+import { text, Text } from "./utils.js";
+
+const Task = defineNode({
+  type: "task",
+  state: { title: string(""), done: boolean(false) },
+});
+
+const config = {
+  type: "root",
+  extensions: [{ nodes: [Text, Task] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+function createDoc() {
+  const doc = new Doc(config);
+  doc.root.append(...text(doc, "1", "2"));
+  doc.root.first!.append(task(doc, "a"), task(doc, "b", true));
+  doc.forceCommit();
+  return doc;
+}
+
+function task(doc: Doc, title: string, done = false) {
+  const node = doc.createNode(Task);
+  node.state.title.set(title);
+  node.state.done.set(done);
+  return node;
+}
+
+const titles = (nodes: DocNode<typeof Task>[]) =>
+  nodes.map((node) => node.state.title.get()).sort();
+
+/** Checks that the index matches a traversal of the document. */
+function assertIndex(doc: Doc) {
+  [Text, Task].forEach((def) => {
+    const expected = new Set<DocNode>();
+    doc.root.descendants().forEach((node) => {
+      if (node.is(def)) expected.add(node);
+    });
+    expect(new Set(doc.nodesOfType(def))).toStrictEqual(expected);
+  });
+}
+
+describe("nodesOfType", () => {
+  test("insert and delete", () => {
+    const doc = createDoc();
+    expect(titles(doc.nodesOfType(Task))).toStrictEqual(["a", "b"]);
+    expect(doc.nodesOfType(Text)).toHaveLength(2);
+    doc.root.last!.append(task(doc, "c"));
+    expect(titles(doc.nodesOfType(Task))).toStrictEqual(["a", "b", "c"]);
+    doc.root.first!.delete();
+    expect(titles(doc.nodesOfType(Task))).toStrictEqual(["c"]);
+    assertIndex(doc);
+  });
+
+  test("detached nodes are not included", () => {
+    const doc = createDoc();
+    const parent = doc.createNode(Text);
+    parent.append(task(doc, "c"));
+    expect(doc.nodesOfType(Task)).toHaveLength(2);
+    doc.root.append(parent);
+    expect(doc.nodesOfType(Task)).toHaveLength(3);
+    assertIndex(doc);
+  });
+
+  test("change type", () => {
+    const doc = createDoc();
+    doc.root.first!.changeType(Task, { includeDescendants: true });
+    expect(doc.nodesOfType(Task)).toHaveLength(3);
+    expect(doc.nodesOfType(Text)).toHaveLength(1);
+    assertIndex(doc);
+  });
+
+  test("undo, abort, applyOperations and fromJSON", () => {
+    const doc = createDoc();
+    const doc2 = Doc.fromJSON(config, doc.toJSON());
+    assertIndex(doc2);
+    doc.onChange(({ operations }) => doc2.applyOperations(operations));
+    doc.root.first!.delete();
+    doc.forceCommit();
+    assertIndex(doc2);
+    expect(doc2.nodesOfType(Task)).toHaveLength(0);
+    doc.undoManager.undo();
+    assertIndex(doc);
+    assertIndex(doc2);
+    expect(doc2.nodesOfType(Task)).toHaveLength(2);
+    doc.root.last!.append(task(doc, "c"));
+    doc.abort();
+    assertIndex(doc);
+    expect(doc.nodesOfType(Task)).toHaveLength(2);
+  });
+
+  test("root", () => {
+    const Root = defineNode({ type: "root" });
+    const doc = new Doc(config);
+    expect(doc.nodesOfType(Root)).toStrictEqual([doc.root]);
+    const doc2 = Doc.fromJSON(config, doc.toJSON());
+    expect(doc2.nodesOfType(Root)).toStrictEqual([doc2.root]);
+  });
+
+  test("unregistered node definition", () => {
+    const doc = createDoc();
+    const Other = defineNode({ type: "other" });
+    expect(() => doc.nodesOfType(Other)).toThrowError(
+      "Attempted to query nodes of type 'other' that was not registered.",
+    );
+    expect(() => doc.query(Other)).toThrowError(
+      "Attempted to query nodes of type 'other' that was not registered.",
+    );
+  });
+});
+
+describe("query", () => {
+  test("where", () => {
+    const doc = createDoc();
+    const tasks = doc.query(Task);
+    const pending = tasks.where((node) => !node.state.done.get());
+    expect(titles(tasks.get())).toStrictEqual(["a", "b"]);
+    expect(titles(pending.get())).toStrictEqual(["a"]);
+    const pendingA = pending.where((node) => node.state.title.get() === "b");
+    expect(pendingA.get()).toStrictEqual([]);
+  });
+
+  test("subscribe fires only when the result changes", () => {
+    const doc = createDoc();
+    const results: string[][] = [];
+    const unsubscribe = doc
+      .query(Task)
+      .where((node) => !node.state.done.get())
+      .subscribe((nodes) => results.push(titles(nodes)));
+
+    // a task that doesn't match
+    doc.root.last!.append(task(doc, "c", true));
+    doc.forceCommit();
+    // a change that doesn't affect the result
+    const [a] = doc
+      .query(Task)
+      .where((node) => node.state.title.get() === "a")
+      .get();
+    a!.state.title.set("a2");
+    doc.forceCommit();
+    // other types
+    doc.root.append(...text(doc, "3"));
+    doc.forceCommit();
+    expect(results).toStrictEqual([]);
+
+    a!.state.done.set(true);
+    doc.forceCommit();
+    expect(results).toStrictEqual([[]]);
+    doc.root.append(task(doc, "d"));
+    doc.forceCommit();
+    expect(results).toStrictEqual([[], ["d"]]);
+    doc.undoManager.undo();
+    expect(results).toStrictEqual([[], ["d"], []]);
+
+    unsubscribe();
+    doc.root.append(task(doc, "e"));
+    doc.forceCommit();
+    expect(results).toHaveLength(3);
+  });
+
+  test("subscribe to deletes, type changes and remote operations", () => {
+    const doc = createDoc();
+    const doc2 = Doc.fromJSON(config, doc.toJSON());
+    doc2.forceCommit();
+    let operations: Operations = [[], {}];
+    doc.onChange((event) => (operations = event.operations));
+    let result: string[] = [];
+    doc2.query(Task).subscribe((nodes) => (result = titles(nodes)));
+
+    doc.root.first!.first!.delete();
+    doc.forceCommit();
+    doc2.applyOperations(operations);
+    expect(result).toStrictEqual(["b"]);
+
+    doc.root.last!.changeType(Task);
+    doc.forceCommit();
+    doc2.applyOperations(operations);
+    expect(result).toStrictEqual(["", "b"]);
+  });
+});
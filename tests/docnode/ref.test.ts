@@ -0,0 +1,190 @@
+import { test, describe, expect, expectTypeOf } from "vitest";
+import {
+  Doc,
+  defineNode,
+  ref,
+  string,
+  type DocNode,
+  type Operations,
+} from "@docukit/docnode";
+import { assertJson } from "./utils.js";
+
+const Heading = defineNode({ type: "heading", state: { value: string("") } });
+
+const Mention = defineNode({
+  type: "mention",
+  state: { heading: ref(Heading), node: ref() },
+});
+
+const config = {
+  type: "root",
+  extensions: [{ nodes: [Heading, Mention] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+function createDoc() {
+  const doc = new Doc(config);
+  const heading = doc.createNode(Heading);
+  const mention = doc.createNode(Mention);
+  mention.state.heading.set(heading);
+  doc.root.append(heading, mention);
+  doc.forceCommit();
+  return { doc, heading, mention };
+}
+
+describe("ref", () => {
+  test("types", () => {
+    const { mention } = createDoc();
+    expectTypeOf(mention.state.heading.get()).toEqualTypeOf<
+      DocNode<typeof Heading> | undefined
+    >();
+    expectTypeOf(mention.state.heading.set).toEqualTypeOf<
+      (target: DocNode<typeof Heading> | undefined) => void
+    >();
+    expectTypeOf(mention.state.node.get()).toEqualTypeOf<DocNode | undefined>();
+    expectTypeOf(mention.state.heading.getId()).toEqualTypeOf<
+      string | undefined
+    >();
+  });
+
+  test("resolves to the node and is stored as its id", () => {
+    const { doc, heading, mention } = createDoc();
+    expect(mention.state.heading.get()).toBe(heading);
+    expect(mention.state.heading.getId()).toBe(heading.id);
+    expect(mention.state.node.get()).toBeUndefined();
+    expect(mention.state.node.isBroken()).toBe(false);
+    assertJson(doc, [
+      "root",
+      {},
+      [
+        ["heading", {}],
+        ["mention", { heading: JSON.stringify(heading.id) }],
+      ],
+    ]);
+    const doc2 = Doc.fromJSON(config, doc.toJSON());
+    const mention2 = doc2.getNodeById(mention.id) as typeof mention;
+    expect(mention2.state.heading.get()).toBe(doc2.getNodeById(heading.id));
+    mention2.state.heading.set(undefined);
+    doc2.forceCommit();
+    assertJson(doc2, [
+      "root",
+      {},
+      [
+        ["heading", {}],
+        ["mention", {}],
+      ],
+    ]);
+  });
+
+  test("validates the target", () => {
+    const { doc, mention } = createDoc();
+    const other = doc.createNode(Mention);
+    expect(() =>
+      // @ts-expect-error - the type must match
+      mention.state.heading.set(other),
+    ).toThrowError("Expected a node of type 'heading', but got 'mention'");
+    const { heading: foreign } = createDoc();
+    expect(() => mention.state.heading.set(foreign)).toThrowError(
+      "Node is from a different doc",
+    );
+    mention.state.node.set(other);
+    expect(mention.state.node.get()).toBeUndefined();
+    doc.root.append(other);
+    expect(mention.state.node.get()).toBe(other);
+  });
+
+  test("references of another type can't be resolved", () => {
+    const { doc, mention } = createDoc();
+    const json = doc.toJSON();
+    const mentionJson = json[3]![1]!;
+    mentionJson[2].heading = JSON.stringify(mention.id);
+    const doc2 = Doc.fromJSON(config, json);
+    const mention2 = doc2.getNodeById(mention.id) as typeof mention;
+    expect(mention2.state.heading.get()).toBeUndefined();
+    expect(mention2.state.heading.isBroken()).toBe(true);
+  });
+
+  test("deleting the target clears the reference until it is undone", () => {
+    const { doc, heading, mention } = createDoc();
+    const values: unknown[] = [];
+    mention.state.heading.subscribe((value) => values.push(value));
+    let operations: Operations | undefined;
+    doc.onChange((event) => (operations = event.operations));
+    heading.delete();
+    doc.forceCommit();
+    expect(mention.state.heading.get()).toBeUndefined();
+    expect(mention.state.heading.getId()).toBeUndefined();
+    expect(mention.state.heading.isBroken()).toBe(false);
+    expect(operations![1]).toStrictEqual({ [mention.id]: { heading: "null" } });
+    expect(values).toStrictEqual([undefined]);
+    doc.undoManager.undo();
+    const restored = doc.getNodeById(heading.id);
+    expect(mention.state.heading.get()).toBe(restored);
+    expect(restored!.referencedBy()).toStrictEqual([mention]);
+    expect(values).toStrictEqual([undefined, restored]);
+    expect(doc.undoManager.canUndo()).toBe(false);
+  });
+
+  test("targets deleted by applyOperations", () => {
+    const { doc, heading, mention } = createDoc();
+    const peer = Doc.fromJSON(config, doc.toJSON());
+    peer.forceCommit();
+    let operations: Operations | undefined;
+    peer.onChange((event) => (operations = event.operations));
+    peer.getNodeById(heading.id)!.delete();
+    peer.forceCommit();
+    // a reference set concurrently with the deletion
+    mention.state.node.set(heading);
+    doc.forceCommit();
+    doc.applyOperations(operations!);
+    expect(mention.state.heading.getId()).toBeUndefined();
+    expect(mention.state.node.isBroken()).toBe(true);
+    // the dangling reference is kept, so it can still be found
+    expect(heading.referencedBy()).toStrictEqual([mention]);
+  });
+
+  test("subscribe and getPrev resolve the nodes", () => {
+    const { doc, heading, mention } = createDoc();
+    const heading2 = doc.createNode(Heading);
+    doc.root.append(heading2);
+    doc.forceCommit();
+    const values: unknown[] = [];
+    mention.state.heading.subscribe((value) => values.push(value));
+    doc.onChange(() => {
+      expect(mention.state.heading.getPrev()).toStrictEqual([true, heading]);
+    });
+    mention.state.heading.set(heading2);
+    doc.forceCommit();
+    expect(values).toStrictEqual([heading2]);
+  });
+
+  test("referencedBy", () => {
+    const { doc, heading, mention } = createDoc();
+    const mention2 = doc.createNode(Mention);
+    mention2.state.node.set(heading);
+    doc.root.append(mention2);
+    doc.forceCommit();
+    expect(heading.referencedBy()).toStrictEqual([mention, mention2]);
+    expect(mention.referencedBy()).toStrictEqual([]);
+    mention.delete();
+    mention2.state.node.set(mention2);
+    doc.forceCommit();
+    expect(heading.referencedBy()).toStrictEqual([]);
+    expect(mention2.referencedBy()).toStrictEqual([mention2]);
+  });
+
+  test("importSubtree remaps the references", () => {
+    const { doc } = createDoc();
+    const section = doc.createNode(Heading);
+    const heading = doc.createNode(Heading);
+    const mention = doc.createNode(Mention);
+    mention.state.heading.set(heading);
+    section.append(heading, mention);
+    doc.root.append(section);
+    doc.forceCommit();
+    const copy = doc.importSubtree(section.exportSubtree(), doc.root, "append");
+    const copiedMention = copy.last as DocNode<typeof Mention>;
+    expect(copiedMention.state.heading.get()).toBe(copy.first);
+    expect(copy.first!.referencedBy()).toStrictEqual([copiedMention]);
+  });
+});
@@ -0,0 +1,205 @@
+import { test, describe, expect } from "vitest";
+import {
+  Doc,
+  defineNode,
+  type DocConfig,
+  type Operations,
+  type SchemaViolation,
+} from "@docukit/docnode";
+import { checkUndoManager, Text } from "./utils.js";
+
+const List = defineNode({
+  type: "list",
+  schema: { allowedChildren: ["list-item"], requiredChildren: ["list-item"] },
+});
+
+const ListItem = defineNode({
+  type: "list-item",
+  schema: { allowedParents: ["list"] },
+});
+
+const Title = defineNode({ type: "title", schema: { maxChildren: 1 } });
+
+const Root = defineNode({
+  type: "root",
+  schema: { allowedChildren: ["list", "title", "text"] },
+});
+
+function createDoc(config?: Partial<DocConfig>) {
+  const reports: { violations: SchemaViolation[]; rejected: boolean }[] = [];
+  const doc = new Doc({
+    type: "root",
+    extensions: [{ nodes: [Root, List, ListItem, Title, Text] }],
+    onSchemaViolation: (report) => reports.push(report),
+    ...config,
+  });
+  return { doc, reports };
+}
+
+describe("schema - local mutations", () => {
+  test("allowedChildren", () => {
+    const { doc } = createDoc();
+    const list = doc.createNode(List);
+    doc.root.append(list);
+    expect(() => list.append(doc.createNode(Text))).toThrowError(
+      "A node of type 'text' is not allowed as a child of a node of type 'list'.",
+    );
+    expect(() => doc.root.append(doc.createNode(Title), list)).not.toThrow();
+  });
+
+  test("allowedParents", () => {
+    const { doc } = createDoc();
+    const item = doc.createNode(ListItem);
+    expect(() => doc.root.append(item)).toThrowError(
+      "A node of type 'list-item' is not allowed as a child of a node of type 'root'.",
+    );
+    const text = doc.createNode(Text);
+    doc.root.append(text);
+    expect(() => text.append(item)).toThrowError(
+      "A node of type 'list-item' is not allowed to have a parent of type 'text'.",
+    );
+  });
+
+  test("maxChildren", () => {
+    const { doc } = createDoc();
+    const title = doc.createNode(Title);
+    const [text1, text2] = [doc.createNode(Text), doc.createNode(Text)];
+    doc.root.append(title, text2);
+    expect(() => title.append(text1, doc.createNode(Text))).toThrowError(
+      "A node of type 'title' can't have more than 1 children.",
+    );
+    title.append(text1);
+    expect(() => text2.move(title, "append")).toThrowError(
+      "A node of type 'title' can't have more than 1 children.",
+    );
+    // moving inside the same parent doesn't change the count
+    expect(() => text1.move(title, "prepend")).not.toThrow();
+  });
+
+  test("changeType", () => {
+    const { doc } = createDoc();
+    const text = doc.createNode(Text);
+    doc.root.append(text);
+    doc.forceCommit();
+    expect(() => text.changeType(ListItem)).toThrowError(
+      "A node of type 'list-item' is not allowed as a child of a node of type 'root'.",
+    );
+    expect(text.type).toBe("text");
+  });
+
+  test("required children are appended in the normalize phase", () => {
+    const insertedSizes: number[] = [];
+    const { doc, reports } = createDoc({
+      extensions: [
+        { nodes: [Root, List, ListItem, Title, Text] },
+        {
+          // the repairs run before the normalize listeners
+          register: (doc) =>
+            doc.onNormalize(({ diff }) => {
+              insertedSizes.push(diff.inserted.size);
+            }),
+        },
+      ],
+    });
+    const list = doc.createNode(List);
+    doc.root.append(list);
+    doc.forceCommit();
+    expect(list.first?.type).toBe("list-item");
+    expect(reports).toStrictEqual([
+      {
+        violations: [
+          {
+            constraint: "requiredChildren",
+            parentId: list.id,
+            type: "list-item",
+          },
+        ],
+        rejected: false,
+      },
+    ]);
+    expect(insertedSizes.at(-1)).toBe(2);
+    list.first!.delete();
+    doc.forceCommit();
+    expect(list.first?.type).toBe("list-item");
+  });
+
+  test("node definitions of the same type merge their schemas", () => {
+    const ListItem2 = defineNode({
+      type: "list-item",
+      schema: { allowedParents: ["title"] },
+    });
+    const { doc } = createDoc({
+      extensions: [{ nodes: [Root, List, ListItem, ListItem2, Title, Text] }],
+    });
+    const title = doc.createNode(Title);
+    doc.root.append(title);
+    expect(() => title.append(doc.createNode(ListItem))).not.toThrow();
+  });
+});
+
+describe("schema - applyOperations", () => {
+  /** Operations from a client whose node definitions have no schema */
+  function remoteOperations(json: ReturnType<Doc["toJSON"]>) {
+    const LooseTitle = defineNode({ type: "title" });
+    const LooseListItem = defineNode({ type: "list-item" });
+    const remote = Doc.fromJSON(
+      {
+        type: "root",
+        extensions: [{ nodes: [LooseTitle, LooseListItem, Text] }],
+      },
+      json,
+    );
+    remote.forceCommit();
+    let operations: Operations | undefined;
+    remote.onChange((ev) => (operations = ev.operations));
+    remote.root.first!.append(remote.createNode(Text), remote.createNode(Text));
+    remote.root.append(remote.createNode(LooseListItem));
+    remote.forceCommit();
+    return operations!;
+  }
+
+  function setup(config?: Partial<DocConfig>) {
+    const { doc, reports } = createDoc(config);
+    doc.root.append(doc.createNode(Title));
+    doc.forceCommit();
+    return { doc, reports, operations: remoteOperations(doc.toJSON()) };
+  }
+
+  test("repair", () => {
+    const { doc, reports, operations } = setup();
+    doc.applyOperations(operations);
+    const title = doc.root.first!;
+    expect(doc.root.last).toBe(title);
+    expect(title.first).toBe(title.last);
+    expect(reports).toHaveLength(1);
+    expect(reports[0]!.rejected).toBe(false);
+    expect(reports[0]!.violations.map((v) => v.constraint)).toStrictEqual([
+      "allowedChildren",
+      "maxChildren",
+    ]);
+  });
+
+  test("reject", () => {
+    const { doc, reports, operations } = setup({ invalidOperations: "reject" });
+    const json = doc.toJSON();
+    let changes = 0;
+    doc.onChange(() => changes++);
+    doc.applyOperations(operations);
+    expect(doc.toJSON()).toStrictEqual(json);
+    expect(changes).toBe(0);
+    expect(reports).toHaveLength(1);
+    expect(reports[0]!.rejected).toBe(true);
+    expect(reports[0]!.violations).toHaveLength(2);
+  });
+
+  test("checkUndoManager", () => {
+    const { doc } = createDoc();
+    checkUndoManager(2, doc, () => {
+      const list = doc.createNode(List);
+      doc.root.append(list);
+      doc.forceCommit();
+      list.append(doc.createNode(ListItem), doc.createNode(ListItem));
+      list.first!.delete();
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { test, describe, expect, expectTypeOf, vi } from "vitest";
+import * as v from "valibot";
+import {
+  Doc,
+  array,
+  date,
+  defineNode,
+  enumOf,
+  fromSchema,
+  object,
+  type DocNode,
+  type JsonDoc,
+} from "@docukit/docnode";
+
+const Task = defineNode({
+  type: "task",
+  state: {
+    status: enumOf(["todo", "doing", "done"], "todo"),
+    due: date(new Date(0)),
+    position: object({ x: v.number(), y: v.number() }, { x: 0, y: 0 }),
+    tags: array(v.string()),
+    priority: fromSchema(v.pipe(v.number(), v.integer(), v.minValue(1)), 1),
+  },
+});
+
+const config = { type: "root", extensions: [{ nodes: [Task] }] };
+
+function createDoc() {
+  const doc = new Doc(config);
+  const task = doc.createNode(Task);
+  doc.root.append(task);
+  doc.forceCommit();
+  return { doc, task };
+}
+
+/** Returns a JSON doc with a task whose state is `state`. */
+function taskJson(doc: Doc, state: Record<string, string>) {
+  const json = doc.toJSON();
+  const task = json[3]![0];
+  return [json[0], json[1], json[2], [[task[0], task[1], state]]] as JsonDoc;
+}
+
+describe("schema states", () => {
+  test("types", () => {
+    const { task } = createDoc();
+    expectTypeOf(task.state.status.get()).toEqualTypeOf<
+      "todo" | "doing" | "done"
+    >();
+    expectTypeOf(task.state.due.get().getTime()).toEqualTypeOf<number>();
+    expectTypeOf(task.state.position.get()).toEqualTypeOf<{
+      readonly x: number;
+      readonly y: number;
+    }>();
+    expectTypeOf(task.state.tags.get()).toEqualTypeOf<readonly string[]>();
+    expectTypeOf(task.state.priority.get()).toEqualTypeOf<number>();
+    // @ts-expect-error - not one of the values
+    task.state.status.set("blocked");
+  });
+
+  test("values are serialized and parsed", () => {
+    const { doc, task } = createDoc();
+    task.state.status.set("doing");
+    task.state.due.set(new Date("2025-03-01T10:00:00.000Z"));
+    task.state.position.set({ x: 1, y: 2 });
+    task.state.tags.set(["a", "b"]);
+    task.state.priority.set(3);
+    doc.forceCommit();
+    expect(doc.toJSON()[3]![0][2]).toStrictEqual({
+      status: '"doing"',
+      due: '"2025-03-01T10:00:00.000Z"',
+      position: '{"x":1,"y":2}',
+      tags: '["a","b"]',
+      priority: "3",
+    });
+    const doc2 = Doc.fromJSON(config, doc.toJSON());
+    const task2 = doc2.root.first as DocNode<typeof Task>;
+    expect(task2.state.status.get()).toBe("doing");
+    expect(task2.state.due.get()).toStrictEqual(task.state.due.get());
+    expect(task2.state.position.get()).toStrictEqual({ x: 1, y: 2 });
+    expect(task2.state.tags.get()).toStrictEqual(["a", "b"]);
+    expect(task2.state.priority.get()).toBe(3);
+  });
+
+  test("invalid values are replaced by the default", () => {
+    const { doc } = createDoc();
+    const json = taskJson(doc, {
+      status: '"blocked"',
+      due: '"yesterday"',
+      position: '{"x":1}',
+      tags: '["a",1]',
+      priority: "0",
+    });
+    const task = Doc.fromJSON(config, json).root.first as DocNode<typeof Task>;
+    expect(task.state.status.get()).toBe("todo");
+    expect(task.state.due.get()).toStrictEqual(new Date(0));
+    expect(task.state.position.get()).toStrictEqual({ x: 0, y: 0 });
+    expect(task.state.tags.get()).toStrictEqual([]);
+    expect(task.state.priority.get()).toBe(1);
+    const { issues } = Doc.fromJSON(config, json, { mode: "lenient" });
+    expect(issues.map((issue) => [issue.reason, issue.key])).toStrictEqual([
+      ["coercedState", "status"],
+      ["coercedState", "due"],
+      ["coercedState", "position"],
+      ["coercedState", "tags"],
+      ["coercedState", "priority"],
+    ]);
+  });
+
+  test("onInvalid: throw", () => {
+    const Strict = defineNode({
+      type: "task",
+      state: {
+        status: enumOf(["todo", "done"], "todo", { onInvalid: "throw" }),
+      },
+    });
+    const strictConfig = { type: "root", extensions: [{ nodes: [Strict] }] };
+    const { doc } = createDoc();
+    const json = taskJson(doc, { status: '"blocked"' });
+    expect(() => Doc.fromJSON(strictConfig, json)).toThrowError(
+      'Invalid type: Expected ("todo" | "done") but received "blocked"',
+    );
+    const { doc: doc2, issues } = Doc.fromJSON(strictConfig, json, {
+      mode: "lenient",
+    });
+    expect(issues.map((issue) => [issue.reason, issue.key])).toStrictEqual([
+      ["invalidState", "status"],
+    ]);
+    const task = doc2.root.first as DocNode<typeof Strict>;
+    expect(task.state.status.get()).toBe("todo");
+  });
+
+  test("onInvalid: report", () => {
+    const onInvalid = vi.fn();
+    const Reported = defineNode({
+      type: "task",
+      state: { tags: array(v.string(), ["none"], { onInvalid }) },
+    });
+    const reportedConfig = {
+      type: "root",
+      extensions: [{ nodes: [Reported] }],
+    };
+    const { doc } = createDoc();
+    const doc2 = Doc.fromJSON(
+      reportedConfig,
+      taskJson(doc, { tags: '["a",1]' }),
+    );
+    const task = doc2.root.first as DocNode<typeof Reported>;
+    expect(task.state.tags.get()).toStrictEqual(["none"]);
+    expect(onInvalid).toHaveBeenCalledOnce();
+    const [issues, json] = onInvalid.mock.calls[0] as [
+      v.GenericIssue[],
+      unknown,
+    ];
+    expect(json).toStrictEqual(["a", 1]);
+    expect(issues.map((issue) => issue.message)).toStrictEqual([
+      "Invalid type: Expected string but received 1",
+    ]);
+  });
+});
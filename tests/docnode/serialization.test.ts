@@ -17,6 +17,10 @@ import {
   defineNode,
   string,
   defineState,
+  map,
+  set,
+  type JsonDoc,
+  type JsonDocIssue,
 } from "@docukit/docnode";
 import { test, expect, describe } from "vitest";
 import * as v from "valibot";
@@ -330,3 +334,181 @@ describe("json serialization", () => {
     ).toThrowError("Invalid node id: bad-child.");
   });
 });
+
+describe("fromJSON modes", () => {
+  const config = { type: "root", extensions: [TextExtension] };
+  const throwingState = defineNode({
+    type: "strict",
+    state: {
+      value: defineState({
+        fromJSON: (json) => {
+          if (json !== undefined && typeof json !== "string")
+            throw new Error("Expected a string");
+          return json ?? "";
+        },
+      }),
+    },
+  });
+  const jsonDoc: JsonDoc = [
+    "01kdjkhm2wkfkcw7xkjdjrd1cc",
+    "root",
+    {},
+    [
+      ["1", "text", { value: '"1"' }],
+      ["2", "unknown", {}, [["2.1", "text", { value: '"2.1"' }]]],
+      [
+        "3",
+        "text",
+        { value: '"3"' },
+        [
+          ["3.1", "text", { value: "1", unknown: '"x"' }],
+          ["1", "text", { value: '"repeated"' }],
+          ["3.3", "strict", { value: "2" }],
+        ],
+      ],
+    ],
+  ];
+  const issues: JsonDocIssue[] = [
+    {
+      reason: "unknownType",
+      path: [1],
+      nodeId: "2",
+      type: "unknown",
+      message:
+        "Attempted to create a node of type 'unknown' that was not registered.",
+      dropped: ["2", "unknown", {}, [["2.1", "text", { value: '"2.1"' }]]],
+    },
+    {
+      reason: "coercedState",
+      path: [2, 0],
+      nodeId: "3.1",
+      type: "text",
+      key: "value",
+      message: `State 'value' in a node of type 'text' was coerced from 1 to ""`,
+    },
+    {
+      reason: "unknownState",
+      path: [2, 0],
+      nodeId: "3.1",
+      type: "text",
+      key: "unknown",
+      message:
+        "Attempted to create a node of type 'text' with a state that is not registered: unknown",
+      dropped: '"x"',
+    },
+    {
+      reason: "invalidId",
+      path: [2, 1],
+      nodeId: "1",
+      type: "text",
+      message: "Repeated node id: 1.",
+      dropped: ["1", "text", { value: '"repeated"' }],
+    },
+    {
+      reason: "invalidState",
+      path: [2, 2],
+      nodeId: "3.3",
+      type: "strict",
+      key: "value",
+      message:
+        "Invalid state 'value' in a node of type 'strict': Expected a string",
+      dropped: "2",
+    },
+  ];
+
+  test("lenient mode leaves out the invalid parts and returns the issues", () => {
+    const result = Doc.fromJSON(
+      { ...config, extensions: [TextExtension, { nodes: [throwingState] }] },
+      jsonDoc,
+      { mode: "lenient" },
+    );
+    expect(result.issues).toStrictEqual(issues);
+    result.doc.forceCommit();
+    assertJson(result.doc, [
+      "root",
+      {},
+      [
+        ["text", { value: '"1"' }],
+        [
+          "text",
+          { value: '"3"' },
+          [
+            ["text", {}],
+            ["strict", {}],
+          ],
+        ],
+      ],
+    ]);
+  });
+
+  test("strict mode throws with every issue", () => {
+    expect(() =>
+      Doc.fromJSON(
+        { ...config, extensions: [TextExtension, { nodes: [throwingState] }] },
+        jsonDoc,
+        { mode: "strict" },
+      ),
+    ).toThrowError(
+      [
+        "The JSON doc has 5 issue(s):",
+        "- /1 (2): Attempted to create a node of type 'unknown' that was not registered.",
+        `- /2/0 (3.1): State 'value' in a node of type 'text' was coerced from 1 to ""`,
+        "- /2/0 (3.1): Attempted to create a node of type 'text' with a state that is not registered: unknown",
+        "- /2/1 (1): Repeated node id: 1.",
+        "- /2/2 (3.3): Invalid state 'value' in a node of type 'strict': Expected a string",
+      ].join("\n"),
+    );
+  });
+
+  test("valid JSON has no issues", () => {
+    const doc = new Doc(config);
+    doc.root.append(...text(doc, "1", "2"));
+    doc.root.first!.append(...text(doc, "1.1"));
+    doc.forceCommit();
+    const { doc: doc2, issues } = Doc.fromJSON(config, doc.toJSON(), {
+      mode: "strict",
+    });
+    doc2.forceCommit();
+    expect(issues).toStrictEqual([]);
+    expect(doc2.toJSON()).toStrictEqual(doc.toJSON());
+  });
+
+  test("valid maps and sets serialized in another order are not coerced", () => {
+    const Collections = defineNode({
+      type: "collections",
+      state: { map: map<number>(), set: set() },
+    });
+    const config = { type: "root", extensions: [{ nodes: [Collections] }] };
+    const jsonDoc = (state: Record<string, string>): JsonDoc => [
+      "01kdjkhm2wkfkcw7xkjdjrd1cc",
+      "root",
+      {},
+      [["1", "collections", state]],
+    ];
+    const { issues } = Doc.fromJSON(
+      config,
+      jsonDoc({ map: '{"b":1,"a":{"d":1,"c":2}}', set: '["b","a","a"]' }),
+      { mode: "lenient" },
+    );
+    expect(issues).toStrictEqual([]);
+    const { issues: coerced } = Doc.fromJSON(
+      config,
+      jsonDoc({ map: "[1]", set: '["b",{}]' }),
+      { mode: "lenient" },
+    );
+    expect(coerced.map(({ reason, key }) => [reason, key])).toStrictEqual([
+      ["coercedState", "map"],
+      ["coercedState", "set"],
+    ]);
+  });
+
+  test("an invalid root throws in any mode", () => {
+    expect(() =>
+      Doc.fromJSON(config, ["01kdjkhm2wkfkcw7xkjdjrd1cc", "unknown", {}], {
+        mode: "lenient",
+      }),
+    ).toThrowError(
+      "- root (01kdjkhm2wkfkcw7xkjdjrd1cc): Attempted to create a node of type 'unknown' that was not registered.",
+    );
+  });
+});
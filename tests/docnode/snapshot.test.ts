@@ -0,0 +1,187 @@
+import { test, describe, expect } from "vitest";
+import {
+  Doc,
+  defineNode,
+  type DocNode,
+  type NodeSnapshot,
+  number,
+} from "@docukit/docnode";
+import { text, Text } from "./utils.js";
+
+const Counter = defineNode({ type: "counter", state: { count: number(0) } });
+
+const config = {
+  type: "root",
+  extensions: [{ nodes: [Text, Counter] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+/**
+ * Creates a doc with the structure:
+ * root
+ * ├── 1
+ * │   ├── 1.1
+ * │   └── 1.2
+ * └── 2
+ *     └── 2.1
+ */
+function createDoc() {
+  const doc = new Doc(config);
+  doc.root.append(...text(doc, "1", "2"));
+  doc.root.first!.append(...text(doc, "1.1", "1.2"));
+  doc.root.last!.append(...text(doc, "2.1"));
+  doc.forceCommit();
+  return doc;
+}
+
+/** Checks that the snapshot matches one built from scratch. */
+function assertSnapshot(doc: Doc) {
+  const snapshot = doc.snapshot();
+  const fresh = Doc.fromJSON(config, doc.toJSON());
+  fresh.forceCommit();
+  expect(snapshot).toStrictEqual(fresh.snapshot());
+  return snapshot;
+}
+
+const setValue = (node: DocNode | undefined, value: string) => {
+  if (node?.is(Text)) node.state.value.set(value);
+};
+
+const values = (snapshot: NodeSnapshot) =>
+  snapshot.children.map((child) => child.state.value);
+
+describe("snapshot", () => {
+  test("plain frozen objects", () => {
+    const doc = createDoc();
+    const snapshot = doc.snapshot();
+    expect(values(snapshot)).toStrictEqual(["1", "2"]);
+    expect(values(snapshot.children[0]!)).toStrictEqual(["1.1", "1.2"]);
+    expect(snapshot.children[1]!).toStrictEqual({
+      id: doc.root.last!.id,
+      type: "text",
+      state: { value: "2" },
+      children: [
+        {
+          id: doc.root.last!.first!.id,
+          type: "text",
+          state: { value: "2.1" },
+          children: [],
+        },
+      ],
+    });
+    expect(Object.isFrozen(snapshot)).toBe(true);
+    expect(Object.isFrozen(snapshot.children)).toBe(true);
+    expect(Object.isFrozen(snapshot.children[0]!.state)).toBe(true);
+    // default values are included
+    const counter = doc.createNode(Counter);
+    doc.root.append(counter);
+    doc.forceCommit();
+    expect(doc.snapshot().children[2]!.state).toStrictEqual({ count: 0 });
+  });
+
+  test("same snapshot if nothing changed", () => {
+    const doc = createDoc();
+    const snapshot = doc.snapshot();
+    expect(doc.snapshot()).toBe(snapshot);
+    doc.forceCommit(() => setValue(doc.root.first, "1"), {});
+    expect(doc.snapshot()).toBe(snapshot);
+  });
+
+  test("unchanged subtrees keep their identity", () => {
+    const doc = createDoc();
+    const prev = doc.snapshot();
+    setValue(doc.root.first!.first, "1.1b");
+    doc.forceCommit();
+    const next = assertSnapshot(doc);
+    expect(next).not.toBe(prev);
+    expect(next.children[0]).not.toBe(prev.children[0]);
+    expect(next.children[0]!.children[0]).not.toBe(
+      prev.children[0]!.children[0],
+    );
+    // the state of the parent didn't change
+    expect(next.children[0]!.state).toBe(prev.children[0]!.state);
+    expect(next.children[0]!.children[1]).toBe(prev.children[0]!.children[1]);
+    expect(next.children[1]).toBe(prev.children[1]);
+  });
+
+  test("insert, delete, move and change type", () => {
+    const doc = createDoc();
+    let prev = doc.snapshot();
+    doc.root.last!.append(...text(doc, "2.2"));
+    doc.forceCommit();
+    let next = assertSnapshot(doc);
+    expect(next.children[0]).toBe(prev.children[0]);
+    expect(next.children[1]!.children[0]).toBe(prev.children[1]!.children[0]);
+
+    prev = next;
+    doc.root.first!.first!.delete();
+    doc.forceCommit();
+    next = assertSnapshot(doc);
+    expect(next.children[0]!.children[0]).toBe(prev.children[0]!.children[1]);
+    expect(next.children[1]).toBe(prev.children[1]);
+
+    // the previous parent also changes
+    prev = next;
+    doc.root.last!.first!.move(doc.root.first!, "append");
+    doc.forceCommit();
+    next = assertSnapshot(doc);
+    expect(values(next.children[0]!)).toStrictEqual(["1.2", "2.1"]);
+    expect(values(next.children[1]!)).toStrictEqual(["2.2"]);
+    expect(next.children[0]!.children[1]).toBe(prev.children[1]!.children[0]);
+    expect(next.children[1]!.children[0]).toBe(prev.children[1]!.children[1]);
+
+    prev = next;
+    doc.root.last!.changeType(Counter);
+    doc.forceCommit();
+    next = assertSnapshot(doc);
+    expect(next.children[1]!.type).toBe("counter");
+    expect(next.children[1]!.children[0]).toBe(prev.children[1]!.children[0]);
+
+    doc.undoManager.undo();
+    doc.undoManager.undo();
+    doc.undoManager.undo();
+    doc.undoManager.undo();
+    expect(values(assertSnapshot(doc))).toStrictEqual(["1", "2"]);
+  });
+
+  test("remote operations", () => {
+    const doc = createDoc();
+    const doc2 = Doc.fromJSON(config, doc.toJSON());
+    doc2.forceCommit();
+    doc.onChange(({ operations }) => doc2.applyOperations(operations));
+    const prev = doc2.snapshot();
+    doc.root.first!.delete();
+    doc.root.append(...text(doc, "3"));
+    doc.forceCommit();
+    const next = assertSnapshot(doc2);
+    expect(values(next)).toStrictEqual(["2", "3"]);
+    expect(next.children[0]).toBe(prev.children[1]);
+  });
+
+  test("during a transaction", () => {
+    const doc = createDoc();
+    const prev = doc.snapshot();
+    let inChange: NodeSnapshot | undefined;
+    doc.onChange(() => (inChange = doc.snapshot()));
+    setValue(doc.root.first, "1b");
+    // the last committed snapshot
+    expect(doc.snapshot()).toBe(prev);
+    doc.forceCommit();
+    expect(values(inChange!)).toStrictEqual(["1b", "2"]);
+    expect(doc.snapshot()).toBe(inChange);
+  });
+
+  test("first snapshot during a transaction", () => {
+    const doc = createDoc();
+    setValue(doc.root.first, "1b");
+    const uncommitted = doc.snapshot();
+    expect(values(uncommitted)).toStrictEqual(["1b", "2"]);
+    doc.abort();
+    expect(values(assertSnapshot(doc))).toStrictEqual(["1", "2"]);
+
+    setValue(doc.root.first, "1c");
+    doc.snapshot();
+    doc.forceCommit();
+    expect(values(assertSnapshot(doc))).toStrictEqual(["1c", "2"]);
+  });
+});
@@ -6,6 +6,7 @@ import {
   type DocNode,
   string,
   type DeepImmutable,
+  type Operations,
   type StateDefinition,
   type NodeDefinition,
 } from "@docukit/docnode";
@@ -34,6 +35,7 @@ describe("state", () => {
         set: (value: string | ((prev: string) => string)) => void;
         get: () => string;
         getPrev: () => [changed: boolean, value: string];
+        subscribe: (callback: (value: string) => void) => () => void;
       };
     }>();
   });
@@ -46,6 +48,7 @@ describe("state", () => {
         set: (value: string | ((prev: string) => string)) => void;
         get: () => string;
         getPrev: () => [changed: boolean, value: string];
+        subscribe: (callback: (value: string) => void) => () => void;
       };
     }>();
   });
@@ -206,6 +209,56 @@ describe("getState", () => {
       [["text", { value: '"1"' }]],
     ]);
   });
+  test("root state from DocConfig", () => {
+    const config = {
+      type: "root",
+      extensions: [TextExtension],
+      rootState: { title: string(""), locale: string("en") },
+    };
+    const doc = new Doc(config);
+    expectTypeOf(doc.root.state.title.get()).toEqualTypeOf<string>();
+    // @ts-expect-error - not a root state
+    expect(doc.root.state.foo).toBeUndefined();
+    expectTypeOf(
+      new Doc({ type: "root", extensions: [] }).root.state,
+    ).toEqualTypeOf<DocNode["state"]>();
+    const untyped: Doc = doc;
+    expect(untyped).toBe(doc);
+
+    checkUndoManager(1, doc, () => {
+      doc.root.append(...text(doc, "1"));
+      doc.root.state.title.set("My doc");
+    });
+    assertJson(doc, [
+      "root",
+      { title: '"My doc"' },
+      [["text", { value: '"1"' }]],
+    ]);
+
+    const doc2 = Doc.fromJSON(config, doc.toJSON());
+    expect(doc2.root.state.title.get()).toBe("My doc");
+    expect(doc2.root.state.locale.get()).toBe("en");
+    let operations: Operations | undefined;
+    doc.onChange((event) => (operations = event.operations));
+    doc.root.state.locale.set("es");
+    doc.forceCommit();
+    doc2.applyOperations(operations!);
+    expect(doc2.root.state.locale.get()).toBe("es");
+    expect(doc.fork().root.state.locale.get()).toBe("es");
+  });
+
+  test("root state from DocConfig collides with extensions of the root", () => {
+    const Root2 = defineNode({ type: "root", state: { title: string("") } });
+    expect(
+      () =>
+        new Doc({
+          type: "root",
+          extensions: [{ nodes: [Root2] }],
+          rootState: { title: string("") },
+        }),
+    ).toThrowError("Collision error");
+  });
+
   test("getState", () => {
     const doc = new Doc({ type: "root", extensions: [{ nodes: [TestNode] }] });
     const nodeX = doc.createNode(TestNode);
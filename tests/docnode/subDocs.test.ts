@@ -0,0 +1,233 @@
+import { test, describe, expect, expectTypeOf } from "vitest";
+import {
+  Doc,
+  defineNode,
+  type DocNode,
+  type JsonDoc,
+  subDoc,
+} from "@docukit/docnode";
+import { checkUndoManager, Text } from "./utils.js";
+
+const tableConfig = { type: "table", extensions: [{ nodes: [Text] }] };
+
+const Table = defineNode({
+  type: "table",
+  state: { doc: subDoc(tableConfig) },
+});
+
+const Caption = defineNode({
+  type: "caption",
+  state: { doc: subDoc({ type: "caption", extensions: [] }) },
+});
+
+const pageConfig = {
+  type: "page",
+  extensions: [{ nodes: [Table] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+function createPage() {
+  const page = new Doc(pageConfig);
+  const tableNode = page.createNode(Table);
+  const table = new Doc(tableConfig);
+  tableNode.state.doc.set(table);
+  page.root.append(tableNode);
+  page.forceCommit();
+  return { page, tableNode, table };
+}
+
+describe("subdocuments", () => {
+  test("types", () => {
+    const { tableNode } = createPage();
+    expectTypeOf(tableNode.state.doc.get()).toEqualTypeOf<Doc | undefined>();
+    expectTypeOf(tableNode.state.doc.set).toEqualTypeOf<(value: Doc) => void>();
+  });
+
+  test("registry and top-level doc", () => {
+    const { page, tableNode, table } = createPage();
+    expect(tableNode.state.doc.get()).toBe(table);
+    expect(page.getTopLevelDoc()).toBe(page);
+    expect(table.getTopLevelDoc()).toBe(page);
+    expect(page.getSubDocs()).toStrictEqual([table]);
+    expect(table.getSubDocs()).toStrictEqual([]);
+  });
+
+  test("is serialized as a reference", () => {
+    const { page, table } = createPage();
+    const json = page.toJSON();
+    expect(json[3]![0][2]).toStrictEqual({
+      doc: JSON.stringify(table.root.id),
+    });
+    const page2 = Doc.fromJSON(pageConfig, json);
+    const table2 = (page2.root.first as DocNode<typeof Table>).state.doc.get()!;
+    expect(table2).not.toBe(table);
+    expect(table2.root.id).toBe(table.root.id);
+    expect(table2.root.type).toBe("table");
+    expect(table2.root.first).toBeUndefined();
+    expect(page2.getSubDocs()).toStrictEqual([table2]);
+  });
+
+  test("parsing the same reference returns the registered instance", () => {
+    const { page, tableNode, table } = createPage();
+    tableNode.copy(page.root, "append");
+    const copy = page.root.last as DocNode<typeof Table>;
+    expect(copy.state.doc.get()).toBe(table);
+    page.forceCommit();
+    const page2 = Doc.fromJSON(pageConfig, page.toJSON());
+    const [first, last] = [page2.root.first, page2.root.last] as [
+      DocNode<typeof Table>,
+      DocNode<typeof Table>,
+    ];
+    expect(first.state.doc.get()).toBe(last.state.doc.get());
+    expect(page2.getSubDocs()).toHaveLength(1);
+  });
+
+  test("parsing a reference doesn't create a document", () => {
+    const { page, tableNode, table } = createPage();
+    const state = subDoc(tableConfig);
+    const parsed = state.fromJSON(table.root.id);
+    expect(parsed).not.toBeInstanceOf(Doc);
+    expect(state.toJSON?.(parsed)).toBe(table.root.id);
+    const added: Doc[] = [];
+    page.onSubDoc((subDoc) => added.push(subDoc));
+    tableNode.copy(page.root, "append");
+    page.forceCommit();
+    expect((page.root.last as DocNode<typeof Table>).state.doc.get()).toBe(
+      table,
+    );
+    expect(added).toStrictEqual([]);
+  });
+
+  test("nested subdocuments are registered in the top-level doc", () => {
+    const captionConfig = { type: "caption", extensions: [] };
+    const table = new Doc({
+      type: "table",
+      extensions: [{ nodes: [Text, Caption] }],
+    });
+    const captionNode = table.createNode(Caption);
+    const caption = new Doc(captionConfig);
+    captionNode.state.doc.set(caption);
+    table.root.append(captionNode);
+    expect(table.getSubDocs()).toStrictEqual([caption]);
+
+    const { page } = createPage();
+    const added: Doc[] = [];
+    page.onSubDoc((subDoc) => added.push(subDoc));
+    const tableNode = page.createNode(Table);
+    tableNode.state.doc.set(table);
+    page.forceCommit();
+    expect(added).toStrictEqual([table, caption]);
+    expect(caption.getTopLevelDoc()).toBe(page);
+    expect(table.getSubDocs()).toStrictEqual([caption]);
+    expect(page.getSubDocs()).toHaveLength(3);
+  });
+
+  test("are announced on commit and unregistered on abort", () => {
+    const { page, table } = createPage();
+    const added: Doc[] = [];
+    page.onSubDoc((subDoc) => added.push(subDoc));
+    const tableNode = page.createNode(Table);
+    const table2 = new Doc(tableConfig);
+    tableNode.state.doc.set(table2);
+    page.root.append(tableNode);
+    expect(added).toStrictEqual([]);
+    expect(page.getSubDocs()).toStrictEqual([table, table2]);
+    page.abort();
+    page.forceCommit();
+    expect(added).toStrictEqual([]);
+    expect(page.getSubDocs()).toStrictEqual([table]);
+    expect(table2.getTopLevelDoc()).toBe(table2);
+
+    const tableNode2 = page.createNode(Table);
+    tableNode2.state.doc.set(table2);
+    page.root.append(tableNode2);
+    page.forceCommit();
+    expect(added).toStrictEqual([table2]);
+    expect(page.getSubDocs()).toStrictEqual([table, table2]);
+  });
+
+  test("a failed import doesn't register its subdocuments", () => {
+    const { page, table } = createPage();
+    const added: Doc[] = [];
+    page.onSubDoc((subDoc) => added.push(subDoc));
+    const { id } = new Doc(tableConfig).root;
+    const subtree = {
+      node: [
+        "table",
+        "table",
+        { doc: JSON.stringify(id) },
+        [["unknown", "unknown", {}]],
+      ] as JsonDoc,
+    };
+    expect(() => page.importSubtree(subtree, page.root, "append")).toThrowError(
+      "Attempted to create a node of type 'unknown' that was not registered.",
+    );
+    page.forceCommit();
+    expect(added).toStrictEqual([]);
+    expect(page.getSubDocs()).toStrictEqual([table]);
+
+    subtree.node.pop();
+    page.importSubtree(subtree, page.root, "append");
+    expect(added).toStrictEqual([]);
+    page.forceCommit();
+    expect(added.map((subDoc) => subDoc.root.id)).toStrictEqual([id]);
+  });
+
+  test("dispose cascades", () => {
+    const { page, table } = createPage();
+    page.dispose();
+    expect(() => table.root.append(table.createNode(Text))).toThrowError();
+    expect(page.getSubDocs()).toStrictEqual([]);
+  });
+
+  test("disposing a subdocument unregisters it", () => {
+    const { page, table } = createPage();
+    table.dispose();
+    expect(page.getSubDocs()).toStrictEqual([]);
+  });
+
+  test("errors", () => {
+    const { page, tableNode, table } = createPage();
+    expect(() => tableNode.state.doc.set(new Doc(tableConfig))).toThrowError(
+      "Can't change a subdocument reference",
+    );
+    const otherPage = new Doc(pageConfig);
+    const otherTableNode = otherPage.createNode(Table);
+    expect(() => otherTableNode.state.doc.set(table)).toThrowError(
+      `The document '${table.root.id}' is already part of another tree of documents.`,
+    );
+    const pageTableNode = page.createNode(Table);
+    expect(() => pageTableNode.state.doc.set(page)).toThrowError(
+      `The document '${page.root.id}' is already part of another tree of documents.`,
+    );
+  });
+
+  test("applyOperations and undo", () => {
+    const page = new Doc(pageConfig);
+    const page2 = Doc.fromJSON(pageConfig, page.toJSON());
+    page.onChange(({ operations }) => page2.applyOperations(operations));
+    const tableNode = page.createNode(Table);
+    page.root.append(tableNode);
+    page.forceCommit();
+    const table = new Doc(tableConfig);
+    tableNode.state.doc.set(table);
+    page.forceCommit();
+    const table2 = (page2.root.first as DocNode<typeof Table>).state.doc.get();
+    expect(table2?.root.id).toBe(table.root.id);
+    expect(page2.getSubDocs()).toStrictEqual([table2]);
+    page.undoManager.undo();
+    expect(tableNode.state.doc.get()).toBeUndefined();
+    page.undoManager.redo();
+    expect(tableNode.state.doc.get()).toBe(table);
+  });
+
+  test("checkUndoManager", () => {
+    const page = new Doc({ type: "page", extensions: [{ nodes: [Table] }] });
+    checkUndoManager(2, page, () => {
+      const tableNode = page.createNode(Table);
+      page.root.append(tableNode);
+      page.forceCommit();
+      tableNode.state.doc.set(new Doc(tableConfig));
+    });
+  });
+});
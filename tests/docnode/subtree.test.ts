@@ -0,0 +1,160 @@
+import { test, describe, expect } from "vitest";
+import {
+  Doc,
+  defineNode,
+  defineState,
+  string,
+  type DocNode,
+} from "@docukit/docnode";
+import { assertDoc, text, TextExtension } from "./utils.js";
+
+/** Stores the ids of the nodes it links to. */
+const Link = defineNode({
+  type: "link",
+  state: {
+    targets: defineState({
+      fromJSON: (json) =>
+        Array.isArray(json) ? (json as string[]) : ([] as string[]),
+      remapIds: (value, remap) => value.map(remap),
+    }),
+  },
+});
+
+const config = {
+  type: "root",
+  extensions: [TextExtension, { nodes: [Link] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+function createDoc() {
+  const doc = new Doc(config);
+  doc.root.append(...text(doc, "1", "2"));
+  doc.root.first!.append(...text(doc, "1.1", "1.2"));
+  doc.forceCommit();
+  return doc;
+}
+
+describe("exportSubtree and importSubtree", () => {
+  test("copies a subtree to another doc with new ids", () => {
+    const source = createDoc();
+    const subtree = source.root.first!.exportSubtree();
+    expect(JSON.parse(JSON.stringify(subtree))).toStrictEqual(subtree);
+
+    const target = createDoc();
+    const node = target.importSubtree(subtree, target.root.last!, "after");
+    target.forceCommit();
+    assertDoc(target, ["1", "__1.1", "__1.2", "2", "1", "__1.1", "__1.2"]);
+    expect(target.root.last).toBe(node);
+    const sourceIds = new Set<string>();
+    source.root
+      .first!.descendants({ includeSelf: true })
+      .forEach((n) => sourceIds.add(n.id));
+    node.descendants({ includeSelf: true }).forEach((n) => {
+      expect(sourceIds.has(n.id)).toBe(false);
+      expect(target.getNodeById(n.id)).toBe(n);
+    });
+    assertDoc(source, ["1", "__1.1", "__1.2", "2"]);
+  });
+
+  test("can be imported several times into the same doc", () => {
+    const doc = createDoc();
+    const subtree = doc.root.first!.exportSubtree();
+    doc.importSubtree(subtree, doc.root, "append");
+    doc.importSubtree(subtree, doc.root, "prepend");
+    doc.forceCommit();
+    assertDoc(doc, [
+      "1",
+      "__1.1",
+      "__1.2",
+      "1",
+      "__1.1",
+      "__1.2",
+      "2",
+      "1",
+      "__1.1",
+      "__1.2",
+    ]);
+    const doc2 = Doc.fromJSON(config, doc.toJSON());
+    doc2.forceCommit();
+    expect(doc2.toJSON()).toStrictEqual(doc.toJSON());
+  });
+
+  test("is a single undoable transaction", () => {
+    const doc = createDoc();
+    doc.importSubtree(doc.root.first!.exportSubtree(), doc.root, "append");
+    doc.forceCommit();
+    doc.undoManager.undo();
+    assertDoc(doc, ["1", "__1.1", "__1.2", "2"]);
+  });
+
+  test("remaps the ids referenced in the state", () => {
+    const source = createDoc();
+    const [one, two] = [source.root.first!, source.root.last!];
+    const link = source.createNode(Link);
+    link.state.targets.set([one.first!.id, two.id]);
+    one.append(link);
+    source.forceCommit();
+
+    const target = createDoc();
+    const node = target.importSubtree(
+      one.exportSubtree(),
+      target.root,
+      "append",
+    );
+    const importedLink = node.last as DocNode<typeof Link>;
+    expect(importedLink.state.targets.get()).toStrictEqual([
+      node.first!.id,
+      // outside the subtree
+      two.id,
+    ]);
+  });
+
+  test("node types must be registered in the target doc", () => {
+    const source = createDoc();
+    source.root.first!.append(source.createNode(Link));
+    source.forceCommit();
+    const target = new Doc({ type: "root", extensions: [TextExtension] });
+    target.root.append(...text(target, "pending"));
+    expect(() =>
+      target.importSubtree(
+        source.root.first!.exportSubtree(),
+        target.root,
+        "append",
+      ),
+    ).toThrowError(
+      "Attempted to create a node of type 'link' that was not registered.",
+    );
+    // The pending transaction is not aborted
+    target.forceCommit();
+    assertDoc(target, ["pending"]);
+  });
+
+  test("the target must belong to the doc", () => {
+    const doc = createDoc();
+    const other = createDoc();
+    expect(() =>
+      doc.importSubtree(doc.root.first!.exportSubtree(), other.root, "append"),
+    ).toThrowError("Target is from a different doc");
+  });
+
+  test("the state is migrated to the versions of the target", () => {
+    const TextV1 = defineNode({
+      type: "text",
+      state: { content: string("") },
+      version: 1,
+      migrate: (fromVersion, { value, ...state }) => {
+        if (fromVersion < 1 && value !== undefined) state.content = value;
+        return state;
+      },
+    });
+    const source = createDoc();
+    const target = new Doc({ type: "root", extensions: [{ nodes: [TextV1] }] });
+    const node = target.importSubtree(
+      source.root.first!.exportSubtree(),
+      target.root,
+      "append",
+    ) as DocNode<typeof TextV1>;
+    expect(node.state.content.get()).toBe("1");
+    expect(node.exportSubtree().versions).toStrictEqual({ text: 1 });
+  });
+});
@@ -0,0 +1,360 @@
+import { test, describe, expect, expectTypeOf } from "vitest";
+import {
+  Doc,
+  defineNode,
+  type DocNode,
+  mergeOperations,
+  string,
+  text,
+  transformOperations,
+} from "@docukit/docnode";
+import {
+  assertJson,
+  checkUndoManager,
+  deltas,
+  fork,
+  getPrevError,
+  recordOperations,
+} from "./utils.js";
+
+const Paragraph = defineNode({
+  type: "paragraph",
+  state: { content: text(), title: string("") },
+});
+
+const config = {
+  type: "root",
+  extensions: [{ nodes: [Paragraph] }],
+  undoManager: { maxUndoSteps: 10, mergeInterval: 0 },
+};
+
+function createDoc(content = "Hello") {
+  const doc = new Doc(config);
+  const paragraph = doc.createNode(Paragraph);
+  paragraph.state.content.set(content);
+  doc.root.append(paragraph);
+  doc.forceCommit();
+  return { doc, paragraph };
+}
+
+type Edit = (content: DocNode<typeof Paragraph>["state"]["content"]) => void;
+
+/**
+ * Makes `edit1` and `edit2` concurrently on two peers of a doc with
+ * `initial` content. Each peer then applies the operations of the other,
+ * rebased over its own, and the content of both peers is returned.
+ */
+function converge(initial: string, edit1: Edit, edit2: Edit) {
+  const { doc } = createDoc(initial);
+  const peers = [fork(doc, Paragraph), fork(doc, Paragraph)] as const;
+  const [operations1, operations2] = [edit1, edit2].map((edit, i) =>
+    recordOperations(peers[i]!.doc, () => edit(peers[i]!.node.state.content)),
+  );
+  peers[0].doc.applyOperations(
+    transformOperations(operations2!, operations1!, peers[0].doc),
+  );
+  peers[1].doc.applyOperations(
+    transformOperations(operations1!, operations2!, peers[1].doc),
+  );
+  return peers.map((peer) => peer.node.state.content.get());
+}
+
+describe("text state", () => {
+  test("types", () => {
+    const { paragraph } = createDoc();
+    expectTypeOf(paragraph.state.content.get()).toEqualTypeOf<string>();
+    expectTypeOf(paragraph.state.content.insert).toEqualTypeOf<
+      (index: number, value: string) => void
+    >();
+    expectTypeOf(paragraph.state.content.delete).toEqualTypeOf<
+      (index: number, length: number) => void
+    >();
+  });
+
+  test("insert, delete and set", () => {
+    const { paragraph } = createDoc();
+    paragraph.state.content.insert(5, " world");
+    expect(paragraph.state.content.get()).toBe("Hello world");
+    paragraph.state.content.delete(0, 6);
+    expect(paragraph.state.content.get()).toBe("world");
+    paragraph.state.content.set("");
+    expect(paragraph.state.content.get()).toBe("");
+  });
+
+  test("is serialized as a string in the JsonDoc", () => {
+    const { doc, paragraph } = createDoc();
+    paragraph.state.content.insert(0, ">");
+    assertJson(doc, ["root", {}, [["paragraph", { content: '">Hello"' }]]]);
+    const doc2 = Doc.fromJSON(config, doc.toJSON({ unsafe: true }));
+    const paragraph2 = doc2.root.first as DocNode<typeof Paragraph>;
+    expect(paragraph2.state.content.get()).toBe(">Hello");
+  });
+
+  test("updates of attached nodes are sent as deltas", () => {
+    const { doc, paragraph } = createDoc();
+    doc.onChange(({ operations, inverseOperations, diff }) => {
+      expect(operations[1][paragraph.id]?.content).toMatch(/^~/);
+      expect(deltas(operations[1][paragraph.id]?.content)).toStrictEqual([
+        [5, " world"],
+      ]);
+      expect(deltas(inverseOperations[1][paragraph.id]?.content)).toStrictEqual(
+        [[5, -6]],
+      );
+      expect(diff.updated.has(paragraph.id)).toBe(true);
+    });
+    paragraph.state.content.insert(5, " world");
+    doc.forceCommit();
+  });
+
+  test("several updates in the same transaction are composed", () => {
+    const { doc, paragraph } = createDoc();
+    doc.onChange(({ operations, inverseOperations }) => {
+      expect(deltas(operations[1][paragraph.id]?.content)).toStrictEqual([
+        [">"],
+        [6, "!"],
+      ]);
+      expect(deltas(inverseOperations[1][paragraph.id]?.content)).toStrictEqual(
+        [[6, -1], [-1]],
+      );
+    });
+    paragraph.state.content.insert(0, ">");
+    paragraph.state.content.insert(6, "!");
+    doc.forceCommit();
+  });
+
+  test("reverting to the initial value in the same transaction is a no-op", () => {
+    const { doc, paragraph } = createDoc();
+    let count = 0;
+    doc.onChange(() => count++);
+    paragraph.state.content.insert(5, "!");
+    paragraph.state.content.delete(5, 1);
+    doc.forceCommit();
+    expect(count).toBe(0);
+  });
+
+  test("getPrev", () => {
+    const { doc, paragraph } = createDoc();
+    expect(() => paragraph.state.content.getPrev()).toThrowError(getPrevError);
+    paragraph.state.content.insert(0, ">");
+    paragraph.state.content.insert(6, "!");
+    expect(paragraph.state.content.getPrev()).toStrictEqual([true, "Hello"]);
+    doc.forceCommit();
+  });
+
+  test("surrogate pairs are not split", () => {
+    const { doc, paragraph } = createDoc("😀");
+    doc.onChange(({ operations }) => {
+      expect(deltas(operations[1][paragraph.id]?.content)).toStrictEqual([
+        [-2, "😃"],
+      ]);
+    });
+    paragraph.state.content.set("😃");
+    doc.forceCommit();
+  });
+
+  test("insert and delete send deltas at the given index", () => {
+    const { doc, paragraph } = createDoc("aaa");
+    const insertOperations = recordOperations(doc, () => {
+      paragraph.state.content.insert(0, "a");
+    });
+    expect(deltas(insertOperations[1][paragraph.id]?.content)).toStrictEqual([
+      ["a"],
+    ]);
+    const deleteOperations = recordOperations(doc, () => {
+      paragraph.state.content.delete(2, 10);
+    });
+    expect(deltas(deleteOperations[1][paragraph.id]?.content)).toStrictEqual([
+      [2, -2],
+    ]);
+    expect(paragraph.state.content.get()).toBe("aa");
+  });
+
+  test("checkUndoManager", () => {
+    const doc = new Doc({ type: "root", extensions: [{ nodes: [Paragraph] }] });
+    checkUndoManager(4, doc, () => {
+      const paragraph = doc.createNode(Paragraph);
+      paragraph.state.content.set("Hello");
+      doc.root.append(paragraph);
+      doc.forceCommit();
+      paragraph.state.content.insert(5, " world");
+      paragraph.state.title.set("Greeting");
+      doc.forceCommit();
+      paragraph.state.content.delete(0, 6);
+      paragraph.state.content.insert(0, "Hi ");
+      doc.forceCommit();
+      const paragraph2 = doc.createNode(Paragraph);
+      doc.root.append(paragraph2);
+      paragraph2.state.content.set("Bye");
+      paragraph.delete();
+    });
+  });
+});
+
+describe("text state - concurrency", () => {
+  test("concurrent updates are merged instead of the last writer winning", () => {
+    const { doc } = createDoc();
+    const peer1 = fork(doc, Paragraph);
+    const peer2 = fork(doc, Paragraph);
+    const operations1 = recordOperations(peer1.doc, () => {
+      peer1.node.state.content.insert(5, " world");
+    });
+    const operations2 = recordOperations(peer2.doc, () => {
+      peer2.node.state.content.insert(0, ">");
+    });
+    doc.applyOperations(operations1);
+    doc.applyOperations(operations2);
+    const paragraph = doc.root.first as DocNode<typeof Paragraph>;
+    expect(paragraph.state.content.get()).toBe(">Hello world");
+  });
+
+  test("deltas can be applied to concurrently shortened values", () => {
+    const { doc, paragraph } = createDoc();
+    const peer = fork(doc, Paragraph);
+    const operations = recordOperations(peer.doc, () => {
+      peer.node.state.content.delete(2, 3);
+    });
+    paragraph.state.content.set("H");
+    doc.forceCommit();
+    doc.applyOperations(operations);
+    expect(paragraph.state.content.get()).toBe("H");
+  });
+
+  test("undo only reverts the local delta", () => {
+    const { doc, paragraph } = createDoc();
+    const peer = fork(doc, Paragraph);
+    paragraph.state.content.delete(0, 1);
+    doc.forceCommit();
+    const remoteOperations = recordOperations(peer.doc, () => {
+      peer.node.state.content.insert(5, "!");
+    });
+    doc.applyOperations(remoteOperations, { skipUndo: true });
+    expect(paragraph.state.content.get()).toBe("ello!");
+    doc.undoManager.undo();
+    expect(paragraph.state.content.get()).toBe("Hello!");
+    doc.undoManager.redo();
+    expect(paragraph.state.content.get()).toBe("ello!");
+  });
+
+  test("applying the same operations twice is idempotent", () => {
+    const { doc, paragraph } = createDoc();
+    const peer = fork(doc, Paragraph);
+    const operations = recordOperations(peer.doc, () => {
+      peer.node.state.content.insert(5, "!");
+    });
+    doc.applyOperations(operations);
+    doc.applyOperations(operations);
+    expect(paragraph.state.content.get()).toBe("Hello!");
+  });
+
+  test("deltas that were already applied are skipped, the rest are applied", () => {
+    const { doc, paragraph } = createDoc();
+    const peer = fork(doc, Paragraph);
+    const operations1 = recordOperations(peer.doc, () => {
+      peer.node.state.content.insert(5, "!");
+    });
+    const operations2 = recordOperations(peer.doc, () => {
+      peer.node.state.content.insert(0, "¡");
+    });
+    doc.applyOperations(operations1);
+    doc.applyOperations(mergeOperations(operations1, operations2));
+    expect(paragraph.state.content.get()).toBe("¡Hello!");
+  });
+
+  test("peers converge when they apply each other's operations", () => {
+    expect(
+      converge(
+        "Hello",
+        (content) => content.insert(5, " world"),
+        (content) => {
+          content.insert(0, ">");
+          content.delete(5, 1);
+        },
+      ),
+    ).toStrictEqual([">Hell world", ">Hell world"]);
+    expect(
+      converge(
+        "Hello",
+        (content) => content.delete(0, 1),
+        (content) => content.delete(0, 1),
+      ),
+    ).toStrictEqual(["ello", "ello"]);
+    expect(
+      converge(
+        "Hello",
+        (content) => content.delete(1, 3),
+        (content) => content.delete(2, 3),
+      ),
+    ).toStrictEqual(["H", "H"]);
+  });
+
+  test("concurrent inserts at the same position are ordered the same on both peers", () => {
+    expect(
+      converge(
+        "ab",
+        (content) => content.insert(1, "2"),
+        (content) => content.insert(1, "1"),
+      ),
+    ).toStrictEqual(["a12b", "a12b"]);
+    expect(
+      converge(
+        "ab",
+        (content) => content.insert(1, "x"),
+        (content) => content.insert(1, "x"),
+      ),
+    ).toStrictEqual(["axxb", "axxb"]);
+  });
+
+  test("inserts into repeated characters are rebased at their index", () => {
+    expect(
+      converge(
+        "aaa",
+        (content) => content.insert(0, "a"),
+        (content) => content.insert(1, "x"),
+      ),
+    ).toStrictEqual(["aaxaa", "aaxaa"]);
+  });
+
+  test("inserts inside a concurrently deleted range are kept", () => {
+    expect(
+      converge(
+        "Hello world",
+        (content) => content.delete(2, 6),
+        (content) => content.insert(5, "!"),
+      ),
+    ).toStrictEqual(["He!rld", "He!rld"]);
+  });
+
+  test("patches with several deltas are rebased", () => {
+    expect(
+      converge(
+        "Hello",
+        (content) => {
+          content.insert(5, "!");
+          content.insert(0, "¡");
+        },
+        (content) => {
+          content.delete(1, 3);
+          content.insert(1, "i");
+          content.insert(0, ">");
+        },
+      ),
+    ).toStrictEqual([">¡Hio!", ">¡Hio!"]);
+  });
+
+  test("string state is still last-writer-wins", () => {
+    const { doc, paragraph } = createDoc();
+    paragraph.state.title.set("Hello");
+    doc.forceCommit();
+    const peer1 = fork(doc, Paragraph);
+    const peer2 = fork(doc, Paragraph);
+    const operations1 = recordOperations(peer1.doc, () => {
+      peer1.node.state.title.set("Hello world");
+    });
+    const operations2 = recordOperations(peer2.doc, () => {
+      peer2.node.state.title.set(">Hello");
+    });
+    doc.applyOperations(operations1);
+    doc.applyOperations(operations2);
+    expect(paragraph.state.title.get()).toBe(">Hello");
+  });
+});
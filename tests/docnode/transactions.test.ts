@@ -422,7 +422,12 @@ describe("undoManager", () => {
     assertDoc(doc, ["a", "b"]);
 
     unregister();
-    expect(flags).toStrictEqual([{}, {}, {}, {}]);
+    expect(flags).toStrictEqual([
+      {},
+      {},
+      { origin: "undo" },
+      { origin: "redo" },
+    ]);
   });
 
   test("undo/redo - adding and deleting nodes", () => {
@@ -797,6 +802,24 @@ describe("applyOperations", () => {
     expect(flags).toStrictEqual([{ skipUndo: true }, {}]);
     assertDoc(doc, ["remote", "local"]);
   });
+  test("origin and meta are forwarded to the change event", () => {
+    const remoteOperations = createRemoteInsertOperations("remote");
+    const doc = new Doc({ type: "root", extensions: [TextExtension] });
+    const flags = collectFlags(doc, () => {
+      doc.applyOperations(remoteOperations, {
+        skipUndo: true,
+        origin: "network",
+      });
+      doc.forceCommit(() => doc.root.append(...text(doc, "pasted")), {
+        origin: "paste",
+        meta: { source: "clipboard" },
+      });
+    });
+    expect(flags).toStrictEqual([
+      { skipUndo: true, origin: "network" },
+      { origin: "paste", meta: { source: "clipboard" } },
+    ]);
+  });
 });
 
 describe("change", () => {
@@ -0,0 +1,123 @@
+import { test, describe, expect } from "vitest";
+import { Doc, transformOperations } from "@docukit/docnode";
+import {
+  assertDoc,
+  find,
+  recordOperations,
+  text,
+  TextExtension,
+} from "./utils.js";
+
+const config = { type: "root", extensions: [TextExtension] };
+
+function createBase() {
+  const doc = new Doc(config);
+  doc.root.append(...text(doc, "1", "2", "3", "4"));
+  doc.root.first!.append(...text(doc, "1.1", "1.2"));
+  doc.forceCommit();
+  return doc.toJSON();
+}
+
+/**
+ * Records the operations of `local` and `remote` made concurrently on the
+ * same document, and applies `remote` and then the transformed `local`.
+ */
+function concurrent(local: (doc: Doc) => void, remote: (doc: Doc) => void) {
+  const base = createBase();
+  const record = (fn: (doc: Doc) => void) => {
+    const doc = Doc.fromJSON(config, base);
+    doc.forceCommit();
+    return recordOperations(doc, () => fn(doc));
+  };
+  const localOps = record(local);
+  const remoteOps = record(remote);
+  const doc = Doc.fromJSON(config, base);
+  doc.forceCommit();
+  doc.applyOperations(remoteOps);
+  const transformed = transformOperations(localOps, remoteOps, doc);
+  doc.applyOperations(transformed);
+  return { doc, localOps, transformed };
+}
+
+describe("transformOperations", () => {
+  test("no conflicts", () => {
+    const { doc, localOps, transformed } = concurrent(
+      (doc) => find(doc, "2").insertAfter(...text(doc, "2b")),
+      (doc) => find(doc, "4").delete(),
+    );
+    expect(transformed).toStrictEqual(localOps);
+    assertDoc(doc, ["1", "__1.1", "__1.2", "2", "2b", "3"]);
+  });
+
+  test("insert after a node moved by remote", () => {
+    const { doc } = concurrent(
+      (doc) => find(doc, "2").insertAfter(...text(doc, "2b")),
+      (doc) => find(doc, "2").move(find(doc, "1"), "append"),
+    );
+    assertDoc(doc, ["1", "__1.1", "__1.2", "__2", "2b", "3", "4"]);
+  });
+
+  test("insert before a node moved by remote", () => {
+    const { doc } = concurrent(
+      (doc) => find(doc, "3").insertBefore(...text(doc, "2b")),
+      (doc) => find(doc, "1").move(find(doc, "3"), "after"),
+    );
+    assertDoc(doc, ["2", "2b", "3", "1", "__1.1", "__1.2", "4"]);
+  });
+
+  test("insert after a node deleted by remote", () => {
+    const { doc } = concurrent(
+      (doc) => find(doc, "2").insertAfter(...text(doc, "2b")),
+      (doc) => find(doc, "2").delete(),
+    );
+    assertDoc(doc, ["1", "__1.1", "__1.2", "2b", "3", "4"]);
+  });
+
+  test("insert into a node deleted by remote", () => {
+    const { doc, transformed } = concurrent(
+      (doc) => {
+        const [newNode] = text(doc, "1.3");
+        find(doc, "1").append(newNode!);
+        newNode!.append(...text(doc, "1.3.1"));
+        find(doc, "3").insertAfter(...text(doc, "3b"));
+      },
+      (doc) => find(doc, "1").delete(),
+    );
+    expect(transformed[0]).toHaveLength(1);
+    expect(Object.keys(transformed[1])).toHaveLength(1);
+    assertDoc(doc, ["2", "3", "3b", "4"]);
+  });
+
+  test("delete and move nodes deleted by remote", () => {
+    const { transformed } = concurrent(
+      (doc) => {
+        find(doc, "2").to(find(doc, "3")).delete();
+        find(doc, "4").move(find(doc, "1"), "append");
+      },
+      (doc) => {
+        find(doc, "3").delete();
+        find(doc, "1").delete();
+      },
+    );
+    expect(transformed[0]).toStrictEqual([]);
+  });
+
+  test("local moves win over remote moves", () => {
+    const { doc } = concurrent(
+      (doc) => {
+        find(doc, "4").move(find(doc, "1"), "before");
+        find(doc, "4").insertAfter(...text(doc, "4b"));
+      },
+      (doc) => find(doc, "4").move(find(doc, "1"), "append"),
+    );
+    assertDoc(doc, ["4", "4b", "1", "__1.1", "__1.2", "2", "3"]);
+  });
+
+  test("anchors inside ranges moved by remote are ignored", () => {
+    const { doc } = concurrent(
+      (doc) => find(doc, "3").insertAfter(...text(doc, "3b")),
+      (doc) => find(doc, "2").to(find(doc, "4")).move(find(doc, "1"), "append"),
+    );
+    assertDoc(doc, ["1", "__1.1", "__1.2", "__2", "__3", "__4", "3b"]);
+  });
+});
@@ -0,0 +1,212 @@
+import { test, describe, expect } from "vitest";
+import { Doc } from "@docukit/docnode";
+import { assertDoc, text, TextExtension } from "./utils.js";
+
+const config = (mergeInterval = 0, maxUndoSteps = 10) => ({
+  type: "root",
+  extensions: [TextExtension],
+  undoManager: { maxUndoSteps, mergeInterval },
+});
+
+function createDoc(mergeInterval?: number) {
+  const doc = new Doc(config(mergeInterval));
+  doc.forceCommit();
+  return doc;
+}
+
+const append = (doc: Doc, ...values: string[]) => {
+  doc.root.append(...text(doc, ...values));
+  doc.forceCommit();
+};
+
+describe("group", () => {
+  test("merges transactions into a single step", () => {
+    const doc = createDoc();
+    append(doc, "1");
+    doc.undoManager.group(() => {
+      append(doc, "2");
+      append(doc, "3");
+      // committed by group
+      doc.root.append(...text(doc, "4"));
+    });
+    append(doc, "5");
+    doc.undoManager.undo();
+    assertDoc(doc, ["1", "2", "3", "4"]);
+    doc.undoManager.undo();
+    assertDoc(doc, ["1"]);
+    doc.undoManager.redo();
+    assertDoc(doc, ["1", "2", "3", "4"]);
+  });
+
+  test("pending changes are not included", () => {
+    const doc = createDoc(Infinity);
+    doc.root.append(...text(doc, "1"));
+    doc.undoManager.group(() => append(doc, "2"));
+    doc.undoManager.undo();
+    assertDoc(doc, ["1"]);
+  });
+
+  test("nested groups and stopCapturing", () => {
+    const doc = createDoc();
+    doc.undoManager.group(() => {
+      append(doc, "1");
+      doc.undoManager.group(() => append(doc, "2"));
+      append(doc, "3");
+      doc.undoManager.stopCapturing();
+      append(doc, "4");
+    });
+    doc.undoManager.undo();
+    assertDoc(doc, ["1", "2", "3"]);
+    doc.undoManager.undo();
+    assertDoc(doc, []);
+  });
+
+  test("errors end the group", () => {
+    const doc = createDoc();
+    expect(() =>
+      doc.undoManager.group(() => {
+        append(doc, "1");
+        throw new Error("test");
+      }),
+    ).toThrowError("test");
+    append(doc, "2");
+    doc.undoManager.undo();
+    assertDoc(doc, ["1"]);
+  });
+});
+
+test("stopCapturing", () => {
+  const doc = createDoc(Infinity);
+  append(doc, "1");
+  append(doc, "2");
+  doc.root.append(...text(doc, "3"));
+  doc.undoManager.stopCapturing();
+  append(doc, "4");
+  doc.undoManager.undo();
+  assertDoc(doc, ["1", "2", "3"]);
+  doc.undoManager.undo();
+  assertDoc(doc, []);
+});
+
+test("clear and onStackChange", () => {
+  const doc = createDoc();
+  const events: { canUndo: boolean; canRedo: boolean }[] = [];
+  const off = doc.undoManager.onStackChange((event) => events.push(event));
+  append(doc, "1");
+  append(doc, "2");
+  doc.undoManager.undo();
+  doc.undoManager.redo();
+  doc.undoManager.clear();
+  expect(events).toStrictEqual([
+    { canUndo: true, canRedo: false },
+    { canUndo: true, canRedo: false },
+    { canUndo: true, canRedo: true },
+    { canUndo: true, canRedo: false },
+    { canUndo: false, canRedo: false },
+  ]);
+  expect(doc.undoManager.canUndo()).toBe(false);
+  off();
+  append(doc, "3");
+  expect(events).toHaveLength(5);
+});
+
+describe("toJSON and restore", () => {
+  test("persist the stacks together with the doc", () => {
+    const doc = createDoc();
+    doc.undoManager.onPush(({ meta }) => meta.set("selection", [1, 2]));
+    append(doc, "1");
+    append(doc, "2");
+    append(doc, "3");
+    doc.undoManager.undo();
+    const jsonDoc = doc.toJSON();
+    const jsonUndo = JSON.parse(
+      JSON.stringify(doc.undoManager.toJSON()),
+    ) as ReturnType<typeof doc.undoManager.toJSON>;
+    expect(jsonUndo.undoStack).toHaveLength(2);
+    expect(jsonUndo.redoStack).toHaveLength(1);
+    expect(jsonUndo.undoStack[0]!.meta).toStrictEqual({ selection: [1, 2] });
+
+    const doc2 = Doc.fromJSON(config(), jsonDoc);
+    doc2.forceCommit();
+    const events: boolean[] = [];
+    doc2.undoManager.onStackChange(({ canRedo }) => events.push(canRedo));
+    const metas: unknown[] = [];
+    doc2.undoManager.onPop(({ meta }) => metas.push(meta.get("selection")));
+    doc2.undoManager.restore(jsonUndo);
+    expect(events).toStrictEqual([true]);
+    doc2.undoManager.redo();
+    assertDoc(doc2, ["1", "2", "3"]);
+    doc2.undoManager.undo();
+    doc2.undoManager.undo();
+    assertDoc(doc2, ["1"]);
+    // the step pushed by redo in doc2 has no onPush handler
+    expect(metas).toStrictEqual([[1, 2], undefined, [1, 2]]);
+  });
+
+  test("maxUndoSteps", () => {
+    const doc = createDoc();
+    append(doc, "1");
+    append(doc, "2");
+    append(doc, "3");
+    const doc2 = Doc.fromJSON(config(0, 2), doc.toJSON());
+    doc2.forceCommit();
+    doc2.undoManager.restore(doc.undoManager.toJSON());
+    doc2.undoManager.undo();
+    doc2.undoManager.undo();
+    expect(doc2.undoManager.canUndo()).toBe(false);
+    assertDoc(doc2, ["1"]);
+  });
+});
+
+test("origin and meta", () => {
+  const doc = createDoc();
+  const events: unknown[] = [];
+  doc.undoManager.onPush(({ type, origin, transactionMeta }) =>
+    events.push(["push", type, origin, transactionMeta]),
+  );
+  doc.undoManager.onPop(({ type, origin, transactionMeta }) =>
+    events.push(["pop", type, origin, transactionMeta]),
+  );
+  const flags: unknown[] = [];
+  doc.onChange((event) => flags.push(event.flags));
+  doc.forceCommit(() => doc.root.append(...text(doc, "1")), {
+    origin: "ai",
+    meta: { model: "a" },
+  });
+  doc.undoManager.undo();
+  doc.undoManager.redo();
+  expect(flags).toStrictEqual([
+    { origin: "ai", meta: { model: "a" } },
+    { origin: "undo", meta: { model: "a" } },
+    { origin: "redo", meta: { model: "a" } },
+  ]);
+  expect(events).toStrictEqual([
+    ["push", "undo", "ai", { model: "a" }],
+    ["push", "redo", "ai", { model: "a" }],
+    ["pop", "undo", "ai", { model: "a" }],
+    ["push", "undo", "ai", { model: "a" }],
+    ["pop", "redo", "ai", { model: "a" }],
+  ]);
+  const json = doc.undoManager.toJSON();
+  expect(json.undoStack[0]).toMatchObject({
+    origin: "ai",
+    transactionMeta: { model: "a" },
+  });
+});
+
+test("merged steps keep the latest origin and merge the meta", () => {
+  const doc = createDoc();
+  doc.undoManager.group(() => {
+    doc.forceCommit(() => doc.root.append(...text(doc, "1")), {
+      origin: "paste",
+      meta: { a: 1 },
+    });
+    doc.forceCommit(() => doc.root.append(...text(doc, "2")), {
+      origin: "format",
+      meta: { b: 2 },
+    });
+  });
+  expect(doc.undoManager.toJSON().undoStack).toMatchObject([
+    { origin: "format", transactionMeta: { a: 1, b: 2 } },
+  ]);
+});
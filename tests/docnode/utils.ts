@@ -12,6 +12,8 @@ import {
   type Diff,
   type JsonDoc,
   mergeOperations,
+  type NodeDefinition,
+  type DocConfig,
 } from "@docukit/docnode";
 import { ULID_REGEX } from "valibot";
 import { expect } from "vitest";
@@ -83,6 +85,14 @@ export function assertDoc(doc: Doc, expectedState: string[]) {
   expect(getStateSnapshot(doc, true)).toStrictEqual(expectedState);
 }
 
+/** Returns the `Text` node of the doc with the given value. */
+export function find(doc: Doc, value: string) {
+  const node = doc.root
+    .descendants()
+    .find((node) => node.is(Text) && node.state.value.get() === value);
+  return node as DocNode<typeof Text>;
+}
+
 type JsonWithoutId = [
   type: string,
   state: Record<string, string>,
@@ -101,6 +111,35 @@ export function assertJson(doc: Doc, expected: JsonWithoutId) {
   expect(json).toStrictEqual(expected);
 }
 
+/**
+ * Returns a copy of the doc loaded from its JSON, like another client would
+ * load it, and the first child of its root.
+ */
+export function fork<T extends NodeDefinition>(doc: Doc, nodeDefinition: T) {
+  const forked = Doc.fromJSON(doc["_config"] as DocConfig, doc.toJSON());
+  forked.forceCommit();
+  const node = forked.root.first;
+  if (!node?.is(nodeDefinition))
+    throw new Error(`The first child is not of type '${nodeDefinition.type}'`);
+  return { doc: forked, node };
+}
+
+/** Returns the list of deltas of a delta patch */
+export const deltas = (patch: string | undefined) =>
+  (JSON.parse(patch!.slice(1)) as { d: unknown[] }).d;
+
+/** Returns the operations of the transaction made by `fn`. */
+export function recordOperations(doc: Doc, fn: () => void) {
+  let operations: Operations = [[], {}];
+  const unregister = doc.onChange((ev) => {
+    operations = ev.operations;
+  });
+  fn();
+  doc.forceCommit();
+  unregister();
+  return operations;
+}
+
 export function init(
   fn: (ctx: {
     doc: Doc;
@@ -179,6 +218,15 @@ export function humanReadableOperations(doc: Doc, changeEvent: ChangeEvent) {
           );
           break;
         }
+        case 3: {
+          const start = id(operation[2]);
+          const end = id(operation[3] || operation[2]);
+          const descendants = operation[4] ? " (with descendants)" : "";
+          humanReadableOperations.push(
+            `CHANGE TYPE: ${start} - ${end} to ${operation[1]}${descendants}`,
+          );
+          break;
+        }
         default:
           operation satisfies never;
       }
@@ -204,7 +252,7 @@ export function humanReadableOperations(doc: Doc, changeEvent: ChangeEvent) {
     }
     return humanReadableOperations;
   };
-  const newDiff: Omit<Diff, "deleted"> & {
+  const newDiff: Omit<Diff, "deleted" | "typeChanged" | "updatedKeys"> & {
     deleted: Record<string, JsonWithoutId>;
   } = {
     inserted: new Set([...diff.inserted].map(id)),
@@ -373,6 +421,17 @@ export function checkUndoManager(
           expect(start).not.toBe(end);
           break;
         }
+        case 3: {
+          // CHANGE TYPE
+          const [, type, start, end, includeDescendants] = op;
+          expect(typeof type).toBe("string");
+          expect(type).not.toBe("root");
+          expect(start).toMatch(DOCNODE_ID());
+          if (end !== 0) expect(end).toMatch(DOCNODE_ID());
+          expect(start).not.toBe(end);
+          expect([0, 1]).toContain(includeDescendants);
+          break;
+        }
         default:
           throw new Error(`Unknown operation type: ${op[0] as number}`);
       }
@@ -387,7 +446,11 @@ export function checkUndoManager(
       expect(diff.deleted.has(id)).toBe(false);
       expect(operations[1][id]).toBeDefined();
       expect(inverseOperations[1][id]).toBeDefined();
+      expect(diff.updatedKeys.get(id)).toStrictEqual(
+        new Set(Object.keys(operations[1][id]!)),
+      );
     });
+    expect(diff.updatedKeys.size).toBe(diff.updated.size);
     diff.inserted.forEach((id) => {
       expect(id).toMatch(DOCNODE_ID());
       expect(doc.getNodeById(id)).toBeDefined();
@@ -407,7 +470,9 @@ export function checkUndoManager(
       if (!diff.inserted.has(id)) expect(diff.updated.has(id)).toBe(true);
     }
     for (const id in inverseOperations[1]) {
-      if (!diff.deleted.has(id)) expect(diff.updated.has(id)).toBe(true);
+      if (diff.deleted.has(id)) continue;
+      // changing the type may drop state without any state patch
+      expect(diff.updated.has(id) || diff.typeChanged.has(id)).toBe(true);
     }
 
     // getPrev should change for updated nodes and only for those
@@ -461,7 +526,7 @@ export function checkUndoManager(
     updateAndListen(
       doc3,
       () => {
-        doc3.applyOperations(changeEvent.operations);
+        doc3.applyOperations(changeEvent.operations, changeEvent.flags);
       },
       (changeEvent) => {
         expect(doc3.toJSON()).toStrictEqual(jsonDocs[i + 1]);
@@ -478,7 +543,7 @@ export function checkUndoManager(
     updateAndListen(
       doc4,
       () => {
-        doc4.applyOperations(changeEvent.operations);
+        doc4.applyOperations(changeEvent.operations, changeEvent.flags);
       },
       (changeEvent) => {
         expect(doc4.toJSON()).toStrictEqual(jsonDocs[i + 1]);
@@ -706,7 +706,9 @@ describe("DocSyncClient", () => {
       type FakeDoc = { id: string };
       type FakeSerializedDoc = { id: string };
       type FakeOperation = { value: string };
-      type FakeChangeListener = (ev: { operations: FakeOperation }) => void;
+      type FakeChangeListener = Parameters<
+        DocBinding<FakeDoc, FakeSerializedDoc, FakeOperation>["onChange"]
+      >[1];
 
       const changeListeners = new Set<FakeChangeListener>();
       const docBinding: DocBinding<FakeDoc, FakeSerializedDoc, FakeOperation> =
@@ -720,8 +722,10 @@ describe("DocSyncClient", () => {
           onChange: (_doc, cb) => {
             changeListeners.add(cb);
           },
-          applyOperations: (_doc, operations) => {
-            changeListeners.forEach((listener) => listener({ operations }));
+          applyOperations: (_doc, operations, flags) => {
+            changeListeners.forEach((listener) =>
+              listener({ operations, ...(flags && { flags }) }),
+            );
           },
           dispose: vi.fn(),
         };
@@ -2,18 +2,25 @@
 // (integration tests run server in globalSetup, excluded from coverage)
 
 /* eslint-disable @typescript-eslint/no-empty-object-type */
-import { describe, test, expect, expectTypeOf } from "vitest";
+import { describe, test, expect, expectTypeOf, vi } from "vitest";
 import {
   testWrapper,
   testPort,
   createTestClientProvider,
   createTestOperation,
+  createMemoryClientProvider,
 } from "./utils.js";
 import { DocSyncServer, inMemoryServerProvider } from "@docukit/docsync/server";
 import { DocNodeBinding } from "@docukit/docsync/docnode";
 import { DocSyncClient } from "@docukit/docsync/client";
 import type { ClientAuthConfig } from "@docukit/docsync/client";
-import type { Doc, JsonDoc, Operations } from "@docukit/docnode";
+import {
+  defineNode,
+  text,
+  type Doc,
+  type JsonDoc,
+  type Operations,
+} from "@docukit/docnode";
 import { testDocConfig } from "../../int/utils.js";
 
 describe("authentication", () => {
@@ -634,6 +641,116 @@ describe("sync", () => {
   });
 });
 
+describe("clients", () => {
+  const Paragraph = defineNode({
+    type: "paragraph",
+    state: { content: text() },
+  });
+  const docConfig = { type: "text", extensions: [{ nodes: [Paragraph] }] };
+  const docId = "01kfpgjsabrpdcw0qgh5evhy2k";
+
+  /** A server and real clients that keep the docs in memory. */
+  function setup(port: number) {
+    const provider = inMemoryServerProvider();
+    vi.stubGlobal("requestAnimationFrame", (cb: () => void) => setTimeout(cb));
+    const server = new DocSyncServer({
+      docBinding: DocNodeBinding([docConfig]),
+      port,
+      provider,
+      authenticate: ({ token }) => {
+        if (token?.startsWith("valid-")) {
+          return { userId: token.replace("valid-", "") };
+        }
+      },
+    });
+    const clients: DocSyncClient<Doc, JsonDoc, Operations>[] = [];
+    const createClient = (deviceId: string, token: string) => {
+      mockBrowserGlobals(deviceId);
+      const client = new DocSyncClient({
+        server: {
+          url: `ws://localhost:${port}`,
+          auth: { mode: "token", getToken: () => token },
+        },
+        local: { provider: () => createMemoryClientProvider() },
+        docBinding: DocNodeBinding([docConfig]),
+        timing: { collabMaxDebounce: 0, singleClientMaxDebounce: 0 },
+      });
+      clients.push(client);
+      return client;
+    };
+    // The client may replace the doc when it syncs, so the latest one is kept
+    const loadDoc = (client: DocSyncClient<Doc, JsonDoc, Operations>) => {
+      let doc: Doc | undefined;
+      client.getDoc(
+        { type: "text", id: docId, createIfMissing: true },
+        (result) => {
+          if (result.status === "success") doc = result.data.doc;
+        },
+      );
+      return () => doc;
+    };
+    const getServerOperations = () =>
+      provider.transaction("readonly", (ctx) =>
+        ctx.getOperations({ docId, clock: 0 }),
+      );
+    const close = async () => {
+      clients.forEach((client) => client.disconnect());
+      await server.close();
+      vi.unstubAllGlobals();
+    };
+    return { createClient, loadDoc, getServerOperations, close };
+  }
+
+  const getParagraph = (doc: Doc | undefined) => {
+    const paragraph = doc?.root.first;
+    return paragraph?.is(Paragraph) ? paragraph : undefined;
+  };
+  const getContent = (doc: Doc | undefined) =>
+    getParagraph(doc)?.state.content.get();
+
+  test("rebases concurrent text edits", async () => {
+    const T = setup(testPort(16));
+    const client1 = T.createClient("device-1", "valid-user1");
+    const getDoc1 = T.loadDoc(client1);
+    await expect.poll(getDoc1).toBeDefined();
+    const doc1 = getDoc1()!;
+    const paragraph = doc1.createNode(Paragraph);
+    paragraph.state.content.set("hello");
+    doc1.root.append(paragraph);
+    await expect.poll(T.getServerOperations).toHaveLength(1);
+
+    const client2 = T.createClient("device-2", "valid-user2");
+    const getDoc2 = T.loadDoc(client2);
+    await expect.poll(() => getContent(getDoc2())).toBe("hello");
+
+    client1.disconnect();
+    client2.disconnect();
+    getParagraph(getDoc1())!.state.content.insert(0, "Hey, ");
+    getParagraph(getDoc2())!.state.content.insert(5, "!");
+
+    client1.connect();
+    await expect.poll(T.getServerOperations).toHaveLength(2);
+    client2.connect();
+
+    await expect.poll(() => getContent(getDoc2())).toBe("Hey, hello!");
+    await expect.poll(() => getContent(getDoc1())).toBe("Hey, hello!");
+    await T.close();
+  });
+
+  test("pushes local transactions with any origin", async () => {
+    const T = setup(testPort(17));
+    const client = T.createClient("device-1", "valid-user1");
+    const getDoc = T.loadDoc(client);
+    await expect.poll(getDoc).toBeDefined();
+    const doc = getDoc()!;
+    doc.forceCommit(() => doc.root.append(doc.createNode(Paragraph)), {
+      origin: "network",
+    });
+    await expect.poll(T.getServerOperations).toHaveLength(1);
+    await T.close();
+  });
+});
+
 // ============================================================================
 // Runtime Tests - Different function definition syntaxes with type inference
 // ============================================================================
@@ -75,6 +75,37 @@ export const createTestClientProvider = (): ClientProvider<
     }),
 });
 
+/** A client provider that keeps the docs and operations in memory. */
+export const createMemoryClientProvider = (): ClientProvider<
+  JsonDoc,
+  Operations
+> => {
+  const docs = new Map<string, { serializedDoc: JsonDoc; clock: number }>();
+  const operationsByDoc = new Map<string, Operations[][]>();
+  return {
+    transaction: (_mode, callback) =>
+      callback({
+        getSerializedDoc: ({ docId }) => Promise.resolve(docs.get(docId)),
+        getOperations: ({ docId }) =>
+          Promise.resolve(operationsByDoc.get(docId) ?? []),
+        deleteOperations: ({ docId, count }) => {
+          const batches = operationsByDoc.get(docId) ?? [];
+          operationsByDoc.set(docId, batches.slice(count));
+          return Promise.resolve();
+        },
+        saveOperations: ({ docId, operations }) => {
+          const batches = operationsByDoc.get(docId) ?? [];
+          operationsByDoc.set(docId, [...batches, operations]);
+          return Promise.resolve();
+        },
+        saveSerializedDoc: ({ docId, serializedDoc, clock }) => {
+          docs.set(docId, { serializedDoc, clock });
+          return Promise.resolve();
+        },
+      }),
+  };
+};
+
 const createServer = (port = BASE_PORT) => {
   return new DocSyncServer({
     docBinding: DocNodeBinding([testDocConfig]),
@@ -0,0 +1,36 @@
+import { describe, expect, test } from "vitest";
+import { DocNodeBinding, DocNodeValidators } from "@docukit/docsync2/docnode";
+import { defineNode, encodeOperations, string } from "@docukit/docnode";
+
+const Text = defineNode({ type: "text", state: { value: string("") } });
+const config = { type: "root", extensions: [{ nodes: [Text] }] };
+
+describe("DocNode binary encoding", () => {
+  test("binding and validators", () => {
+    const binding = DocNodeBinding([config], { binary: true });
+    const validators = DocNodeValidators({ binary: true });
+    const { doc } = binding.create("root", "01kdfwy0qdzrq2ysfcpf8jgw0m");
+    const doc2 = binding.deserialize(
+      validators.serializedDoc(binding.serialize(doc)),
+    );
+    binding.onChange(doc, ({ operations }) => {
+      expect(operations).toBeInstanceOf(Uint8Array);
+      const validated = validators.operations(operations.slice().buffer);
+      binding.applyOperations(doc2, validated);
+    });
+    const node = doc.createNode(Text);
+    node.state.value.set("hello");
+    doc.root.append(node);
+    doc.forceCommit();
+    expect(doc2.toJSON()).toStrictEqual(doc.toJSON());
+  });
+
+  test("invalid payloads", () => {
+    const validators = DocNodeValidators({ binary: true });
+    expect(() => validators.operations([[], {}])).toThrowError();
+    const operations = encodeOperations([[[1, "a", 0]], {}]);
+    expect(() => validators.operations(operations.slice(0, -1))).toThrowError(
+      "Unexpected end of encoded data",
+    );
+  });
+});